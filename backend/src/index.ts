@@ -12,7 +12,44 @@ import {
   SegmentedFileProtocol,
   StreamProtocol,
 } from "livekit-server-sdk";
-import { WebhookReceiver } from "livekit-server-sdk";
+import { WebhookEvent, WebhookReceiver } from "livekit-server-sdk";
+import {
+  createEgressRegistry,
+  reconcileEgressRegistry,
+} from "./services/egress-registry";
+import { createAuth, createAuthenticators } from "./middleware/auth";
+import {
+  RecordingFormat,
+  createRecordingStorage,
+} from "./services/recording-storage";
+import { createRecordingStore } from "./services/recording-store";
+import {
+  createDestinationStore,
+  toPublishUrl,
+} from "./services/destination-store";
+import { createDestinationRouter } from "./routes/destinations";
+import {
+  StoredWebhookEvent,
+  createWebhookEventStore,
+} from "./services/webhook-event-store";
+import { createWebhookEventRouter } from "./routes/webhook-events";
+import { WebhookEvent as WebhookEventCodec } from "livekit-server-sdk/dist/proto/livekit_webhook";
+import crypto from "crypto";
+import {
+  PublisherTracks,
+  RoomStateMachine,
+} from "./services/room-state-machine";
+import {
+  EgressInfo,
+  EgressStatus,
+  egressStatusToJSON,
+} from "livekit-server-sdk/dist/proto/livekit_egress";
+import { createEgressHistoryStore } from "./services/egress-history-store";
+import { EgressRestarter } from "./services/egress-restarter";
+import { RoomTaskQueue } from "./services/room-task-queue";
+import { createMetrics } from "./services/metrics";
+import { createMetricsRouter } from "./routes/metrics";
+import { createPlaybackRouter } from "./routes/playback";
 
 import { Request, Response } from "express";
 dotenv.config();
@@ -21,6 +58,8 @@ const app = express();
 app.use(cors());
 app.use(express.json());
 
+const requireScope = createAuth(createAuthenticators());
+
 const LIVEKIT_API_URL = process.env.LIVEKIT_API_URL!;
 console.log("🚀 ~ LIVEKIT_API_URL:", LIVEKIT_API_URL);
 const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY!;
@@ -48,332 +87,599 @@ function randomRoomId() {
 }
 
 // Create WHIP ingress
-app.post("/api/ingress/create", async (req: Request, res: Response) => {
-  try {
-    const identity = req.body.identity || "whip_publisher";
-    const roomName = req.body.room_name || randomRoomId();
-
-    await roomClient.createRoom({
-      name: roomName,
-      metadata: JSON.stringify({ creator_identity: identity }),
-    });
-
-    const ingress = await ingressClient.createIngress(IngressInput.WHIP_INPUT, {
-      name: roomName,
-      roomName,
-      participantName: identity,
-      participantIdentity: identity,
-      bypassTranscoding: true,
-    });
-
-    res.json({
-      room: roomName,
-      ingress,
-    });
-  } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: (err as Error).message });
+app.post(
+  "/api/ingress/create",
+  requireScope("ingress:create"),
+  async (req: Request, res: Response) => {
+    try {
+      const identity = req.body.identity || "whip_publisher";
+      const roomName = req.body.room_name || randomRoomId();
+
+      await roomClient.createRoom({
+        name: roomName,
+        metadata: JSON.stringify({ creator_identity: identity }),
+      });
+
+      const ingress = await ingressClient.createIngress(
+        IngressInput.WHIP_INPUT,
+        {
+          name: roomName,
+          roomName,
+          participantName: identity,
+          participantIdentity: identity,
+          bypassTranscoding: true,
+        }
+      );
+
+      res.json({
+        room: roomName,
+        ingress,
+      });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: (err as Error).message });
+    }
   }
-});
-
-app.post("/api/ingress/create-rtmp", async (req: Request, res: Response) => {
-  try {
-    const identity = req.body.identity || "rtmp_publisher";
-    const roomName = randomRoomId();
-
-    await roomClient.createRoom({
-      name: roomName,
-      metadata: JSON.stringify({ creator_identity: identity }),
-    });
-
-    const ingress = await ingressClient.createIngress(IngressInput.RTMP_INPUT, {
-      name: roomName,
-      roomName,
-      participantName: identity,
-      participantIdentity: identity,
-      bypassTranscoding: true,
-    });
-
-    const at = new AccessToken(LIVEKIT_API_KEY, LIVEKIT_API_SECRET, {
-      identity,
-    });
-    at.addGrant({
-      room: roomName,
-      roomJoin: true,
-      canPublish: false,
-      canSubscribe: true,
-    });
+);
 
-    res.json({
-      room: roomName,
-      ingress,
-      rtmp_url: ingress.url, // full RTMP ingest URL
-      viewer_connection: {
-        ws_url: LIVEKIT_WS_URL,
-        token: at.toJwt(),
-      },
-    });
-  } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: (err as Error).message });
+app.post(
+  "/api/ingress/create-rtmp",
+  requireScope("ingress:create"),
+  async (req: Request, res: Response) => {
+    try {
+      const identity = req.body.identity || "rtmp_publisher";
+      const roomName = randomRoomId();
+
+      await roomClient.createRoom({
+        name: roomName,
+        metadata: JSON.stringify({ creator_identity: identity }),
+      });
+
+      const ingress = await ingressClient.createIngress(
+        IngressInput.RTMP_INPUT,
+        {
+          name: roomName,
+          roomName,
+          participantName: identity,
+          participantIdentity: identity,
+          bypassTranscoding: true,
+        }
+      );
+
+      const at = new AccessToken(LIVEKIT_API_KEY, LIVEKIT_API_SECRET, {
+        identity,
+      });
+      at.addGrant({
+        room: roomName,
+        roomJoin: true,
+        canPublish: false,
+        canSubscribe: true,
+      });
+
+      res.json({
+        room: roomName,
+        ingress,
+        rtmp_url: ingress.url, // full RTMP ingest URL
+        viewer_connection: {
+          ws_url: LIVEKIT_WS_URL,
+          token: at.toJwt(),
+        },
+      });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: (err as Error).message });
+    }
   }
-});
+);
 
 /* ===========================================================
    ROOM API: CHECK ROOM EXISTS
 =========================================================== */
-app.post("/api/room/check", async (req: Request, res: Response) => {
-  try {
-    const { room_name } = req.body;
+app.post(
+  "/api/room/check",
+  requireScope("room:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const { room_name } = req.body;
 
-    if (!room_name) {
-      return res.status(400).json({ error: "room_name is required" });
-    }
+      if (!room_name) {
+        return res.status(400).json({ error: "room_name is required" });
+      }
 
-    const rooms = await roomClient.listRooms([room_name]);
-    res.json({ exists: rooms.length > 0 });
-  } catch (err) {
-    res.status(500).json({ error: (err as Error).message });
+      const rooms = await roomClient.listRooms([room_name]);
+      res.json({ exists: rooms.length > 0 });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
   }
-});
+);
 
 /* ===========================================================
    ROOM API: GET ROOM INFO
 =========================================================== */
-app.post("/api/room/info", async (req: Request, res: Response) => {
-  try {
-    const { room_name } = req.body;
+app.post(
+  "/api/room/info",
+  requireScope("room:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const { room_name } = req.body;
 
-    if (!room_name) {
-      return res.status(400).json({ error: "room_name is required" });
-    }
+      if (!room_name) {
+        return res.status(400).json({ error: "room_name is required" });
+      }
 
-    const rooms = await roomClient.listRooms([room_name]);
+      const rooms = await roomClient.listRooms([room_name]);
 
-    if (rooms.length === 0) {
-      return res.status(404).json({ exists: false, error: "Room not found" });
-    }
+      if (rooms.length === 0) {
+        return res.status(404).json({ exists: false, error: "Room not found" });
+      }
 
-    res.json({ exists: true, room: rooms[0] });
-  } catch (err) {
-    res.status(500).json({ error: (err as Error).message });
+      res.json({ exists: true, room: rooms[0] });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
   }
-});
+);
 
 /* ===========================================================
    ROOM API: GET PARTICIPANTS
 =========================================================== */
-app.post("/api/room/participants", async (req: Request, res: Response) => {
-  try {
-    const { room_name } = req.body;
-
-    if (!room_name) {
-      return res.status(400).json({ error: "room_name is required" });
-    }
-
-    const participants = await roomClient.listParticipants(room_name);
-    res.json({ room_name, participants });
-  } catch (err) {
-    res.status(500).json({ error: (err as Error).message });
-  }
-});
+app.post(
+  "/api/room/participants",
+  requireScope("room:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const { room_name } = req.body;
 
-app.post("/api/room/join", async (req: Request, res: Response) => {
-  try {
-    const { room_name, identity } = req.body;
+      if (!room_name) {
+        return res.status(400).json({ error: "room_name is required" });
+      }
 
-    if (!room_name || !identity) {
-      return res
-        .status(400)
-        .json({ error: "room_name and identity are required" });
+      const participants = await roomClient.listParticipants(room_name);
+      res.json({ room_name, participants });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
     }
+  }
+);
 
-    // check room exists
-    const rooms = await roomClient.listRooms([room_name]);
-    if (rooms.length === 0) {
-      return res.status(404).json({ error: "Room does not exist" });
-    }
+app.post(
+  "/api/room/join",
+  requireScope("token:issue"),
+  async (req: Request, res: Response) => {
+    try {
+      const { room_name, identity } = req.body;
 
-    // check if identity already exists
-    let participantExists = false;
+      if (!room_name || !identity) {
+        return res
+          .status(400)
+          .json({ error: "room_name and identity are required" });
+      }
 
-    try {
-      const p = await roomClient.getParticipant(room_name, identity);
-      if (p) participantExists = true;
-    } catch {
-      // participant doesn't exist → ok
-    }
+      // check room exists
+      const rooms = await roomClient.listRooms([room_name]);
+      if (rooms.length === 0) {
+        return res.status(404).json({ error: "Room does not exist" });
+      }
 
-    if (participantExists) {
-      return res.status(409).json({ error: "Participant already exists" });
-    }
+      // check if identity already exists
+      let participantExists = false;
 
-    // create viewer token
-    const at = new AccessToken(LIVEKIT_API_KEY, LIVEKIT_API_SECRET, {
-      identity,
-    });
+      try {
+        const p = await roomClient.getParticipant(room_name, identity);
+        if (p) participantExists = true;
+      } catch {
+        // participant doesn't exist → ok
+      }
 
-    at.addGrant({
-      room: room_name,
-      roomJoin: true,
-      canPublish: false,
-      canSubscribe: true,
-      canPublishData: true,
-    });
+      if (participantExists) {
+        return res.status(409).json({ error: "Participant already exists" });
+      }
 
-    res.json({
-      room_name,
-      identity,
-      ws_url: LIVEKIT_WS_URL,
-      token: await at.toJwt(),
-    });
-  } catch (err) {
-    console.error(err);
-    return res.status(500).json({ error: (err as Error).message });
+      // create viewer token
+      const at = new AccessToken(LIVEKIT_API_KEY, LIVEKIT_API_SECRET, {
+        identity,
+      });
+
+      at.addGrant({
+        room: room_name,
+        roomJoin: true,
+        canPublish: false,
+        canSubscribe: true,
+        canPublishData: true,
+      });
+
+      res.json({
+        room_name,
+        identity,
+        ws_url: LIVEKIT_WS_URL,
+        token: await at.toJwt(),
+      });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ error: (err as Error).message });
+    }
   }
-});
+);
 
 const receiver = new WebhookReceiver(LIVEKIT_API_KEY, LIVEKIT_API_SECRET);
-// Map để lưu egressId theo room
-const activeEgressMap = new Map<string, string>();
-
-app.post(
-  "/api/livekit/webhook",
-  express.raw({ type: "application/webhook+json" }),
-  async (req, res) => {
-    try {
-      const auth = req.get("Authorization") || "";
-      const event = await receiver.receive(req.body, auth);
+// Lưu egress đang chạy theo room (Redis) để không mất khi restart backend
+const egressRegistry = createEgressRegistry();
+
+// Prometheus: webhook events, egress starts/failures, egress đang chạy
+const metrics = createMetrics(egressRegistry);
+app.use(createMetricsRouter({ metrics, requireScope }));
+
+// Token ký HMAC để xem FLV/HLS trên rtmp-server (PLAYBACK_AUTH_ENABLED)
+app.use(createPlaybackRouter({ requireScope }));
+
+// Ghi hình room qua egress (HLS segments hoặc MP4) và lưu lại để xem VOD
+const RECORDING_ENABLED = process.env.RECORDING_ENABLED !== "false";
+const RECORDING_FORMAT: RecordingFormat =
+  process.env.RECORDING_FORMAT === "mp4" ? "mp4" : "hls";
+const recordingStorage = createRecordingStorage();
+const recordingStore = createRecordingStore();
+
+// Các nền tảng restream (YouTube, Twitch, ...) cấu hình theo room
+const destinationStore = createDestinationStore();
+app.use(
+  createDestinationRouter({
+    store: destinationStore,
+    egressRegistry,
+    egressClient,
+    requireScope,
+  })
+);
 
-      console.log("Webhook event:", event.event);
+// Theo dõi publisher/track của từng room qua webhook, start egress khi đủ track
+const roomStates = new RoomStateMachine({
+  trackWaitMs: parseInt(process.env.EGRESS_TRACK_WAIT_MS || "3000"),
+});
 
-      if (event.event === "track_published") {
-        const roomName = event.room?.name;
-        const track = event.track;
+// Lịch sử egress theo room + tự restart egress lỗi khi ingress vẫn live
+const egressHistory = createEgressHistoryStore();
+const egressRestarter = new EgressRestarter({
+  maxAttempts: parseInt(process.env.EGRESS_RESTART_MAX_ATTEMPTS || "5"),
+  baseDelayMs: parseInt(process.env.EGRESS_RESTART_BASE_DELAY_MS || "2000"),
+  maxDelayMs: parseInt(process.env.EGRESS_RESTART_MAX_DELAY_MS || "60000"),
+});
 
-        if (!roomName || !track) {
-          console.log("⚠️ track_published but missing room/track");
-          return res.json({ ok: true });
-        }
+// Start/stop egress của một room chạy lần lượt: start ngay sau stop phải
+// thấy registry đã được xoá
+const roomEgressTasks = new RoomTaskQueue();
+
+// Start lỗi được restart với cùng backoff như egress lỗi khi đang chạy
+roomStates.on("ready", (roomName: string, publisher: PublisherTracks) => {
+  roomEgressTasks
+    .run(roomName, () => startRoomEgress(roomName, publisher))
+    .catch((err) => {
+      console.error("❌ Failed to start HLS egress:", err);
+      scheduleEgressRestart(roomName);
+    });
+});
 
-        // 0 = AUDIO, 1 = VIDEO
-        if (track.type === 0) {
-          console.log("Audio track published, skip...");
-          return res.json({ ok: true });
-        }
+// Egress chạy với track sid cũ: dừng lại, start lại khi publisher publish lại
+roomStates.on("tracks_lost", (roomName: string) => {
+  roomEgressTasks
+    .run(roomName, () => stopRoomEgress(roomName))
+    .catch((err) => console.error("❌ Failed to stop egress:", err));
+});
 
-        if (track.type !== 1) {
-          console.log("Non-video track, ignore");
-          return res.json({ ok: true });
-        }
+roomStates.on("ended", (roomName: string) => {
+  roomEgressTasks
+    .run(roomName, () => stopRoomEgress(roomName))
+    .catch((err) => console.error("❌ Failed to stop egress:", err));
+});
 
-        const videoTrackId = track.sid;
+async function startRoomEgress(roomName: string, publisher: PublisherTracks) {
+  // Already started for this room
+  if (await egressRegistry.get(roomName)) {
+    console.log("HLS already running for room:", roomName);
+    return;
+  }
 
-        // Already started for this room
-        if (activeEgressMap.has(roomName)) {
-          console.log("HLS already running for room:", roomName);
-          return res.json({ ok: true });
-        }
+  const { audioTrackId, videoTrackId } = publisher;
+  console.log("🎯 Starting HLS Egress for room:", roomName);
+  console.log("🎬 Tracks:", { videoTrackId, audioTrackId });
 
-        console.log("🎯 Starting HLS Egress for room:", roomName);
+  const destinations = await destinationStore.list(roomName);
+  const restreamUrls = destinations.filter((d) => d.enabled).map(toPublishUrl);
+  if (restreamUrls.length > 0) {
+    console.log("📡 Restreaming to", restreamUrls.length, "destinations");
+  }
 
-        // Đợi LiveKit sync participant + tracks
-        await new Promise((resolve) => setTimeout(resolve, 1200));
+  const output = {
+    stream: {
+      protocol: StreamProtocol.RTMP,
+      urls: [`rtmp://localhost:1936/live/${roomName}`, ...restreamUrls],
+    },
+    ...(RECORDING_ENABLED
+      ? recordingStorage.buildOutput(roomName, RECORDING_FORMAT)
+      : {}),
+  };
+
+  let result: EgressInfo;
+  try {
+    result = await egressClient.startTrackCompositeEgress(roomName, output, {
+      audioTrackId,
+      videoTrackId,
+    });
+  } catch (err) {
+    metrics.egressFailed("start", "error");
+    throw err;
+  }
+  metrics.egressStarted();
+  console.log("🚀 HLS Egress Started:", result.egressId);
+  await egressRegistry.set({
+    roomName,
+    egressId: result.egressId!,
+    startedAt: Date.now(),
+    status: "starting",
+  });
+  await egressHistory.save({
+    egressId: result.egressId!,
+    roomName,
+    status: egressStatusToJSON(result.status ?? EgressStatus.EGRESS_STARTING),
+    startedAt: Date.now(),
+    updatedAt: Date.now(),
+    restartAttempt: egressRestarter.attemptsFor(roomName),
+  });
+
+  if (RECORDING_ENABLED) {
+    await recordingStore.save({
+      egressId: result.egressId!,
+      roomName,
+      format: RECORDING_FORMAT,
+      storage: recordingStorage.kind,
+      status: "recording",
+      startedAt: Date.now(),
+    });
+  }
+}
 
-        let participants = await roomClient.listParticipants(roomName);
+async function stopRoomEgress(roomName: string) {
+  egressRestarter.cancel(roomName);
 
-        if (participants.length === 0) {
-          console.log("No participants yet, retrying...");
-          await new Promise((resolve) => setTimeout(resolve, 1000));
-          participants = await roomClient.listParticipants(roomName);
-        }
+  const egress = await egressRegistry.get(roomName);
+  if (!egress) {
+    console.log("⚠️ No active egress for room:", roomName);
+    return;
+  }
 
-        if (participants.length === 0) {
-          console.log("No publisher. Abort HLS start.");
-          return res.json({ ok: true });
-        }
+  console.log("🛑 Stopping egress:", egress.egressId);
 
-        const pub = participants[0];
-        console.log("Publisher:", pub.identity);
+  try {
+    await egressClient.stopEgress(egress.egressId);
+  } catch (err) {
+    console.error("❌ Failed to stop egress:", err);
+  }
 
-        const audioTrack = pub.tracks.find((t) => t.type === 0); // AUDIO
-        const audioTrackId = audioTrack?.sid;
+  await egressRegistry.delete(roomName);
+}
 
-        if (!videoTrackId || !audioTrackId) {
-          console.log("❌ Missing tracks:", { videoTrackId, audioTrackId });
-          return res.json({ ok: true });
-        }
+const EGRESS_FAILED_STATUSES = [
+  EgressStatus.EGRESS_FAILED,
+  EgressStatus.EGRESS_ABORTED,
+  EgressStatus.EGRESS_LIMIT_REACHED,
+];
+
+async function handleEgressLifecycle(eventName: string, info: EgressInfo) {
+  const roomName = info.roomName!;
+  const egressId = info.egressId!;
+  const status = info.status ?? EgressStatus.EGRESS_STARTING;
+  const ended = eventName === "egress_ended";
+
+  const previous = await egressHistory.get(egressId);
+  await egressHistory.save({
+    egressId,
+    roomName,
+    restartAttempt: 0,
+    // LiveKit reports timestamps in nanoseconds
+    startedAt: info.startedAt ? Math.floor(info.startedAt / 1e6) : Date.now(),
+    ...previous,
+    status: egressStatusToJSON(status),
+    updatedAt: Date.now(),
+    endedAt: info.endedAt ? Math.floor(info.endedAt / 1e6) : undefined,
+    error: info.error || undefined,
+    fileResults: info.fileResults?.map(({ filename, location, size }) => ({
+      filename,
+      location,
+      size,
+    })),
+    segmentResults: info.segmentResults?.map(
+      ({ playlistLocation, segmentCount }) => ({
+        playlistLocation,
+        segmentCount,
+      })
+    ),
+  });
+  console.log("📦 Egress", eventName, egressId, egressStatusToJSON(status));
+  if (ended && EGRESS_FAILED_STATUSES.includes(status)) {
+    metrics.egressFailed("runtime", egressStatusToJSON(status));
+  }
 
-        console.log("🎬 Tracks:", { videoTrackId, audioTrackId });
-
-        const prefixBase = "tmp";
-
-        const output = {
-          // segments: {
-          //   filenamePrefix: `${prefixBase}/${roomName}/${Date.now()}-segment`,
-          //   playlistName: "index.m3u8",
-          //   livePlaylistName: "index-live.m3u8",
-          //   protocol: SegmentedFileProtocol.HLS_PROTOCOL,
-          //   segmentDuration: 4,
-          //   output: {
-          //     case: "s3",
-          //   },
-          // },
-          stream: {
-            protocol: StreamProtocol.RTMP,
-            urls: [`rtmp://localhost:1936/live/${roomName}`],
-          },
-        };
-
-        try {
-          const result = await egressClient.startTrackCompositeEgress(
-            roomName,
-            output,
-            {
-              audioTrackId,
-              videoTrackId,
-            }
-          );
-          console.log("🚀 HLS Egress Started:", result.egressId);
-          activeEgressMap.set(roomName, result.egressId!);
-        } catch (err) {
-          console.error("❌ Failed to start HLS egress:", err);
-        }
-      }
+  // Chỉ cập nhật registry nếu đây là egress hiện tại của room
+  const current = await egressRegistry.get(roomName);
+  if (current?.egressId !== egressId) return;
+
+  if (!ended) {
+    const recordStatus =
+      status === EgressStatus.EGRESS_ACTIVE
+        ? "active"
+        : status === EgressStatus.EGRESS_ENDING
+        ? "ending"
+        : "starting";
+    await egressRegistry.set({ ...current, status: recordStatus });
+    if (status === EgressStatus.EGRESS_ACTIVE) egressRestarter.reset(roomName);
+    return;
+  }
 
-      if (event.event === "ingress_ended") {
-        const roomName = event.ingressInfo?.roomName || event.ingressInfo?.name;
+  // Egress tự kết thúc: xoá khỏi registry để room có thể start lại
+  await egressRegistry.delete(roomName);
+
+  const room = roomStates.get(roomName);
+  if (
+    EGRESS_FAILED_STATUSES.includes(status) &&
+    room?.phase === "ready" &&
+    room.publisher
+  ) {
+    console.error("❌ Egress failed while ingress is live:", info.error);
+    scheduleEgressRestart(roomName);
+  }
+}
 
-        if (!roomName) {
-          console.log("⚠️ ingress_ended but NO roomName");
-          return res.json({ ok: true });
-        }
+// Start lại egress nếu lúc đó room vẫn còn publisher
+function scheduleEgressRestart(roomName: string) {
+  egressRestarter.schedule(roomName, () =>
+    roomEgressTasks.run(roomName, async () => {
+      const latest = roomStates.get(roomName);
+      if (latest?.phase !== "ready" || !latest.publisher) return;
+      await startRoomEgress(roomName, latest.publisher);
+    })
+  );
+}
 
-        const egressId = activeEgressMap.get(roomName);
-        if (!egressId) {
-          console.log("⚠️ No active egress for room:", roomName);
-          return res.json({ ok: true });
-        }
+async function handleWebhookEvent(event: WebhookEvent) {
+  roomStates.handle(event);
 
-        console.log("🛑 Stopping egress:", egressId);
+  if (
+    event.event?.startsWith("egress_") &&
+    event.egressInfo?.egressId &&
+    event.egressInfo.roomName
+  ) {
+    await handleEgressLifecycle(event.event, event.egressInfo);
+  }
 
-        try {
-          await egressClient.stopEgress(egressId);
-        } catch (err) {
-          console.error("❌ Failed to stop egress:", err);
-        }
+  // Egress đã upload xong: lưu lại playlist/file VOD
+  if (event.event === "egress_ended" && event.egressInfo?.egressId) {
+    const info = event.egressInfo;
+    const recording = await recordingStore.get(info.egressId!);
+
+    if (recording) {
+      const segments = info.segmentResults?.[0];
+      const file = info.fileResults?.[0];
+      const location = segments?.playlistLocation || file?.location;
+      const failed = info.status !== EgressStatus.EGRESS_COMPLETE;
+
+      await recordingStore.save({
+        ...recording,
+        status: failed ? "failed" : "complete",
+        endedAt: Date.now(),
+        // LiveKit reports durations in nanoseconds
+        duration: (segments?.duration ?? file?.duration ?? 0) / 1e9,
+        size: segments?.size ?? file?.size,
+        url: location ? recordingStorage.resolveUrl(location) : undefined,
+        error: info.error || undefined,
+      });
+      console.log("📼 Recording finished:", info.egressId, location);
+    }
+  }
+}
 
-        activeEgressMap.delete(roomName);
-      }
+const webhookEventStore = createWebhookEventStore();
+app.use(
+  createWebhookEventRouter({
+    store: webhookEventStore,
+    handleEvent: handleWebhookEvent,
+    requireScope,
+  })
+);
 
-      return res.json({ ok: true });
+app.post(
+  "/api/livekit/webhook",
+  express.raw({ type: "application/webhook+json" }),
+  async (req, res) => {
+    let event: WebhookEvent;
+    try {
+      const auth = req.get("Authorization") || "";
+      event = await receiver.receive(req.body, auth);
     } catch (err: any) {
       console.error("❌ Webhook error:", err.message);
+      metrics.webhookEvent("unknown", "invalid");
       return res.status(400).json({ error: err.message });
     }
+
+    console.log("Webhook event:", event.event, event.id);
+
+    const stored: StoredWebhookEvent = {
+      id: event.id || crypto.randomUUID(),
+      event: event.event || "unknown",
+      roomName:
+        event.room?.name ||
+        event.ingressInfo?.roomName ||
+        event.egressInfo?.roomName,
+      createdAt: (event.createdAt || 0) * 1000,
+      receivedAt: Date.now(),
+      status: "processing",
+      attempts: 1,
+      payload: WebhookEventCodec.toJSON(event),
+    };
+
+    // LiveKit retries deliveries: chỉ xử lý mỗi event id một lần
+    if (!(await webhookEventStore.claim(stored))) {
+      console.log("↩️ Duplicate webhook event, skip:", stored.id);
+      metrics.webhookEvent(stored.event, "duplicate");
+      return res.json({ ok: true, duplicate: true });
+    }
+
+    try {
+      await handleWebhookEvent(event);
+      await webhookEventStore.save({
+        ...(await webhookEventStore.get(stored.id))!,
+        status: "processed",
+      });
+      metrics.webhookEvent(stored.event, "processed");
+      return res.json({ ok: true });
+    } catch (err: any) {
+      console.error("❌ Webhook processing error:", err.message);
+      await webhookEventStore.save({
+        ...(await webhookEventStore.get(stored.id))!,
+        status: "failed",
+        error: err.message,
+      });
+      metrics.webhookEvent(stored.event, "failed");
+      // 5xx để LiveKit gửi lại
+      return res.status(500).json({ error: err.message });
+    }
   }
 );
 
-app.listen(3000, () => {
-  console.log("✅ Backend ready at http://localhost:3000");
-});
+app.get(
+  "/api/rooms/:name/recordings",
+  requireScope("room:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const recordings = await recordingStore.listByRoom(req.params.name);
+      res.json({ room_name: req.params.name, recordings });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+);
+
+app.get(
+  "/api/rooms/:name/egress",
+  requireScope("room:read"),
+  async (req: Request, res: Response) => {
+    try {
+      const [current, history] = await Promise.all([
+        egressRegistry.get(req.params.name),
+        egressHistory.listByRoom(req.params.name, 50),
+      ]);
+      res.json({ room_name: req.params.name, current, history });
+    } catch (err) {
+      res.status(500).json({ error: (err as Error).message });
+    }
+  }
+);
+
+reconcileEgressRegistry(egressRegistry, egressClient)
+  .then(() => console.log("✅ Egress registry reconciled"))
+  .catch((err) =>
+    console.error("❌ Failed to reconcile egress registry:", err.message)
+  )
+  .finally(() => {
+    app.listen(3000, () => {
+      console.log("✅ Backend ready at http://localhost:3000");
+    });
+  });
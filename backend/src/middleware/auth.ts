@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import jwt from "jsonwebtoken";
+
+export type Scope =
+  | "ingress:create"
+  | "room:read"
+  | "token:issue"
+  | "restream:manage"
+  | "webhook:admin"
+  | "metrics:read"
+  | "*";
+
+export interface AuthPrincipal {
+  subject: string;
+  scopes: string[];
+  method: "jwt" | "api_key" | "disabled";
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthPrincipal;
+    }
+  }
+}
+
+/**
+ * One way of proving who the caller is. Returns null when the request does
+ * not carry this kind of credential, and throws when it does but the
+ * credential is invalid.
+ */
+export interface Authenticator {
+  authenticate(req: Request): Promise<AuthPrincipal | null>;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 = 401) {
+    super(message);
+  }
+}
+
+export interface JwtAuthOptions {
+  secret: string;
+  issuer?: string;
+  audience?: string;
+}
+
+// Bearer tokens signed with a shared secret; scopes come from the
+// space-delimited `scope` claim or a `scopes` array
+export class JwtAuthenticator implements Authenticator {
+  constructor(private readonly options: JwtAuthOptions) {}
+
+  async authenticate(req: Request) {
+    const header = req.get("Authorization") || "";
+    const [scheme, token] = header.split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !token) return null;
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, this.options.secret, {
+        issuer: this.options.issuer,
+        audience: this.options.audience,
+      }) as jwt.JwtPayload;
+    } catch (err) {
+      throw new AuthError(`Invalid token: ${(err as Error).message}`);
+    }
+
+    const scopes: string[] = Array.isArray(payload.scopes)
+      ? payload.scopes
+      : typeof payload.scope === "string"
+      ? payload.scope.split(" ").filter(Boolean)
+      : [];
+
+    return {
+      subject: payload.sub || "unknown",
+      scopes,
+      method: "jwt" as const,
+    };
+  }
+}
+
+// Static API keys for service-to-service calls, sent as `X-API-Key`
+export class ApiKeyAuthenticator implements Authenticator {
+  private keys: { name: string; hash: Buffer; scopes: string[] }[];
+
+  constructor(keys: Record<string, { key: string; scopes: string[] }>) {
+    this.keys = Object.entries(keys).map(([name, { key, scopes }]) => ({
+      name,
+      hash: sha256(key),
+      scopes,
+    }));
+  }
+
+  async authenticate(req: Request) {
+    const key = req.get("X-API-Key");
+    if (!key) return null;
+
+    const hash = sha256(key);
+    const match = this.keys.find((k) => crypto.timingSafeEqual(k.hash, hash));
+    if (!match) throw new AuthError("Invalid API key");
+
+    return {
+      subject: `api_key:${match.name}`,
+      scopes: match.scopes,
+      method: "api_key" as const,
+    };
+  }
+}
+
+function sha256(value: string) {
+  return crypto.createHash("sha256").update(value).digest();
+}
+
+/**
+ * Builds the authenticators from env:
+ * - AUTH_JWT_SECRET, AUTH_JWT_ISSUER, AUTH_JWT_AUDIENCE
+ * - AUTH_API_KEYS: JSON `{ "<name>": { "key": "...", "scopes": [...] } }`
+ * AUTH_ENABLED=false turns auth off (local development only).
+ */
+export function createAuthenticators(): Authenticator[] | null {
+  if (process.env.AUTH_ENABLED === "false") {
+    console.warn("⚠️ API auth is DISABLED (AUTH_ENABLED=false)");
+    return null;
+  }
+
+  const authenticators: Authenticator[] = [];
+
+  if (process.env.AUTH_JWT_SECRET) {
+    authenticators.push(
+      new JwtAuthenticator({
+        secret: process.env.AUTH_JWT_SECRET,
+        issuer: process.env.AUTH_JWT_ISSUER || undefined,
+        audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+      })
+    );
+  }
+
+  if (process.env.AUTH_API_KEYS) {
+    authenticators.push(
+      new ApiKeyAuthenticator(JSON.parse(process.env.AUTH_API_KEYS))
+    );
+  }
+
+  if (authenticators.length === 0) {
+    console.warn(
+      "⚠️ No AUTH_JWT_SECRET / AUTH_API_KEYS: API calls will be rejected"
+    );
+  }
+
+  return authenticators;
+}
+
+/**
+ * Middleware factory: `requireScope("room:read")` lets the request through
+ * only when one of the authenticators accepts it and the principal holds
+ * the scope (or `*`). Passing null disables the check entirely.
+ */
+export function createAuth(authenticators: Authenticator[] | null) {
+  return function requireScope(scope: Scope) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      if (!authenticators) {
+        req.auth = { subject: "anonymous", scopes: ["*"], method: "disabled" };
+        return next();
+      }
+
+      try {
+        let principal: AuthPrincipal | null = null;
+        for (const authenticator of authenticators) {
+          principal = await authenticator.authenticate(req);
+          if (principal) break;
+        }
+
+        if (!principal) throw new AuthError("Missing credentials");
+        if (
+          !principal.scopes.includes(scope) &&
+          !principal.scopes.includes("*")
+        ) {
+          throw new AuthError(`Missing scope: ${scope}`, 403);
+        }
+
+        req.auth = principal;
+        next();
+      } catch (err) {
+        const status = err instanceof AuthError ? err.status : 500;
+        res.status(status).json({ error: (err as Error).message });
+      }
+    };
+  };
+}
@@ -0,0 +1,202 @@
+import crypto from "crypto";
+import { Request, RequestHandler, Response, Router } from "express";
+import { EgressClient } from "livekit-server-sdk";
+import { Scope } from "../middleware/auth";
+import {
+  DestinationStore,
+  RestreamDestination,
+  toPublishUrl,
+} from "../services/destination-store";
+import { EgressRegistry } from "../services/egress-registry";
+import { decryptSecret, encryptSecret, maskSecret } from "../utils/crypto";
+
+interface DestinationRouterDeps {
+  store: DestinationStore;
+  egressRegistry: EgressRegistry;
+  egressClient: EgressClient;
+  requireScope: (scope: Scope) => RequestHandler;
+}
+
+function toResponse(destination: RestreamDestination) {
+  const { streamKeyEncrypted, ...rest } = destination;
+  return { ...rest, stream_key: maskSecret(decryptSecret(streamKeyEncrypted)) };
+}
+
+function isRtmpUrl(url: unknown): url is string {
+  return typeof url === "string" && /^rtmps?:\/\/\S+$/.test(url);
+}
+
+/**
+ * CRUD for a room's restream destinations (YouTube, Twitch, ...). Changes
+ * are pushed to the room's running egress with updateStream, so creators
+ * can add or drop a platform without restarting the stream.
+ */
+export function createDestinationRouter({
+  store,
+  egressRegistry,
+  egressClient,
+  requireScope,
+}: DestinationRouterDeps) {
+  const router = Router();
+
+  async function updateLiveEgress(
+    roomName: string,
+    add: string[],
+    remove: string[]
+  ) {
+    const egress = await egressRegistry.get(roomName);
+    if (!egress || (add.length === 0 && remove.length === 0)) return false;
+
+    await egressClient.updateStream(egress.egressId, add, remove);
+    console.log("🔀 Updated live egress outputs:", egress.egressId, {
+      added: add.length,
+      removed: remove.length,
+    });
+    return true;
+  }
+
+  // The change is already saved and applies from the next egress start,
+  // so a failed live update is reported as a warning, not an error
+  async function applyToLiveEgress(
+    roomName: string,
+    add: string[],
+    remove: string[]
+  ): Promise<{ live: boolean; warning?: string }> {
+    try {
+      return { live: await updateLiveEgress(roomName, add, remove) };
+    } catch (err) {
+      console.error("❌ Failed to update live egress outputs:", roomName, err);
+      return {
+        live: false,
+        warning: `Saved, but the live egress was not updated: ${
+          (err as Error).message
+        }`,
+      };
+    }
+  }
+
+  router.get(
+    "/api/rooms/:name/destinations",
+    requireScope("room:read"),
+    async (req: Request, res: Response) => {
+      try {
+        const destinations = await store.list(req.params.name);
+        res.json({ destinations: destinations.map(toResponse) });
+      } catch (err) {
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  );
+
+  router.post(
+    "/api/rooms/:name/destinations",
+    requireScope("restream:manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const { name, url, stream_key, enabled = true } = req.body;
+
+        if (!name || !isRtmpUrl(url) || !stream_key) {
+          return res
+            .status(400)
+            .json({ error: "name, rtmp(s) url and stream_key are required" });
+        }
+
+        const destination: RestreamDestination = {
+          id: crypto.randomUUID(),
+          roomName: req.params.name,
+          name,
+          url,
+          streamKeyEncrypted: encryptSecret(stream_key),
+          enabled: Boolean(enabled),
+          createdAt: Date.now(),
+        };
+        await store.save(destination);
+
+        const outcome = await applyToLiveEgress(
+          destination.roomName,
+          destination.enabled ? [toPublishUrl(destination)] : [],
+          []
+        );
+
+        res
+          .status(201)
+          .json({ destination: toResponse(destination), ...outcome });
+      } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  );
+
+  router.patch(
+    "/api/rooms/:name/destinations/:id",
+    requireScope("restream:manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const existing = await store.get(req.params.name, req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Destination not found" });
+        }
+
+        const { name, url, stream_key, enabled } = req.body;
+        if (url !== undefined && !isRtmpUrl(url)) {
+          return res.status(400).json({ error: "url must be rtmp(s)://" });
+        }
+
+        const updated: RestreamDestination = {
+          ...existing,
+          name: name ?? existing.name,
+          url: url ?? existing.url,
+          streamKeyEncrypted: stream_key
+            ? encryptSecret(stream_key)
+            : existing.streamKeyEncrypted,
+          enabled: enabled === undefined ? existing.enabled : Boolean(enabled),
+        };
+        await store.save(updated);
+
+        const before = existing.enabled ? toPublishUrl(existing) : null;
+        const after = updated.enabled ? toPublishUrl(updated) : null;
+        const outcome =
+          before === after
+            ? { live: false }
+            : await applyToLiveEgress(
+                updated.roomName,
+                after ? [after] : [],
+                before ? [before] : []
+              );
+
+        res.json({ destination: toResponse(updated), ...outcome });
+      } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  );
+
+  router.delete(
+    "/api/rooms/:name/destinations/:id",
+    requireScope("restream:manage"),
+    async (req: Request, res: Response) => {
+      try {
+        const existing = await store.get(req.params.name, req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "Destination not found" });
+        }
+
+        await store.delete(existing.roomName, existing.id);
+        const outcome = await applyToLiveEgress(
+          existing.roomName,
+          [],
+          existing.enabled ? [toPublishUrl(existing)] : []
+        );
+
+        res.json({ ok: true, ...outcome });
+      } catch (err) {
+        console.error(err);
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,31 @@
+import { Request, RequestHandler, Response, Router } from "express";
+import { Scope } from "../middleware/auth";
+import { BackendMetrics } from "../services/metrics";
+
+interface MetricsRouterDeps {
+  metrics: BackendMetrics;
+  requireScope: (scope: Scope) => RequestHandler;
+}
+
+// Prometheus scrape endpoint; the scraper authenticates like any API client
+export function createMetricsRouter({
+  metrics,
+  requireScope,
+}: MetricsRouterDeps) {
+  const router = Router();
+
+  router.get(
+    "/metrics",
+    requireScope("metrics:read"),
+    async (_req: Request, res: Response) => {
+      try {
+        res.set("Content-Type", metrics.registry.contentType);
+        res.send(await metrics.registry.metrics());
+      } catch (err) {
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,76 @@
+import { Request, RequestHandler, Response, Router } from "express";
+import { Scope } from "../middleware/auth";
+import { signPlaybackToken } from "../utils/playback-token";
+
+interface PlaybackRouterDeps {
+  requireScope: (scope: Scope) => RequestHandler;
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Issues signed playback tokens for streams on the rtmp-server. A token
+ * covers one stream (FLV, WS-FLV and every HLS playlist/segment) until it
+ * expires, optionally for a single client IP.
+ */
+export function createPlaybackRouter({ requireScope }: PlaybackRouterDeps) {
+  const router = Router();
+  const defaultTtl = parseInt(process.env.PLAYBACK_TOKEN_TTL_SECONDS || "3600");
+  const maxTtl = parseInt(
+    process.env.PLAYBACK_TOKEN_MAX_TTL_SECONDS || "86400"
+  );
+  const baseUrl = process.env.PLAYBACK_BASE_URL?.replace(/\/$/, "");
+
+  router.post(
+    "/api/playback/token",
+    requireScope("token:issue"),
+    async (req: Request, res: Response) => {
+      try {
+        const { stream, app = "live", ttl_seconds, ip, bind_ip } = req.body;
+
+        if (
+          typeof stream !== "string" ||
+          typeof app !== "string" ||
+          !NAME_PATTERN.test(stream) ||
+          !NAME_PATTERN.test(app)
+        ) {
+          return res
+            .status(400)
+            .json({ error: "stream (and app) must be plain names" });
+        }
+
+        const ttl =
+          ttl_seconds === undefined ? defaultTtl : Number(ttl_seconds);
+        if (!Number.isInteger(ttl) || ttl <= 0 || ttl > maxTtl) {
+          return res
+            .status(400)
+            .json({ error: `ttl_seconds must be between 1 and ${maxTtl}` });
+        }
+
+        // Bind to an explicit viewer IP, or to whoever is asking
+        const boundIp = ip || (bind_ip ? req.ip : undefined);
+        const streamPath = `/${app}/${stream}`;
+        const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+        const token = signPlaybackToken({ streamPath, expiresAt, ip: boundIp });
+        const query = `token=${encodeURIComponent(token)}`;
+
+        res.json({
+          stream_path: streamPath,
+          token,
+          expires_at: expiresAt,
+          bound_ip: boundIp,
+          urls: baseUrl
+            ? {
+                flv: `${baseUrl}${streamPath}.flv?${query}`,
+                hls: `${baseUrl}${streamPath}/index.m3u8?${query}`,
+              }
+            : undefined,
+        });
+      } catch (err) {
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  );
+
+  return router;
+}
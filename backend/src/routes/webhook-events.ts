@@ -0,0 +1,71 @@
+import { Request, RequestHandler, Response, Router } from "express";
+import { WebhookEvent } from "livekit-server-sdk";
+import { WebhookEvent as WebhookEventCodec } from "livekit-server-sdk/dist/proto/livekit_webhook";
+import { Scope } from "../middleware/auth";
+import { WebhookEventStore } from "../services/webhook-event-store";
+
+interface WebhookEventRouterDeps {
+  store: WebhookEventStore;
+  handleEvent: (event: WebhookEvent) => Promise<void>;
+  requireScope: (scope: Scope) => RequestHandler;
+}
+
+/**
+ * Admin view of the webhook event log: list what LiveKit sent for a room,
+ * and replay a stored event through the normal handler.
+ */
+export function createWebhookEventRouter({
+  store,
+  handleEvent,
+  requireScope,
+}: WebhookEventRouterDeps) {
+  const router = Router();
+
+  router.get(
+    "/api/admin/rooms/:name/events",
+    requireScope("webhook:admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const limit = Math.min(parseInt(String(req.query.limit)) || 100, 1000);
+        const events = await store.listByRoom(req.params.name, limit);
+        res.json({ room_name: req.params.name, events });
+      } catch (err) {
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  );
+
+  router.post(
+    "/api/admin/events/:id/replay",
+    requireScope("webhook:admin"),
+    async (req: Request, res: Response) => {
+      try {
+        const stored = await store.get(req.params.id);
+        if (!stored) {
+          return res.status(404).json({ error: "Event not found" });
+        }
+
+        console.log("🔁 Replaying webhook event:", stored.id, stored.event);
+        let error: string | undefined;
+        try {
+          await handleEvent(WebhookEventCodec.fromJSON(stored.payload));
+        } catch (err) {
+          error = (err as Error).message;
+        }
+
+        const updated = {
+          ...stored,
+          status: error ? ("failed" as const) : ("processed" as const),
+          attempts: stored.attempts + 1,
+          error,
+        };
+        await store.save(updated);
+        res.status(error ? 500 : 200).json({ event: updated });
+      } catch (err) {
+        res.status(500).json({ error: (err as Error).message });
+      }
+    }
+  );
+
+  return router;
+}
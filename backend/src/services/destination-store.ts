@@ -0,0 +1,91 @@
+import Redis from "ioredis";
+import { decryptSecret } from "../utils/crypto";
+import { getRedisClient } from "./redis";
+
+export interface RestreamDestination {
+  id: string;
+  roomName: string;
+  name: string; // e.g. "YouTube"
+  url: string; // RTMP server URL, without the stream key
+  streamKeyEncrypted: string;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export interface DestinationStore {
+  list(roomName: string): Promise<RestreamDestination[]>;
+  get(roomName: string, id: string): Promise<RestreamDestination | null>;
+  save(destination: RestreamDestination): Promise<void>;
+  delete(roomName: string, id: string): Promise<void>;
+}
+
+export class InMemoryDestinationStore implements DestinationStore {
+  private destinations = new Map<string, RestreamDestination>();
+
+  async list(roomName: string) {
+    return Array.from(this.destinations.values())
+      .filter((d) => d.roomName === roomName)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async get(roomName: string, id: string) {
+    const destination = this.destinations.get(id);
+    return destination?.roomName === roomName ? destination : null;
+  }
+
+  async save(destination: RestreamDestination) {
+    this.destinations.set(destination.id, destination);
+  }
+
+  async delete(roomName: string, id: string) {
+    if (await this.get(roomName, id)) this.destinations.delete(id);
+  }
+}
+
+export class RedisDestinationStore implements DestinationStore {
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix = "livekit:destinations"
+  ) {}
+
+  async list(roomName: string) {
+    const all = await this.redis.hgetall(this.key(roomName));
+    return Object.values(all)
+      .map((raw) => JSON.parse(raw) as RestreamDestination)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async get(roomName: string, id: string) {
+    const raw = await this.redis.hget(this.key(roomName), id);
+    return raw ? (JSON.parse(raw) as RestreamDestination) : null;
+  }
+
+  async save(destination: RestreamDestination) {
+    await this.redis.hset(
+      this.key(destination.roomName),
+      destination.id,
+      JSON.stringify(destination)
+    );
+  }
+
+  async delete(roomName: string, id: string) {
+    await this.redis.hdel(this.key(roomName), id);
+  }
+
+  private key(roomName: string) {
+    return `${this.prefix}:${roomName}`;
+  }
+}
+
+export function createDestinationStore(): DestinationStore {
+  if (process.env.EGRESS_REGISTRY === "memory") {
+    return new InMemoryDestinationStore();
+  }
+  return new RedisDestinationStore(getRedisClient());
+}
+
+// Full publish URL handed to egress: `<server url>/<stream key>`
+export function toPublishUrl(destination: RestreamDestination): string {
+  const key = decryptSecret(destination.streamKeyEncrypted);
+  return `${destination.url.replace(/\/+$/, "")}/${key}`;
+}
@@ -0,0 +1,86 @@
+import Redis from "ioredis";
+import { getRedisClient } from "./redis";
+
+export interface EgressHistoryEntry {
+  egressId: string;
+  roomName: string;
+  status: string; // EgressStatus name, e.g. EGRESS_ACTIVE
+  startedAt: number; // ms since epoch
+  updatedAt: number;
+  endedAt?: number;
+  error?: string;
+  // 0 for the first egress of a live session, then 1, 2, ... per restart
+  restartAttempt: number;
+  fileResults?: { filename?: string; location?: string; size?: number }[];
+  segmentResults?: { playlistLocation?: string; segmentCount?: number }[];
+}
+
+export interface EgressHistoryStore {
+  get(egressId: string): Promise<EgressHistoryEntry | null>;
+  save(entry: EgressHistoryEntry): Promise<void>;
+  listByRoom(roomName: string, limit: number): Promise<EgressHistoryEntry[]>;
+}
+
+export class InMemoryEgressHistoryStore implements EgressHistoryStore {
+  private entries = new Map<string, EgressHistoryEntry>();
+
+  async get(egressId: string) {
+    return this.entries.get(egressId) ?? null;
+  }
+
+  async save(entry: EgressHistoryEntry) {
+    this.entries.set(entry.egressId, entry);
+  }
+
+  async listByRoom(roomName: string, limit: number) {
+    return Array.from(this.entries.values())
+      .filter((e) => e.roomName === roomName)
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(0, limit);
+  }
+}
+
+export class RedisEgressHistoryStore implements EgressHistoryStore {
+  constructor(
+    private readonly redis: Redis,
+    private readonly key = "livekit:egress:history"
+  ) {}
+
+  async get(egressId: string) {
+    const raw = await this.redis.hget(this.key, egressId);
+    return raw ? (JSON.parse(raw) as EgressHistoryEntry) : null;
+  }
+
+  async save(entry: EgressHistoryEntry) {
+    await this.redis
+      .multi()
+      .hset(this.key, entry.egressId, JSON.stringify(entry))
+      .zadd(this.roomKey(entry.roomName), entry.startedAt, entry.egressId)
+      .exec();
+  }
+
+  async listByRoom(roomName: string, limit: number) {
+    const ids = await this.redis.zrevrange(
+      this.roomKey(roomName),
+      0,
+      limit - 1
+    );
+    if (ids.length === 0) return [];
+
+    const raws = await this.redis.hmget(this.key, ...ids);
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => JSON.parse(raw) as EgressHistoryEntry);
+  }
+
+  private roomKey(roomName: string) {
+    return `${this.key}:room:${roomName}`;
+  }
+}
+
+export function createEgressHistoryStore(): EgressHistoryStore {
+  if (process.env.EGRESS_REGISTRY === "memory") {
+    return new InMemoryEgressHistoryStore();
+  }
+  return new RedisEgressHistoryStore(getRedisClient());
+}
@@ -0,0 +1,132 @@
+import Redis from "ioredis";
+import { EgressClient, EgressInfo } from "livekit-server-sdk";
+import { EgressStatus } from "livekit-server-sdk/dist/proto/livekit_egress";
+import { getRedisClient } from "./redis";
+
+export type EgressRecordStatus = "starting" | "active" | "ending";
+
+export interface EgressRecord {
+  roomName: string;
+  egressId: string;
+  startedAt: number; // ms since epoch
+  status: EgressRecordStatus;
+}
+
+/**
+ * Tracks the egress running for each room. Backed by Redis in production
+ * so a backend restart does not lose running egresses.
+ */
+export interface EgressRegistry {
+  get(roomName: string): Promise<EgressRecord | null>;
+  set(record: EgressRecord): Promise<void>;
+  delete(roomName: string): Promise<void>;
+  list(): Promise<EgressRecord[]>;
+}
+
+export class InMemoryEgressRegistry implements EgressRegistry {
+  private records = new Map<string, EgressRecord>();
+
+  async get(roomName: string) {
+    return this.records.get(roomName) ?? null;
+  }
+
+  async set(record: EgressRecord) {
+    this.records.set(record.roomName, record);
+  }
+
+  async delete(roomName: string) {
+    this.records.delete(roomName);
+  }
+
+  async list() {
+    return Array.from(this.records.values());
+  }
+}
+
+export class RedisEgressRegistry implements EgressRegistry {
+  constructor(
+    private readonly redis: Redis,
+    private readonly key = "livekit:egress:rooms"
+  ) {}
+
+  async get(roomName: string) {
+    const raw = await this.redis.hget(this.key, roomName);
+    return raw ? (JSON.parse(raw) as EgressRecord) : null;
+  }
+
+  async set(record: EgressRecord) {
+    await this.redis.hset(this.key, record.roomName, JSON.stringify(record));
+  }
+
+  async delete(roomName: string) {
+    await this.redis.hdel(this.key, roomName);
+  }
+
+  async list() {
+    const all = await this.redis.hgetall(this.key);
+    return Object.values(all).map((raw) => JSON.parse(raw) as EgressRecord);
+  }
+}
+
+// EGRESS_REGISTRY=memory keeps state in-process (tests / single dev box)
+export function createEgressRegistry(): EgressRegistry {
+  if (process.env.EGRESS_REGISTRY === "memory") {
+    console.log("🗂️ Egress registry: in-memory");
+    return new InMemoryEgressRegistry();
+  }
+
+  console.log("🗂️ Egress registry: redis");
+  return new RedisEgressRegistry(getRedisClient());
+}
+
+/**
+ * Brings the registry in line with what LiveKit reports as running: records
+ * whose egress is gone are dropped, and active egresses we lost track of
+ * (e.g. started before a registry wipe) are adopted.
+ */
+export async function reconcileEgressRegistry(
+  registry: EgressRegistry,
+  egressClient: EgressClient
+) {
+  const active = await egressClient.listEgress({ active: true });
+  const activeIds = new Set(active.map((info) => info.egressId));
+
+  for (const record of await registry.list()) {
+    if (!activeIds.has(record.egressId)) {
+      console.log("🧹 Dropping stale egress:", record);
+      await registry.delete(record.roomName);
+    }
+  }
+
+  for (const info of active) {
+    if (!info.egressId || !info.roomName) continue;
+
+    const existing = await registry.get(info.roomName);
+    if (existing && activeIds.has(existing.egressId)) {
+      if (existing.egressId === info.egressId) {
+        await registry.set({ ...existing, status: toRecordStatus(info) });
+      }
+      continue;
+    }
+
+    console.log("📥 Adopting running egress:", info.egressId, info.roomName);
+    await registry.set({
+      roomName: info.roomName,
+      egressId: info.egressId,
+      // LiveKit reports timestamps in nanoseconds
+      startedAt: info.startedAt ? Math.floor(info.startedAt / 1e6) : Date.now(),
+      status: toRecordStatus(info),
+    });
+  }
+}
+
+function toRecordStatus(info: EgressInfo): EgressRecordStatus {
+  switch (info.status) {
+    case EgressStatus.EGRESS_ACTIVE:
+      return "active";
+    case EgressStatus.EGRESS_ENDING:
+      return "ending";
+    default:
+      return "starting";
+  }
+}
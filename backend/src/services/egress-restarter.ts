@@ -0,0 +1,65 @@
+export interface EgressRestarterOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Schedules egress restarts per room with exponential backoff
+ * (base, 2x base, 4x base, ... capped at maxDelayMs) and gives up after
+ * maxAttempts consecutive failures. `reset` once an egress is healthy
+ * again, `cancel` when the room's ingress is gone.
+ */
+export class EgressRestarter {
+  private attempts = new Map<string, number>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private readonly options: EgressRestarterOptions) {}
+
+  attemptsFor(roomName: string) {
+    return this.attempts.get(roomName) ?? 0;
+  }
+
+  // Returns the delay used, or null when out of attempts / already pending
+  schedule(roomName: string, restart: () => Promise<void>): number | null {
+    if (this.timers.has(roomName)) return null;
+
+    const attempt = this.attemptsFor(roomName) + 1;
+    if (attempt > this.options.maxAttempts) {
+      console.error("❌ Giving up restarting egress for room:", roomName);
+      return null;
+    }
+
+    const delay = Math.min(
+      this.options.baseDelayMs * 2 ** (attempt - 1),
+      this.options.maxDelayMs
+    );
+    this.attempts.set(roomName, attempt);
+    this.timers.set(
+      roomName,
+      setTimeout(() => {
+        this.timers.delete(roomName);
+        restart().catch((err) => {
+          console.error("❌ Egress restart failed:", roomName, err.message);
+          this.schedule(roomName, restart);
+        });
+      }, delay)
+    );
+
+    console.log(`🔁 Restarting egress for ${roomName} in ${delay}ms`, {
+      attempt,
+    });
+    return delay;
+  }
+
+  reset(roomName: string) {
+    this.attempts.delete(roomName);
+  }
+
+  cancel(roomName: string) {
+    const timer = this.timers.get(roomName);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(roomName);
+    this.attempts.delete(roomName);
+  }
+}
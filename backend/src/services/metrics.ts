@@ -0,0 +1,65 @@
+import { Counter, Gauge, Registry, collectDefaultMetrics } from "prom-client";
+import { EgressRegistry } from "./egress-registry";
+
+export type WebhookOutcome = "processed" | "duplicate" | "failed" | "invalid";
+export type EgressFailureStage = "start" | "runtime";
+
+export interface BackendMetrics {
+  registry: Registry;
+  webhookEvent(event: string, outcome: WebhookOutcome): void;
+  egressStarted(): void;
+  egressFailed(stage: EgressFailureStage, status: string): void;
+}
+
+/**
+ * Prometheus metrics for the backend. Active egresses are read from the
+ * registry at scrape time so the gauge survives a backend restart.
+ */
+export function createMetrics(egressRegistry: EgressRegistry): BackendMetrics {
+  const registry = new Registry();
+  collectDefaultMetrics({ register: registry });
+
+  const webhookEvents = new Counter({
+    name: "livekit_webhook_events_total",
+    help: "LiveKit webhook deliveries, by event type and outcome",
+    labelNames: ["event", "outcome"],
+    registers: [registry],
+  });
+
+  const egressStarts = new Counter({
+    name: "livekit_egress_starts_total",
+    help: "Egresses started for rooms, restarts included",
+    registers: [registry],
+  });
+
+  const egressFailures = new Counter({
+    name: "livekit_egress_failures_total",
+    help: "Egresses that failed to start or ended with an error status",
+    labelNames: ["stage", "status"],
+    registers: [registry],
+  });
+
+  new Gauge({
+    name: "livekit_active_egresses",
+    help: "Egresses currently tracked in the registry, by status",
+    labelNames: ["status"],
+    registers: [registry],
+    async collect() {
+      this.reset();
+      try {
+        for (const record of await egressRegistry.list()) {
+          this.inc({ status: record.status });
+        }
+      } catch (err) {
+        console.error("❌ Failed to collect egress metrics:", err);
+      }
+    },
+  });
+
+  return {
+    registry,
+    webhookEvent: (event, outcome) => webhookEvents.inc({ event, outcome }),
+    egressStarted: () => egressStarts.inc(),
+    egressFailed: (stage, status) => egressFailures.inc({ stage, status }),
+  };
+}
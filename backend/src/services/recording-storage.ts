@@ -0,0 +1,125 @@
+import {
+  EncodedFileOutput,
+  EncodedFileType,
+  SegmentedFileOutput,
+  SegmentedFileProtocol,
+} from "livekit-server-sdk";
+import { S3Upload } from "livekit-server-sdk/dist/proto/livekit_egress";
+import path from "path";
+
+export type RecordingFormat = "hls" | "mp4";
+
+/**
+ * Where egress writes recordings. Egress does the actual upload; the
+ * storage only builds the egress output and turns the location egress
+ * reports back into a URL players can use.
+ */
+export interface RecordingStorage {
+  readonly kind: "local" | "s3";
+  buildOutput(
+    roomName: string,
+    format: RecordingFormat
+  ): { segments: SegmentedFileOutput } | { file: EncodedFileOutput };
+  resolveUrl(location: string): string;
+}
+
+abstract class BaseRecordingStorage implements RecordingStorage {
+  abstract readonly kind: "local" | "s3";
+
+  constructor(protected readonly basePath: string) {}
+
+  buildOutput(roomName: string, format: RecordingFormat) {
+    const prefix = path.posix.join(this.basePath, roomName, `${Date.now()}`);
+
+    if (format === "mp4") {
+      return {
+        file: {
+          fileType: EncodedFileType.MP4,
+          filepath: `${prefix}.mp4`,
+          ...this.upload(),
+        },
+      };
+    }
+
+    return {
+      segments: {
+        protocol: SegmentedFileProtocol.HLS_PROTOCOL,
+        filenamePrefix: `${prefix}/segment`,
+        // Written once the egress ends: the VOD playlist
+        playlistName: "index.m3u8",
+        livePlaylistName: "live.m3u8",
+        segmentDuration: 4,
+        ...this.upload(),
+      },
+    };
+  }
+
+  abstract resolveUrl(location: string): string;
+
+  protected upload(): { s3?: S3Upload } {
+    return {};
+  }
+}
+
+// Files land on the egress host's disk (RECORDINGS_DIR, the /out mount in
+// docker-compose) and are served from RECORDINGS_PUBLIC_URL if set
+export class LocalRecordingStorage extends BaseRecordingStorage {
+  readonly kind = "local" as const;
+
+  constructor(basePath: string, private readonly publicUrl?: string) {
+    super(basePath);
+  }
+
+  resolveUrl(location: string) {
+    if (!this.publicUrl) return location;
+    const relative = path.posix.relative(this.basePath, location);
+    return `${this.publicUrl.replace(/\/$/, "")}/${relative}`;
+  }
+}
+
+// Any S3-compatible bucket (AWS, MinIO, Spaces) via the S3_* env vars
+export class S3RecordingStorage extends BaseRecordingStorage {
+  readonly kind = "s3" as const;
+
+  constructor(
+    private readonly s3: S3Upload,
+    private readonly publicUrl?: string
+  ) {
+    super("recordings");
+  }
+
+  resolveUrl(location: string) {
+    if (!this.publicUrl) return location;
+    // Egress reports the object URL; keep just the key
+    const key = location.slice(location.indexOf(`${this.basePath}/`));
+    return `${this.publicUrl.replace(/\/$/, "")}/${key}`;
+  }
+
+  protected upload() {
+    return { s3: this.s3 };
+  }
+}
+
+export function createRecordingStorage(): RecordingStorage {
+  if (process.env.RECORDING_STORAGE === "s3") {
+    console.log("💾 Recording storage: s3", process.env.S3_BUCKET);
+    return new S3RecordingStorage(
+      {
+        accessKey: process.env.S3_ACCESS_KEY,
+        secret: process.env.S3_SECRET_KEY,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        bucket: process.env.S3_BUCKET,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      },
+      process.env.S3_PUBLIC_URL || undefined
+    );
+  }
+
+  const dir = process.env.RECORDINGS_DIR || "/out";
+  console.log("💾 Recording storage: local", dir);
+  return new LocalRecordingStorage(
+    dir,
+    process.env.RECORDINGS_PUBLIC_URL || undefined
+  );
+}
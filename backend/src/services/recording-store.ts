@@ -0,0 +1,86 @@
+import Redis from "ioredis";
+import { RecordingFormat } from "./recording-storage";
+import { getRedisClient } from "./redis";
+
+export type RecordingStatus = "recording" | "complete" | "failed";
+
+export interface RecordingRecord {
+  egressId: string;
+  roomName: string;
+  format: RecordingFormat;
+  storage: "local" | "s3";
+  status: RecordingStatus;
+  startedAt: number; // ms since epoch
+  endedAt?: number;
+  duration?: number; // seconds
+  size?: number; // bytes
+  // VOD playlist (hls) or file (mp4), once egress has finished
+  url?: string;
+  error?: string;
+}
+
+export interface RecordingStore {
+  get(egressId: string): Promise<RecordingRecord | null>;
+  save(record: RecordingRecord): Promise<void>;
+  listByRoom(roomName: string): Promise<RecordingRecord[]>;
+}
+
+export class InMemoryRecordingStore implements RecordingStore {
+  private records = new Map<string, RecordingRecord>();
+
+  async get(egressId: string) {
+    return this.records.get(egressId) ?? null;
+  }
+
+  async save(record: RecordingRecord) {
+    this.records.set(record.egressId, record);
+  }
+
+  async listByRoom(roomName: string) {
+    return Array.from(this.records.values())
+      .filter((r) => r.roomName === roomName)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+}
+
+export class RedisRecordingStore implements RecordingStore {
+  constructor(
+    private readonly redis: Redis,
+    private readonly key = "livekit:recordings"
+  ) {}
+
+  async get(egressId: string) {
+    const raw = await this.redis.hget(this.key, egressId);
+    return raw ? (JSON.parse(raw) as RecordingRecord) : null;
+  }
+
+  async save(record: RecordingRecord) {
+    await this.redis
+      .multi()
+      .hset(this.key, record.egressId, JSON.stringify(record))
+      .zadd(this.roomKey(record.roomName), record.startedAt, record.egressId)
+      .exec();
+  }
+
+  async listByRoom(roomName: string) {
+    const ids = await this.redis.zrevrange(this.roomKey(roomName), 0, -1);
+    if (ids.length === 0) return [];
+
+    const raws = await this.redis.hmget(this.key, ...ids);
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => JSON.parse(raw) as RecordingRecord);
+  }
+
+  private roomKey(roomName: string) {
+    return `${this.key}:room:${roomName}`;
+  }
+}
+
+// Follows EGRESS_REGISTRY so one switch moves all state in-process
+export function createRecordingStore(): RecordingStore {
+  if (process.env.EGRESS_REGISTRY === "memory") {
+    return new InMemoryRecordingStore();
+  }
+  return new RedisRecordingStore(getRedisClient());
+}
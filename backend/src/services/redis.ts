@@ -0,0 +1,13 @@
+import Redis from "ioredis";
+
+let client: Redis | null = null;
+
+// Shared connection for the Redis-backed stores (REDIS_URL)
+export function getRedisClient(): Redis {
+  if (!client) {
+    const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
+    console.log("🔌 Connecting to redis:", redisUrl);
+    client = new Redis(redisUrl);
+  }
+  return client;
+}
@@ -0,0 +1,245 @@
+import { EventEmitter } from "events";
+import { WebhookEvent } from "livekit-server-sdk";
+
+// 0 = AUDIO, 1 = VIDEO (TrackType)
+const TRACK_AUDIO = 0;
+const TRACK_VIDEO = 1;
+
+export type RoomPhase =
+  | "waiting_publisher" // ingress started, publisher not seen yet
+  | "waiting_tracks" // publisher known, expected tracks still missing
+  | "ready"; // egress may start / is running
+
+export interface PublisherTracks {
+  identity: string;
+  audioTrackId?: string;
+  videoTrackId?: string;
+}
+
+export interface RoomState {
+  roomName: string;
+  phase: RoomPhase;
+  // From ingress_started; unset for publishers that did not come via ingress
+  ingressIdentity?: string;
+  expectAudio?: boolean;
+  expectVideo?: boolean;
+  publisher?: PublisherTracks;
+}
+
+export interface RoomStateMachineOptions {
+  // How long to wait for the second track when we can't tell what to expect
+  trackWaitMs: number;
+}
+
+/**
+ * Per-room state driven by LiveKit webhooks, replacing the old "sleep,
+ * listParticipants, take participants[0]" approach.
+ *
+ * Emits `ready` (roomName, PublisherTracks) once the publisher's tracks are
+ * known: immediately when the ingress told us which kinds to expect, or
+ * after `trackWaitMs` otherwise. Audio-only and video-only publishers are
+ * both fine. Emits `tracks_lost` (roomName) when a ready room's publisher
+ * unpublishes a track: the egress was started with its sid, so the room
+ * waits for tracks again and emits `ready` with the new ones. Emits `ended`
+ * (roomName) when the ingress goes away.
+ */
+export class RoomStateMachine extends EventEmitter {
+  private rooms = new Map<string, RoomState>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(private readonly options: RoomStateMachineOptions) {
+    super();
+  }
+
+  get(roomName: string): RoomState | undefined {
+    return this.rooms.get(roomName);
+  }
+
+  handle(event: WebhookEvent) {
+    switch (event.event) {
+      case "ingress_started":
+        return this.onIngressStarted(event);
+      case "participant_joined":
+        return this.onParticipantJoined(event);
+      case "track_published":
+        return this.onTrackPublished(event);
+      case "track_unpublished":
+        return this.onTrackUnpublished(event);
+      case "ingress_ended":
+      case "room_finished":
+        return this.onEnded(event);
+    }
+  }
+
+  private onIngressStarted(event: WebhookEvent) {
+    const info = event.ingressInfo;
+    const roomName = info?.roomName;
+    if (!roomName) return;
+
+    const state = this.ensure(roomName);
+    state.ingressIdentity = info.participantIdentity;
+
+    // Input state tells us what the encoder actually sends
+    const input = info.state;
+    if (input?.audio?.mimeType || input?.video?.mimeType) {
+      state.expectAudio = Boolean(input.audio?.mimeType);
+      state.expectVideo = Boolean(input.video?.mimeType);
+    }
+
+    console.log("🧭 Ingress started:", roomName, {
+      identity: state.ingressIdentity,
+      audio: state.expectAudio,
+      video: state.expectVideo,
+    });
+    this.evaluate(state);
+  }
+
+  private onParticipantJoined(event: WebhookEvent) {
+    const roomName = event.room?.name;
+    const identity = event.participant?.identity;
+    if (!roomName || !identity) return;
+
+    // Without an ingress we can't tell a viewer from a publisher until it
+    // publishes something
+    const state = this.rooms.get(roomName);
+    if (state?.ingressIdentity === identity && !state.publisher) {
+      state.publisher = { identity };
+      this.evaluate(state);
+    }
+  }
+
+  private onTrackPublished(event: WebhookEvent) {
+    const roomName = event.room?.name;
+    const identity = event.participant?.identity;
+    const track = event.track;
+    if (!roomName || !identity || !track?.sid) return;
+
+    const state = this.ensure(roomName);
+    if (!this.isPublisher(state, identity)) {
+      console.log("Track from non-publisher, ignore:", identity);
+      return;
+    }
+
+    state.publisher ??= { identity };
+    if (track.type === TRACK_AUDIO) {
+      state.publisher.audioTrackId = track.sid;
+    } else if (track.type === TRACK_VIDEO) {
+      state.publisher.videoTrackId = track.sid;
+    } else {
+      return;
+    }
+
+    this.evaluate(state);
+  }
+
+  private onTrackUnpublished(event: WebhookEvent) {
+    const state = event.room?.name && this.rooms.get(event.room.name);
+    const publisher = state && state.publisher;
+    const sid = event.track?.sid;
+    if (!publisher || publisher.identity !== event.participant?.identity) {
+      return;
+    }
+
+    if (publisher.audioTrackId === sid) {
+      publisher.audioTrackId = undefined;
+    } else if (publisher.videoTrackId === sid) {
+      publisher.videoTrackId = undefined;
+    } else {
+      return;
+    }
+
+    if (state.phase === "ready") {
+      state.phase = "waiting_tracks";
+      console.log("🔌 Track unpublished, waiting again:", state.roomName);
+      this.emit("tracks_lost", state.roomName);
+    }
+    this.evaluate(state);
+  }
+
+  private onEnded(event: WebhookEvent) {
+    const roomName =
+      event.ingressInfo?.roomName ||
+      event.ingressInfo?.name ||
+      event.room?.name;
+    if (!roomName) return;
+
+    this.clearTimer(roomName);
+    this.rooms.delete(roomName);
+    this.emit("ended", roomName);
+  }
+
+  private ensure(roomName: string): RoomState {
+    let state = this.rooms.get(roomName);
+    if (!state) {
+      state = { roomName, phase: "waiting_publisher" };
+      this.rooms.set(roomName, state);
+    }
+    return state;
+  }
+
+  // The ingress participant when there is one, else the first publisher
+  private isPublisher(state: RoomState, identity: string) {
+    if (state.ingressIdentity) return state.ingressIdentity === identity;
+    return !state.publisher || state.publisher.identity === identity;
+  }
+
+  private evaluate(state: RoomState) {
+    if (state.phase === "ready") return;
+
+    const publisher = state.publisher;
+    if (!publisher) {
+      state.phase = "waiting_publisher";
+      return;
+    }
+
+    const hasAudio = Boolean(publisher.audioTrackId);
+    const hasVideo = Boolean(publisher.videoTrackId);
+    if (!hasAudio && !hasVideo) {
+      this.clearTimer(state.roomName);
+      state.phase = "waiting_tracks";
+      return;
+    }
+
+    const known =
+      state.expectAudio !== undefined && state.expectVideo !== undefined;
+    if (known) {
+      if (
+        (!state.expectAudio || hasAudio) &&
+        (!state.expectVideo || hasVideo)
+      ) {
+        return this.markReady(state);
+      }
+    } else if (hasAudio && hasVideo) {
+      return this.markReady(state);
+    }
+
+    // One track so far and we don't know whether another is coming
+    state.phase = "waiting_tracks";
+    if (!this.timers.has(state.roomName)) {
+      this.timers.set(
+        state.roomName,
+        setTimeout(() => {
+          this.timers.delete(state.roomName);
+          const current = this.rooms.get(state.roomName);
+          if (current === state && state.phase !== "ready") {
+            console.log("⏱️ Track wait elapsed, starting with what we have");
+            this.markReady(state);
+          }
+        }, this.options.trackWaitMs)
+      );
+    }
+  }
+
+  private markReady(state: RoomState) {
+    this.clearTimer(state.roomName);
+    state.phase = "ready";
+    console.log("✅ Room ready:", state.roomName, state.publisher);
+    this.emit("ready", state.roomName, { ...state.publisher! });
+  }
+
+  private clearTimer(roomName: string) {
+    const timer = this.timers.get(roomName);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(roomName);
+  }
+}
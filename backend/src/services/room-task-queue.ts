@@ -0,0 +1,20 @@
+/**
+ * Runs tasks for the same room one after another, e.g. an egress stop and
+ * the start that follows when the publisher comes back. A failed task
+ * rejects its own promise but doesn't hold up the next one.
+ */
+export class RoomTaskQueue {
+  private tails = new Map<string, Promise<void>>();
+
+  run(roomName: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.tails.get(roomName) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.tails.set(roomName, next);
+
+    const forget = () => {
+      if (this.tails.get(roomName) === next) this.tails.delete(roomName);
+    };
+    next.then(forget, forget);
+    return next;
+  }
+}
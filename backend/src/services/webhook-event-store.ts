@@ -0,0 +1,237 @@
+import Redis from "ioredis";
+import { getRedisClient } from "./redis";
+
+export type WebhookEventStatus = "processing" | "processed" | "failed";
+
+export interface StoredWebhookEvent {
+  id: string;
+  event: string;
+  roomName?: string;
+  createdAt: number; // ms, as sent by LiveKit
+  receivedAt: number;
+  status: WebhookEventStatus;
+  attempts: number;
+  // While "processing": after this the claim counts as abandoned
+  leaseExpiresAt?: number;
+  error?: string;
+  payload: unknown; // WebhookEvent.toJSON()
+}
+
+export interface WebhookEventStoreOptions {
+  // How long a claim may stay "processing" before a retry can take it over
+  leaseMs: number;
+  // Events older than this are dropped from the log
+  retentionMs: number;
+}
+
+export function webhookEventStoreOptions(): WebhookEventStoreOptions {
+  return {
+    leaseMs: parseInt(process.env.WEBHOOK_EVENT_LEASE_MS || "60000"),
+    retentionMs: parseInt(
+      process.env.WEBHOOK_EVENT_RETENTION_MS || String(7 * 24 * 3600 * 1000)
+    ),
+  };
+}
+
+// Pruning scans old events, so it runs at most this often
+const PRUNE_INTERVAL_MS = 60_000;
+
+// A "processing" claim past its lease belongs to a handler that crashed
+// or was restarted before it could record the outcome
+function isClaimable(existing: StoredWebhookEvent | undefined, now: number) {
+  if (!existing) return true;
+  if (existing.status === "failed") return true;
+  return (
+    existing.status === "processing" && (existing.leaseExpiresAt ?? 0) <= now
+  );
+}
+
+/**
+ * Log of every webhook LiveKit delivered, keyed by event id. `claim` is
+ * what makes processing idempotent: LiveKit retries deliveries, and only
+ * the first copy of an event gets through, or a retry of one that failed
+ * or whose claim expired. Events are kept for `retentionMs`.
+ */
+export interface WebhookEventStore {
+  claim(record: StoredWebhookEvent): Promise<boolean>;
+  get(id: string): Promise<StoredWebhookEvent | null>;
+  save(record: StoredWebhookEvent): Promise<void>;
+  listByRoom(roomName: string, limit: number): Promise<StoredWebhookEvent[]>;
+}
+
+export class InMemoryWebhookEventStore implements WebhookEventStore {
+  private events = new Map<string, StoredWebhookEvent>();
+  private prunedAt = 0;
+
+  constructor(
+    private readonly options: WebhookEventStoreOptions = webhookEventStoreOptions()
+  ) {}
+
+  async claim(record: StoredWebhookEvent) {
+    const now = Date.now();
+    this.prune(now);
+
+    const existing = this.events.get(record.id);
+    if (!isClaimable(existing, now)) return false;
+
+    this.events.set(record.id, {
+      ...record,
+      attempts: (existing?.attempts ?? 0) + 1,
+      leaseExpiresAt: now + this.options.leaseMs,
+    });
+    return true;
+  }
+
+  async get(id: string) {
+    return this.events.get(id) ?? null;
+  }
+
+  async save(record: StoredWebhookEvent) {
+    this.events.set(record.id, record);
+  }
+
+  async listByRoom(roomName: string, limit: number) {
+    return Array.from(this.events.values())
+      .filter((e) => e.roomName === roomName)
+      .sort((a, b) => b.receivedAt - a.receivedAt)
+      .slice(0, limit);
+  }
+
+  private prune(now: number) {
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = now;
+
+    const cutoff = now - this.options.retentionMs;
+    for (const [id, event] of this.events) {
+      if (event.receivedAt < cutoff) this.events.delete(id);
+    }
+  }
+}
+
+// KEYS: event hash, receivedAt index. ARGV: id, the record as JSON without
+// `attempts`, now, receivedAt. Checks and takes the claim in one step, so
+// two backends can't both take over an expired one. Returns the attempt
+// number, 0 when the event is not claimable.
+const CLAIM_SCRIPT = `
+local raw = redis.call("HGET", KEYS[1], ARGV[1])
+local attempts = 1
+if raw then
+  local existing = cjson.decode(raw)
+  if existing.status == "processed" then return 0 end
+  if existing.status == "processing" and
+    (tonumber(existing.leaseExpiresAt) or 0) > tonumber(ARGV[3]) then
+    return 0
+  end
+  attempts = (tonumber(existing.attempts) or 0) + 1
+end
+redis.call("HSET", KEYS[1], ARGV[1],
+  '{"attempts":' .. attempts .. ',' .. string.sub(ARGV[2], 2))
+redis.call("ZADD", KEYS[2], ARGV[4], ARGV[1])
+return attempts
+`;
+
+export class RedisWebhookEventStore implements WebhookEventStore {
+  private prunedAt = 0;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly key = "livekit:webhook-events",
+    private readonly options: WebhookEventStoreOptions = webhookEventStoreOptions()
+  ) {}
+
+  async claim(record: StoredWebhookEvent) {
+    const now = Date.now();
+    this.prune(now).catch((err) =>
+      console.error("❌ Failed to prune webhook events:", err.message)
+    );
+
+    // The script writes `attempts` itself, as the first field
+    const { attempts: _, ...rest } = record;
+    const attempts = (await this.redis.eval(
+      CLAIM_SCRIPT,
+      2,
+      this.key,
+      this.receivedKey(),
+      record.id,
+      JSON.stringify({ ...rest, leaseExpiresAt: now + this.options.leaseMs }),
+      now,
+      record.receivedAt
+    )) as number;
+
+    if (attempts === 0) return false;
+    if (attempts === 1 && record.roomName) {
+      await this.redis.zadd(
+        this.roomKey(record.roomName),
+        record.receivedAt,
+        record.id
+      );
+    }
+    return true;
+  }
+
+  async get(id: string) {
+    const raw = await this.redis.hget(this.key, id);
+    return raw ? (JSON.parse(raw) as StoredWebhookEvent) : null;
+  }
+
+  async save(record: StoredWebhookEvent) {
+    await this.redis.hset(this.key, record.id, JSON.stringify(record));
+  }
+
+  async listByRoom(roomName: string, limit: number) {
+    const ids = await this.redis.zrevrange(
+      this.roomKey(roomName),
+      0,
+      limit - 1
+    );
+    if (ids.length === 0) return [];
+
+    const raws = await this.redis.hmget(this.key, ...ids);
+    return raws
+      .filter((raw): raw is string => raw !== null)
+      .map((raw) => JSON.parse(raw) as StoredWebhookEvent);
+  }
+
+  private roomKey(roomName: string) {
+    return `${this.key}:room:${roomName}`;
+  }
+
+  private receivedKey() {
+    return `${this.key}:received`;
+  }
+
+  // Drops expired events from the hash and from their room's index,
+  // a batch at a time
+  private async prune(now: number) {
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = now;
+
+    const ids = await this.redis.zrangebyscore(
+      this.receivedKey(),
+      "-inf",
+      now - this.options.retentionMs,
+      "LIMIT",
+      0,
+      500
+    );
+    if (ids.length === 0) return;
+
+    const raws = await this.redis.hmget(this.key, ...ids);
+    const multi = this.redis
+      .multi()
+      .hdel(this.key, ...ids)
+      .zrem(this.receivedKey(), ...ids);
+    raws.forEach((raw, i) => {
+      const roomName = raw && (JSON.parse(raw) as StoredWebhookEvent).roomName;
+      if (roomName) multi.zrem(this.roomKey(roomName), ids[i]);
+    });
+    await multi.exec();
+  }
+}
+
+export function createWebhookEventStore(): WebhookEventStore {
+  if (process.env.EGRESS_REGISTRY === "memory") {
+    return new InMemoryWebhookEventStore();
+  }
+  return new RedisWebhookEventStore(getRedisClient());
+}
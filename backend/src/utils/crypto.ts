@@ -0,0 +1,37 @@
+import crypto from "crypto";
+
+// AES-256-GCM with a key derived from SECRET_ENCRYPTION_KEY. Output is
+// `iv.tag.ciphertext`, each part base64url.
+function getKey() {
+  const secret = process.env.SECRET_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("SECRET_ENCRYPTION_KEY is not set");
+  }
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+export function encryptSecret(plain: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+export function decryptSecret(encrypted: string): string {
+  const [iv, tag, data] = encrypted
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+// Safe to show in API responses: "••••wxyz", enough to tell keys apart
+export function maskSecret(plain: string): string {
+  if (plain.length <= 8) return "••••";
+  return `••••${plain.slice(-4)}`;
+}
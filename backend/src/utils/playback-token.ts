@@ -0,0 +1,32 @@
+import crypto from "crypto";
+
+// Signed playback URLs for the rtmp-server (FLV, WS-FLV, HLS). Must match
+// its verifier: `<expiresAt>.<1 if IP-bound, else 0>.<sig>`, sig being the
+// base64url HMAC-SHA256 of `<streamPath>:<expiresAt>:<ip>`.
+export interface PlaybackGrant {
+  streamPath: string;
+  expiresAt: number; // unix seconds
+  ip?: string;
+}
+
+function getSecret() {
+  const secret = process.env.PLAYBACK_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("PLAYBACK_TOKEN_SECRET is not set");
+  }
+  return secret;
+}
+
+export function signPlaybackToken({
+  streamPath,
+  expiresAt,
+  ip,
+}: PlaybackGrant) {
+  // IPv4 callers show up as ::ffff:a.b.c.d on dual-stack sockets
+  const boundIp = (ip || "").replace(/^::ffff:/, "");
+  const signature = crypto
+    .createHmac("sha256", getSecret())
+    .update(`${streamPath}:${expiresAt}:${boundIp}`)
+    .digest("base64url");
+  return `${expiresAt}.${boundIp ? 1 : 0}.${signature}`;
+}
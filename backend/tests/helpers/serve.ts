@@ -0,0 +1,27 @@
+import express, { RequestHandler, Router } from "express";
+import { AddressInfo } from "net";
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+// Serves a router the way index.ts mounts it, on a free local port
+export function serve(router: Router): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  app.use(router);
+
+  return new Promise((resolve) => {
+    const server = app.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// requireScope stand-in that admits every request
+export const allowAll = (): RequestHandler => (_req, _res, next) => next();
@@ -0,0 +1,206 @@
+import { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+
+import {
+  ApiKeyAuthenticator,
+  AuthError,
+  JwtAuthenticator,
+  createAuth,
+} from "../../src/middleware/auth";
+
+describe("auth middleware", () => {
+  const secret = "test-secret";
+
+  const request = (headers: Record<string, string> = {}) => {
+    const lower = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        value,
+      ])
+    );
+    return {
+      get: (name: string) => lower[name.toLowerCase()],
+    } as unknown as Request;
+  };
+
+  const response = () => {
+    const res = { status: jest.fn(), json: jest.fn() };
+    res.status.mockReturnValue(res);
+    return res;
+  };
+
+  const bearer = (payload: object, key = secret) => ({
+    Authorization: `Bearer ${jwt.sign(payload, key)}`,
+  });
+
+  describe("JwtAuthenticator", () => {
+    const authenticator = new JwtAuthenticator({ secret });
+
+    it("should read scopes from the space-delimited scope claim", async () => {
+      const principal = await authenticator.authenticate(
+        request(bearer({ sub: "user-1", scope: "room:read token:issue" }))
+      );
+
+      expect(principal).toEqual({
+        subject: "user-1",
+        scopes: ["room:read", "token:issue"],
+        method: "jwt",
+      });
+    });
+
+    it("should read scopes from a scopes array", async () => {
+      const principal = await authenticator.authenticate(
+        request(bearer({ sub: "user-1", scopes: ["metrics:read"] }))
+      );
+
+      expect(principal?.scopes).toEqual(["metrics:read"]);
+    });
+
+    it("should ignore requests without a bearer token", async () => {
+      await expect(authenticator.authenticate(request())).resolves.toBeNull();
+      await expect(
+        authenticator.authenticate(request({ Authorization: "Basic abc" }))
+      ).resolves.toBeNull();
+    });
+
+    it("should reject tokens signed with another secret", async () => {
+      await expect(
+        authenticator.authenticate(request(bearer({ sub: "x" }, "other")))
+      ).rejects.toThrow(AuthError);
+    });
+
+    it("should check the issuer and audience when configured", async () => {
+      const strict = new JwtAuthenticator({
+        secret,
+        issuer: "obs-api",
+        audience: "studio",
+      });
+
+      await expect(
+        strict.authenticate(
+          request(bearer({ sub: "x", iss: "someone-else", aud: "studio" }))
+        )
+      ).rejects.toThrow("Invalid token");
+      await expect(
+        strict.authenticate(
+          request(bearer({ sub: "x", iss: "obs-api", aud: "studio" }))
+        )
+      ).resolves.toEqual(expect.objectContaining({ subject: "x" }));
+    });
+  });
+
+  describe("ApiKeyAuthenticator", () => {
+    const authenticator = new ApiKeyAuthenticator({
+      ingest: { key: "k-ingest", scopes: ["ingress:create"] },
+    });
+
+    it("should accept a known key", async () => {
+      const principal = await authenticator.authenticate(
+        request({ "X-API-Key": "k-ingest" })
+      );
+
+      expect(principal).toEqual({
+        subject: "api_key:ingest",
+        scopes: ["ingress:create"],
+        method: "api_key",
+      });
+    });
+
+    it("should reject an unknown key", async () => {
+      await expect(
+        authenticator.authenticate(request({ "X-API-Key": "k-wrong" }))
+      ).rejects.toThrow("Invalid API key");
+    });
+
+    it("should ignore requests without a key", async () => {
+      await expect(authenticator.authenticate(request())).resolves.toBeNull();
+    });
+  });
+
+  describe("requireScope", () => {
+    const requireScope = createAuth([
+      new JwtAuthenticator({ secret }),
+      new ApiKeyAuthenticator({
+        ingest: { key: "k-ingest", scopes: ["ingress:create"] },
+        admin: { key: "k-admin", scopes: ["*"] },
+      }),
+    ]);
+
+    const run = async (
+      scope: Parameters<typeof requireScope>[0],
+      req: Request
+    ) => {
+      const res = response();
+      const next = jest.fn();
+      await requireScope(scope)(req, res as unknown as Response, next);
+      return { res, next };
+    };
+
+    it("should let a principal holding the scope through", async () => {
+      const req = request({ "X-API-Key": "k-ingest" });
+      const { res, next } = await run("ingress:create", req);
+
+      expect(next).toHaveBeenCalled();
+      expect(res.status).not.toHaveBeenCalled();
+      expect(req.auth?.subject).toBe("api_key:ingest");
+    });
+
+    it("should let a wildcard principal through", async () => {
+      const { next } = await run(
+        "webhook:admin",
+        request({ "X-API-Key": "k-admin" })
+      );
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should answer 401 without credentials", async () => {
+      const { res, next } = await run("room:read", request());
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({ error: "Missing credentials" });
+    });
+
+    it("should answer 401 for an invalid credential", async () => {
+      const { res } = await run(
+        "room:read",
+        request(bearer({ sub: "x", scope: "room:read" }, "other"))
+      );
+
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+
+    it("should answer 403 when the scope is missing", async () => {
+      const { res, next } = await run(
+        "room:read",
+        request(bearer({ sub: "x", scope: "token:issue" }))
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        error: "Missing scope: room:read",
+      });
+    });
+
+    it("should let everything through when auth is disabled", async () => {
+      const req = request();
+      const res = response();
+      const next = jest.fn();
+
+      await createAuth(null)("webhook:admin")(
+        req,
+        res as unknown as Response,
+        next
+      );
+
+      expect(next).toHaveBeenCalled();
+      expect(req.auth).toEqual({
+        subject: "anonymous",
+        scopes: ["*"],
+        method: "disabled",
+      });
+    });
+  });
+});
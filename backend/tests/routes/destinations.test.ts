@@ -0,0 +1,195 @@
+import { EgressClient } from "livekit-server-sdk";
+
+import { createDestinationRouter } from "../../src/routes/destinations";
+import { InMemoryDestinationStore } from "../../src/services/destination-store";
+import { InMemoryEgressRegistry } from "../../src/services/egress-registry";
+import { decryptSecret } from "../../src/utils/crypto";
+import { TestServer, allowAll, serve } from "../helpers/serve";
+
+describe("destination routes", () => {
+  const base = "/api/rooms/room-1/destinations";
+  let store: InMemoryDestinationStore;
+  let registry: InMemoryEgressRegistry;
+  let updateStream: jest.Mock;
+  let server: TestServer;
+
+  const call = async (method: string, path: string, body?: object) => {
+    const res = await fetch(`${server.url}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body && JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  const create = (body: object = {}) =>
+    call("POST", base, {
+      name: "YouTube",
+      url: "rtmp://a.rtmp.youtube.com/live2/",
+      stream_key: "abcd-efgh-wxyz",
+      ...body,
+    });
+
+  beforeEach(async () => {
+    process.env.SECRET_ENCRYPTION_KEY = "test-key";
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    store = new InMemoryDestinationStore();
+    registry = new InMemoryEgressRegistry();
+    updateStream = jest.fn(async () => ({}));
+    server = await serve(
+      createDestinationRouter({
+        store,
+        egressRegistry: registry,
+        egressClient: { updateStream } as unknown as EgressClient,
+        requireScope: allowAll,
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await server.close();
+    jest.restoreAllMocks();
+    delete process.env.SECRET_ENCRYPTION_KEY;
+  });
+
+  it("should store the stream key encrypted and return it masked", async () => {
+    const { status, body } = await create();
+
+    expect(status).toBe(201);
+    expect(body.destination).toEqual(
+      expect.objectContaining({ name: "YouTube", stream_key: "••••wxyz" })
+    );
+    expect(body.destination.streamKeyEncrypted).toBeUndefined();
+    expect(body.live).toBe(false);
+
+    const [saved] = await store.list("room-1");
+    expect(saved.streamKeyEncrypted).not.toContain("wxyz");
+    expect(decryptSecret(saved.streamKeyEncrypted)).toBe("abcd-efgh-wxyz");
+  });
+
+  it("should list the room's destinations with masked keys", async () => {
+    await create();
+    await create({ name: "Twitch", stream_key: "short" });
+
+    const { body } = await call("GET", base);
+
+    expect(body.destinations.map((d: any) => d.stream_key)).toEqual([
+      "••••wxyz",
+      "••••",
+    ]);
+  });
+
+  it("should reject a destination without an RTMP url", async () => {
+    const { status } = await create({ url: "https://example.com/live" });
+
+    expect(status).toBe(400);
+    expect(await store.list("room-1")).toEqual([]);
+  });
+
+  it("should add the output to the room's running egress", async () => {
+    await registry.set({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 0,
+      status: "active",
+    });
+
+    const { body } = await create();
+
+    expect(body.live).toBe(true);
+    expect(updateStream).toHaveBeenCalledWith(
+      "EG_1",
+      ["rtmp://a.rtmp.youtube.com/live2/abcd-efgh-wxyz"],
+      []
+    );
+  });
+
+  it("should save the change and warn when the live update fails", async () => {
+    await registry.set({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 0,
+      status: "active",
+    });
+    updateStream.mockRejectedValue(new Error("egress gone"));
+
+    const { status, body } = await create();
+
+    expect(status).toBe(201);
+    expect(body.live).toBe(false);
+    expect(body.warning).toContain("egress gone");
+    expect(await store.list("room-1")).toHaveLength(1);
+  });
+
+  it("should swap the live output when the key changes", async () => {
+    const { body: created } = await create();
+    await registry.set({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 0,
+      status: "active",
+    });
+
+    const { body } = await call("PATCH", `${base}/${created.destination.id}`, {
+      stream_key: "new-key-1234",
+    });
+
+    expect(body.destination.stream_key).toBe("••••1234");
+    expect(updateStream).toHaveBeenCalledWith(
+      "EG_1",
+      ["rtmp://a.rtmp.youtube.com/live2/new-key-1234"],
+      ["rtmp://a.rtmp.youtube.com/live2/abcd-efgh-wxyz"]
+    );
+  });
+
+  it("should leave the live egress alone when a rename changes no output", async () => {
+    const { body: created } = await create();
+    await registry.set({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 0,
+      status: "active",
+    });
+
+    const { body } = await call("PATCH", `${base}/${created.destination.id}`, {
+      name: "YouTube main",
+    });
+
+    expect(body.destination.name).toBe("YouTube main");
+    expect(updateStream).not.toHaveBeenCalled();
+  });
+
+  it("should delete a destination and drop its live output", async () => {
+    const { body: created } = await create();
+    await registry.set({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 0,
+      status: "active",
+    });
+
+    const { body } = await call("DELETE", `${base}/${created.destination.id}`);
+
+    expect(body).toEqual({ ok: true, live: true });
+    expect(updateStream).toHaveBeenCalledWith(
+      "EG_1",
+      [],
+      ["rtmp://a.rtmp.youtube.com/live2/abcd-efgh-wxyz"]
+    );
+    expect(await store.list("room-1")).toEqual([]);
+  });
+
+  it("should not touch another room's destination", async () => {
+    const { body: created } = await create();
+
+    const { status } = await call(
+      "DELETE",
+      `/api/rooms/room-2/destinations/${created.destination.id}`
+    );
+
+    expect(status).toBe(404);
+    expect(await store.list("room-1")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { ApiKeyAuthenticator, createAuth } from "../../src/middleware/auth";
+import { createMetricsRouter } from "../../src/routes/metrics";
+import { InMemoryEgressRegistry } from "../../src/services/egress-registry";
+import { BackendMetrics, createMetrics } from "../../src/services/metrics";
+import { TestServer, serve } from "../helpers/serve";
+
+describe("metrics route", () => {
+  let registry: InMemoryEgressRegistry;
+  let metrics: BackendMetrics;
+  let server: TestServer;
+
+  const scrape = (key = "k-scraper") =>
+    fetch(`${server.url}/metrics`, { headers: { "X-API-Key": key } });
+
+  beforeEach(async () => {
+    registry = new InMemoryEgressRegistry();
+    metrics = createMetrics(registry);
+    server = await serve(
+      createMetricsRouter({
+        metrics,
+        requireScope: createAuth([
+          new ApiKeyAuthenticator({
+            scraper: { key: "k-scraper", scopes: ["metrics:read"] },
+            ingest: { key: "k-ingest", scopes: ["ingress:create"] },
+          }),
+        ]),
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("should expose the counters in the Prometheus format", async () => {
+    metrics.webhookEvent("room_started", "processed");
+    metrics.webhookEvent("room_started", "duplicate");
+    metrics.egressStarted();
+    metrics.egressFailed("start", "EGRESS_FAILED");
+
+    const res = await scrape();
+    const body = await res.text();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/plain");
+    expect(body).toContain(
+      'livekit_webhook_events_total{event="room_started",outcome="processed"} 1'
+    );
+    expect(body).toContain(
+      'livekit_webhook_events_total{event="room_started",outcome="duplicate"} 1'
+    );
+    expect(body).toContain("livekit_egress_starts_total 1");
+    expect(body).toContain(
+      'livekit_egress_failures_total{stage="start",status="EGRESS_FAILED"} 1'
+    );
+  });
+
+  it("should count active egresses from the registry at scrape time", async () => {
+    await registry.set({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 0,
+      status: "active",
+    });
+    await registry.set({
+      roomName: "room-2",
+      egressId: "EG_2",
+      startedAt: 0,
+      status: "active",
+    });
+    await registry.set({
+      roomName: "room-3",
+      egressId: "EG_3",
+      startedAt: 0,
+      status: "starting",
+    });
+
+    const body = await (await scrape()).text();
+
+    expect(body).toContain('livekit_active_egresses{status="active"} 2');
+    expect(body).toContain('livekit_active_egresses{status="starting"} 1');
+
+    await registry.delete("room-3");
+    expect(await (await scrape()).text()).not.toContain(
+      'livekit_active_egresses{status="starting"}'
+    );
+  });
+
+  it("should require the metrics:read scope", async () => {
+    expect((await fetch(`${server.url}/metrics`)).status).toBe(401);
+    expect((await scrape("k-ingest")).status).toBe(403);
+  });
+});
@@ -0,0 +1,105 @@
+import crypto from "crypto";
+
+import { createPlaybackRouter } from "../../src/routes/playback";
+import { TestServer, allowAll, serve } from "../helpers/serve";
+
+describe("playback token route", () => {
+  const now = 1_700_000_000_000;
+  let server: TestServer;
+
+  // What the rtmp-server verifier computes for a token
+  const sign = (streamPath: string, expiresAt: number, ip = "") =>
+    crypto
+      .createHmac("sha256", "playback-secret")
+      .update(`${streamPath}:${expiresAt}:${ip}`)
+      .digest("base64url");
+
+  const issue = async (body: object) => {
+    const res = await fetch(`${server.url}/api/playback/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  beforeEach(async () => {
+    process.env.PLAYBACK_TOKEN_SECRET = "playback-secret";
+    process.env.PLAYBACK_TOKEN_MAX_TTL_SECONDS = "7200";
+    process.env.PLAYBACK_BASE_URL = "https://play.example.com/";
+    jest.spyOn(Date, "now").mockReturnValue(now);
+    server = await serve(createPlaybackRouter({ requireScope: allowAll }));
+  });
+
+  afterEach(async () => {
+    await server.close();
+    jest.restoreAllMocks();
+    delete process.env.PLAYBACK_TOKEN_SECRET;
+    delete process.env.PLAYBACK_TOKEN_MAX_TTL_SECONDS;
+    delete process.env.PLAYBACK_BASE_URL;
+  });
+
+  it("should sign a token for the stream with the default TTL", async () => {
+    const { status, body } = await issue({ stream: "abc123" });
+    const expiresAt = now / 1000 + 3600;
+
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      stream_path: "/live/abc123",
+      token: `${expiresAt}.0.${sign("/live/abc123", expiresAt)}`,
+      expires_at: expiresAt,
+      urls: {
+        flv: `https://play.example.com/live/abc123.flv?token=${encodeURIComponent(
+          body.token
+        )}`,
+        hls: `https://play.example.com/live/abc123/index.m3u8?token=${encodeURIComponent(
+          body.token
+        )}`,
+      },
+    });
+  });
+
+  it("should bind the token to an explicit viewer IP", async () => {
+    const { body } = await issue({
+      stream: "abc123",
+      app: "studio",
+      ttl_seconds: 60,
+      ip: "203.0.113.7",
+    });
+    const expiresAt = now / 1000 + 60;
+
+    expect(body.bound_ip).toBe("203.0.113.7");
+    expect(body.token).toBe(
+      `${expiresAt}.1.${sign("/studio/abc123", expiresAt, "203.0.113.7")}`
+    );
+  });
+
+  it("should bind the token to the caller with bind_ip", async () => {
+    const { body } = await issue({ stream: "abc123", bind_ip: true });
+    const expiresAt = now / 1000 + 3600;
+
+    expect(body.bound_ip).toBe("127.0.0.1");
+    expect(body.token).toBe(
+      `${expiresAt}.1.${sign("/live/abc123", expiresAt, "127.0.0.1")}`
+    );
+  });
+
+  it("should reject stream names that are not plain names", async () => {
+    for (const body of [
+      {},
+      { stream: "../abc" },
+      { stream: "abc", app: "live/x" },
+    ]) {
+      expect((await issue(body)).status).toBe(400);
+    }
+  });
+
+  it("should reject a TTL outside the allowed range", async () => {
+    for (const ttl_seconds of [0, -5, 1.5, 7201, "soon"]) {
+      expect((await issue({ stream: "abc123", ttl_seconds })).status).toBe(400);
+    }
+    expect((await issue({ stream: "abc123", ttl_seconds: 7200 })).status).toBe(
+      200
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { createWebhookEventRouter } from "../../src/routes/webhook-events";
+import { InMemoryWebhookEventStore } from "../../src/services/webhook-event-store";
+import { TestServer, allowAll, serve } from "../helpers/serve";
+
+describe("webhook event routes", () => {
+  let store: InMemoryWebhookEventStore;
+  let handleEvent: jest.Mock;
+  let server: TestServer;
+
+  const stored = {
+    id: "EV_1",
+    event: "room_started",
+    roomName: "room-1",
+    createdAt: 1,
+    receivedAt: 1,
+    status: "failed" as const,
+    attempts: 1,
+    error: "boom",
+    payload: { id: "EV_1", event: "room_started", room: { name: "room-1" } },
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    store = new InMemoryWebhookEventStore({ leaseMs: 60_000, retentionMs: 0 });
+    await store.save(stored);
+    handleEvent = jest.fn(async () => undefined);
+    server = await serve(
+      createWebhookEventRouter({ store, handleEvent, requireScope: allowAll })
+    );
+  });
+
+  afterEach(async () => {
+    await server.close();
+    jest.restoreAllMocks();
+  });
+
+  it("should list a room's events", async () => {
+    const res = await fetch(`${server.url}/api/admin/rooms/room-1/events`);
+
+    expect(await res.json()).toEqual({
+      room_name: "room-1",
+      events: [stored],
+    });
+  });
+
+  it("should replay a stored event through the handler", async () => {
+    const res = await fetch(`${server.url}/api/admin/events/EV_1/replay`, {
+      method: "POST",
+    });
+
+    expect(res.status).toBe(200);
+    expect(handleEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: "EV_1",
+        event: "room_started",
+        room: expect.objectContaining({ name: "room-1" }),
+      })
+    );
+    expect(await store.get("EV_1")).toEqual(
+      expect.objectContaining({ status: "processed", attempts: 2 })
+    );
+  });
+
+  it("should record a failed replay", async () => {
+    handleEvent.mockRejectedValue(new Error("still broken"));
+
+    const res = await fetch(`${server.url}/api/admin/events/EV_1/replay`, {
+      method: "POST",
+    });
+
+    expect(res.status).toBe(500);
+    expect(await store.get("EV_1")).toEqual(
+      expect.objectContaining({ status: "failed", error: "still broken" })
+    );
+  });
+
+  it("should answer 404 for an unknown event", async () => {
+    const res = await fetch(`${server.url}/api/admin/events/EV_9/replay`, {
+      method: "POST",
+    });
+
+    expect(res.status).toBe(404);
+    expect(handleEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { EgressClient, EgressInfo } from "livekit-server-sdk";
+import { EgressStatus } from "livekit-server-sdk/dist/proto/livekit_egress";
+import {
+  InMemoryEgressRegistry,
+  reconcileEgressRegistry,
+} from "../../src/services/egress-registry";
+
+function egressClient(active: Partial<EgressInfo>[]) {
+  return {
+    listEgress: jest.fn(async () => active),
+  } as unknown as EgressClient;
+}
+
+describe("reconcileEgressRegistry", () => {
+  let registry: InMemoryEgressRegistry;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    registry = new InMemoryEgressRegistry();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should drop records whose egress LiveKit no longer runs", async () => {
+    await registry.set({
+      roomName: "room-1",
+      egressId: "EG_gone",
+      startedAt: 0,
+      status: "active",
+    });
+
+    await reconcileEgressRegistry(registry, egressClient([]));
+
+    expect(await registry.list()).toEqual([]);
+  });
+
+  it("should adopt running egresses it lost track of", async () => {
+    await reconcileEgressRegistry(
+      registry,
+      egressClient([
+        {
+          egressId: "EG_1",
+          roomName: "room-1",
+          status: EgressStatus.EGRESS_ACTIVE,
+          // Nanoseconds
+          startedAt: 5_000_000_000,
+        },
+      ])
+    );
+
+    expect(await registry.get("room-1")).toEqual({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 5000,
+      status: "active",
+    });
+  });
+
+  it("should keep a room's running egress and refresh its status", async () => {
+    await registry.set({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 1000,
+      status: "starting",
+    });
+
+    await reconcileEgressRegistry(
+      registry,
+      egressClient([
+        {
+          egressId: "EG_1",
+          roomName: "room-1",
+          status: EgressStatus.EGRESS_ENDING,
+        },
+        // A second egress of the same room doesn't replace the tracked one
+        {
+          egressId: "EG_2",
+          roomName: "room-1",
+          status: EgressStatus.EGRESS_ACTIVE,
+        },
+      ])
+    );
+
+    expect(await registry.get("room-1")).toEqual({
+      roomName: "room-1",
+      egressId: "EG_1",
+      startedAt: 1000,
+      status: "ending",
+    });
+  });
+});
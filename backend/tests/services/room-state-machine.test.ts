@@ -0,0 +1,156 @@
+import { WebhookEvent } from "livekit-server-sdk";
+import { RoomStateMachine } from "../../src/services/room-state-machine";
+
+const AUDIO = 0;
+const VIDEO = 1;
+
+function ingressStarted(kinds: { audio?: boolean; video?: boolean } = {}) {
+  return {
+    event: "ingress_started",
+    ingressInfo: {
+      roomName: "room-1",
+      participantIdentity: "obs",
+      state: {
+        audio: kinds.audio ? { mimeType: "audio/opus" } : undefined,
+        video: kinds.video ? { mimeType: "video/h264" } : undefined,
+      },
+    },
+  } as unknown as WebhookEvent;
+}
+
+function trackEvent(
+  event: "track_published" | "track_unpublished",
+  sid: string,
+  type: number,
+  identity = "obs"
+) {
+  return {
+    event,
+    room: { name: "room-1" },
+    participant: { identity },
+    track: { sid, type },
+  } as unknown as WebhookEvent;
+}
+
+describe("RoomStateMachine", () => {
+  let machine: RoomStateMachine;
+  let ready: jest.Mock;
+  let tracksLost: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    machine = new RoomStateMachine({ trackWaitMs: 3000 });
+    ready = jest.fn();
+    tracksLost = jest.fn();
+    machine.on("ready", ready);
+    machine.on("tracks_lost", tracksLost);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("should wait for the publisher, then for the tracks the ingress announced", () => {
+    machine.handle(ingressStarted({ audio: true, video: true }));
+    expect(machine.get("room-1")?.phase).toBe("waiting_publisher");
+
+    machine.handle({
+      event: "participant_joined",
+      room: { name: "room-1" },
+      participant: { identity: "obs" },
+    } as unknown as WebhookEvent);
+    expect(machine.get("room-1")?.phase).toBe("waiting_tracks");
+
+    machine.handle(trackEvent("track_published", "TR_video", VIDEO));
+    expect(machine.get("room-1")?.phase).toBe("waiting_tracks");
+
+    machine.handle(trackEvent("track_published", "TR_audio", AUDIO));
+    expect(machine.get("room-1")?.phase).toBe("ready");
+    expect(ready).toHaveBeenCalledWith("room-1", {
+      identity: "obs",
+      audioTrackId: "TR_audio",
+      videoTrackId: "TR_video",
+    });
+  });
+
+  it("should be ready right away for a video-only ingress", () => {
+    machine.handle(ingressStarted({ video: true }));
+    machine.handle(trackEvent("track_published", "TR_video", VIDEO));
+
+    expect(machine.get("room-1")?.phase).toBe("ready");
+    expect(ready).toHaveBeenCalledTimes(1);
+  });
+
+  it("should start with one track once the wait elapses when kinds are unknown", () => {
+    machine.handle(ingressStarted());
+    machine.handle(trackEvent("track_published", "TR_audio", AUDIO));
+    expect(machine.get("room-1")?.phase).toBe("waiting_tracks");
+
+    jest.advanceTimersByTime(3000);
+
+    expect(machine.get("room-1")?.phase).toBe("ready");
+    expect(ready).toHaveBeenCalledWith("room-1", {
+      identity: "obs",
+      audioTrackId: "TR_audio",
+    });
+  });
+
+  it("should ignore tracks from other participants", () => {
+    machine.handle(ingressStarted({ video: true }));
+    machine.handle(trackEvent("track_published", "TR_other", VIDEO, "viewer"));
+
+    expect(machine.get("room-1")?.phase).toBe("waiting_publisher");
+    expect(ready).not.toHaveBeenCalled();
+  });
+
+  it("should wait again after an unpublish and be ready with the new tracks", () => {
+    machine.handle(ingressStarted({ audio: true, video: true }));
+    machine.handle(trackEvent("track_published", "TR_audio", AUDIO));
+    machine.handle(trackEvent("track_published", "TR_video", VIDEO));
+
+    machine.handle(trackEvent("track_unpublished", "TR_audio", AUDIO));
+    machine.handle(trackEvent("track_unpublished", "TR_video", VIDEO));
+    expect(machine.get("room-1")?.phase).toBe("waiting_tracks");
+    expect(tracksLost).toHaveBeenCalledTimes(1);
+
+    // Nothing left to start with, so no timer may fire in the meantime
+    jest.advanceTimersByTime(3000);
+    expect(ready).toHaveBeenCalledTimes(1);
+
+    machine.handle(trackEvent("track_published", "TR_audio2", AUDIO));
+    machine.handle(trackEvent("track_published", "TR_video2", VIDEO));
+
+    expect(machine.get("room-1")?.phase).toBe("ready");
+    expect(ready).toHaveBeenLastCalledWith("room-1", {
+      identity: "obs",
+      audioTrackId: "TR_audio2",
+      videoTrackId: "TR_video2",
+    });
+  });
+
+  it("should ignore unpublishes of tracks it doesn't know", () => {
+    machine.handle(ingressStarted({ video: true }));
+    machine.handle(trackEvent("track_published", "TR_video", VIDEO));
+
+    machine.handle(trackEvent("track_unpublished", "TR_stale", VIDEO));
+
+    expect(machine.get("room-1")?.phase).toBe("ready");
+    expect(tracksLost).not.toHaveBeenCalled();
+  });
+
+  it("should forget the room and emit ended when the ingress ends", () => {
+    const ended = jest.fn();
+    machine.on("ended", ended);
+    machine.handle(ingressStarted({ video: true }));
+
+    machine.handle({
+      event: "ingress_ended",
+      ingressInfo: { roomName: "room-1" },
+    } as unknown as WebhookEvent);
+
+    expect(machine.get("room-1")).toBeUndefined();
+    expect(ended).toHaveBeenCalledWith("room-1");
+  });
+});
@@ -0,0 +1,56 @@
+import { RoomTaskQueue } from "../../src/services/room-task-queue";
+
+describe("RoomTaskQueue", () => {
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>((r) => (resolve = r));
+    return { promise, resolve };
+  };
+
+  it("should start a room's task only after the previous one settled", async () => {
+    const queue = new RoomTaskQueue();
+    const stop = deferred();
+    const order: string[] = [];
+
+    const stopping = queue.run("room-1", async () => {
+      await stop.promise;
+      order.push("stop");
+    });
+    const starting = queue.run("room-1", async () => {
+      order.push("start");
+    });
+    await Promise.resolve();
+    expect(order).toEqual([]);
+
+    stop.resolve();
+    await Promise.all([stopping, starting]);
+    expect(order).toEqual(["stop", "start"]);
+  });
+
+  it("should run the next task after a failed one", async () => {
+    const queue = new RoomTaskQueue();
+    const start = jest.fn(async () => undefined);
+
+    const failing = queue.run("room-1", async () => {
+      throw new Error("stop failed");
+    });
+    const starting = queue.run("room-1", start);
+
+    await expect(failing).rejects.toThrow("stop failed");
+    await starting;
+    expect(start).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not hold up other rooms", async () => {
+    const queue = new RoomTaskQueue();
+    const blocked = deferred();
+    const other = jest.fn(async () => undefined);
+
+    const first = queue.run("room-1", () => blocked.promise);
+    await queue.run("room-2", other);
+
+    expect(other).toHaveBeenCalledTimes(1);
+    blocked.resolve();
+    await first;
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  InMemoryWebhookEventStore,
+  StoredWebhookEvent,
+} from "../../src/services/webhook-event-store";
+
+describe("InMemoryWebhookEventStore", () => {
+  const leaseMs = 60_000;
+  const retentionMs = 3_600_000;
+  let now: number;
+  let store: InMemoryWebhookEventStore;
+
+  const event = (
+    id: string,
+    overrides: Partial<StoredWebhookEvent> = {}
+  ): StoredWebhookEvent => ({
+    id,
+    event: "room_started",
+    roomName: "room-1",
+    createdAt: now,
+    receivedAt: now,
+    status: "processing",
+    attempts: 0,
+    payload: {},
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    store = new InMemoryWebhookEventStore({ leaseMs, retentionMs });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should let only the first delivery of an event through", async () => {
+    expect(await store.claim(event("EV_1"))).toBe(true);
+    expect(await store.claim(event("EV_1"))).toBe(false);
+
+    expect(await store.get("EV_1")).toEqual(
+      expect.objectContaining({
+        attempts: 1,
+        status: "processing",
+        leaseExpiresAt: now + leaseMs,
+      })
+    );
+  });
+
+  it("should not claim an event that was processed", async () => {
+    await store.claim(event("EV_1"));
+    const claimed = await store.get("EV_1");
+    await store.save({ ...claimed!, status: "processed" });
+
+    now += leaseMs * 2;
+    expect(await store.claim(event("EV_1"))).toBe(false);
+  });
+
+  it("should let a retry take over a failed event", async () => {
+    await store.claim(event("EV_1"));
+    const claimed = await store.get("EV_1");
+    await store.save({ ...claimed!, status: "failed", error: "boom" });
+
+    expect(await store.claim(event("EV_1"))).toBe(true);
+    expect((await store.get("EV_1"))?.attempts).toBe(2);
+  });
+
+  it("should let a retry take over a claim once its lease expired", async () => {
+    await store.claim(event("EV_1"));
+
+    now += leaseMs - 1;
+    expect(await store.claim(event("EV_1"))).toBe(false);
+
+    now += 1;
+    expect(await store.claim(event("EV_1"))).toBe(true);
+    expect(await store.get("EV_1")).toEqual(
+      expect.objectContaining({ attempts: 2, leaseExpiresAt: now + leaseMs })
+    );
+  });
+
+  it("should list a room's events newest first", async () => {
+    await store.claim(event("EV_1"));
+    now += 1000;
+    await store.claim(event("EV_2", { receivedAt: now }));
+    await store.claim(event("EV_3", { roomName: "room-2" }));
+
+    const events = await store.listByRoom("room-1", 10);
+
+    expect(events.map((e) => e.id)).toEqual(["EV_2", "EV_1"]);
+    expect(await store.listByRoom("room-1", 1)).toHaveLength(1);
+  });
+
+  it("should drop events past the retention window", async () => {
+    await store.claim(event("EV_old"));
+
+    now += retentionMs + 1;
+    await store.claim(event("EV_new", { receivedAt: now }));
+
+    expect(await store.get("EV_old")).toBeNull();
+    expect(await store.get("EV_new")).not.toBeNull();
+  });
+});
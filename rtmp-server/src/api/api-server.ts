@@ -0,0 +1,279 @@
+import Fastify, {
+  FastifyInstance,
+  FastifyReply,
+  FastifyRequest,
+} from "fastify";
+import { BaseStorage } from "../storage/base-storage";
+import { IStreamKeyRecord } from "../keys/base-key-store";
+import { StreamKeyService } from "../keys/stream-key-service";
+import { IStreamHealth } from "../health/stream-health-collector";
+import { RtmpMetrics } from "../metrics/rtmp-metrics";
+import { IViewerStats } from "../viewers/viewer-analytics";
+import { JobStatus } from "../jobs/base-job-store";
+import { JobQueue } from "../jobs/job-queue";
+import { logger } from "../utils/logger";
+
+export interface ILiveStreamInfo {
+  streamKey: string;
+  sessionId: string;
+  app: string;
+  // Backups are standby publishers under DUPLICATE_PUBLISHER_POLICY=backup
+  role: "primary" | "backup";
+  // Ingest URL used: `/live/<key>` or `/live/<key>_backup` (failover)
+  ingest: "main" | "backup";
+  // Latest live snapshot, refreshed every THUMBNAIL_LIVE_INTERVAL_MS
+  thumbnail?: { url: string; takenAt: Date };
+  ip?: string;
+  connectedAt?: Date;
+  bitrate?: number;
+  video?: {
+    codec: string;
+    width: number;
+    height: number;
+    fps: number;
+  };
+  audio?: {
+    codec: string;
+    samplerate: number;
+    channels: number;
+  };
+}
+
+// The parts of RTMPServer the control API is allowed to drive
+export interface IStreamController {
+  listLiveStreams(): ILiveStreamInfo[];
+  kickPublisher(streamKey: string): boolean;
+  // All tracked publishers when no key is given
+  getStreamHealth(streamKey?: string): IStreamHealth[];
+  // Audience of live broadcasts, all of them when no key is given
+  getViewerStats(streamKey?: string): IViewerStats[];
+  // Summaries of ended broadcasts, newest first
+  listViewerSummaries(streamKey: string): Promise<IViewerStats[]>;
+}
+
+export class ApiServer {
+  private app: FastifyInstance;
+  private port: number;
+
+  constructor(
+    private controller: IStreamController,
+    private storage: BaseStorage,
+    private streamKeys: StreamKeyService,
+    private metrics: RtmpMetrics,
+    private jobs: JobQueue
+  ) {
+    this.port = parseInt(process.env.FASTIFY_PORT || "8888");
+    this.app = Fastify({ logger: false });
+    this.app.addHook("onRequest", this.authenticate.bind(this));
+    this.registerRoutes();
+  }
+
+  getInstance(): FastifyInstance {
+    return this.app;
+  }
+
+  async start(): Promise<void> {
+    await this.app.listen({ port: this.port, host: "0.0.0.0" });
+    logger.info(`Control API listening on port ${this.port}`);
+  }
+
+  async stop(): Promise<void> {
+    await this.app.close();
+  }
+
+  // Same basic auth credentials as the NMS admin API (Prometheus scrapes
+  // with basic_auth too); playback is public. Keyed on the matched route:
+  // the raw URL may be percent-encoded or carry a query string.
+  private async authenticate(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<void> {
+    const route = request.routeOptions.url || "";
+    if (!route.startsWith("/api/") && route !== "/metrics") return;
+
+    const user = process.env.API_USER || "admin";
+    const pass = process.env.API_PASS || "admin";
+    const expected = `Basic ${Buffer.from(`${user}:${pass}`).toString(
+      "base64"
+    )}`;
+
+    if (request.headers.authorization !== expected) {
+      reply
+        .code(401)
+        .header("WWW-Authenticate", 'Basic realm="rtmp-server"')
+        .send({ error: "Unauthorized" });
+    }
+  }
+
+  private registerRoutes(): void {
+    this.app.get("/metrics", async (request, reply) => {
+      reply.type(this.metrics.registry.contentType);
+      return this.metrics.render();
+    });
+
+    this.app.get("/api/streams", async () => {
+      return { streams: this.controller.listLiveStreams() };
+    });
+
+    this.app.delete<{ Params: { streamKey: string } }>(
+      "/api/streams/:streamKey",
+      async (request, reply) => {
+        const { streamKey } = request.params;
+        if (!this.controller.kickPublisher(streamKey)) {
+          return reply.code(404).send({ error: "Stream not found" });
+        }
+        logger.info(`Publisher kicked via API: ${streamKey}`);
+        return { success: true, streamKey };
+      }
+    );
+
+    this.app.get("/api/health", async () => {
+      return { streams: this.controller.getStreamHealth() };
+    });
+
+    this.app.get<{ Params: { streamKey: string } }>(
+      "/api/health/:streamKey",
+      async (request, reply) => {
+        const sessions = this.controller.getStreamHealth(
+          request.params.streamKey
+        );
+        if (sessions.length === 0) {
+          return reply.code(404).send({ error: "Stream not found" });
+        }
+        return { streamKey: request.params.streamKey, sessions };
+      }
+    );
+
+    this.app.get("/api/viewers", async () => {
+      return { streams: this.controller.getViewerStats() };
+    });
+
+    this.app.get<{ Params: { streamKey: string } }>(
+      "/api/viewers/:streamKey",
+      async (request) => {
+        const { streamKey } = request.params;
+        return {
+          streamKey,
+          live: this.controller.getViewerStats(streamKey),
+          history: await this.controller.listViewerSummaries(streamKey),
+        };
+      }
+    );
+
+    this.app.get<{ Querystring: { streamKey?: string } }>(
+      "/api/recordings",
+      async (request) => {
+        const recordings = await this.storage.listRecordings(
+          request.query.streamKey
+        );
+        return { recordings };
+      }
+    );
+
+    // Identifiers are file names locally but full object keys on S3
+    this.app.delete<{ Params: { "*": string } }>(
+      "/api/recordings/*",
+      async (request, reply) => {
+        const identifier = request.params["*"];
+        if (!identifier || identifier.split("/").includes("..")) {
+          return reply.code(400).send({ error: "Invalid recording id" });
+        }
+        if (!(await this.storage.deleteRecording(identifier))) {
+          return reply.code(404).send({ error: "Recording not found" });
+        }
+        return { success: true, identifier };
+      }
+    );
+
+    this.app.get("/api/storage/info", async () => {
+      return this.storage.getStorageInfo();
+    });
+
+    this.registerStreamKeyRoutes();
+    this.registerJobRoutes();
+  }
+
+  private registerJobRoutes(): void {
+    this.app.get<{
+      Querystring: { status?: JobStatus; type?: string; streamKey?: string };
+    }>("/api/jobs", async (request) => {
+      const { streamKey, ...filter } = request.query;
+      const jobs = this.jobs
+        .list(filter)
+        .filter((job) => !streamKey || job.payload?.streamKey === streamKey);
+      return { jobs };
+    });
+
+    this.app.get<{ Params: { id: string } }>(
+      "/api/jobs/:id",
+      async (request, reply) => {
+        const job = this.jobs.get(request.params.id);
+        if (!job) {
+          return reply.code(404).send({ error: "Job not found" });
+        }
+        return { job };
+      }
+    );
+
+    // Only failed jobs can be retried
+    this.app.post<{ Params: { id: string } }>(
+      "/api/jobs/:id/retry",
+      async (request, reply) => {
+        const job = await this.jobs.retry(request.params.id);
+        if (!job) {
+          return reply.code(404).send({ error: "Failed job not found" });
+        }
+        logger.info(`Job retried via API: ${job.type} ${job.id}`);
+        return { job };
+      }
+    );
+  }
+
+  private registerStreamKeyRoutes(): void {
+    // The hash never leaves the server
+    const toResponse = ({ keyHash, ...record }: IStreamKeyRecord) => record;
+
+    this.app.get("/api/keys", async () => {
+      return { keys: this.streamKeys.list().map(toResponse) };
+    });
+
+    this.app.post<{ Body: { channelId?: string; label?: string } }>(
+      "/api/keys",
+      async (request, reply) => {
+        try {
+          const { streamKey, record } = await this.streamKeys.create(
+            request.body || {}
+          );
+          return reply.code(201).send({ streamKey, key: toResponse(record) });
+        } catch (error) {
+          return reply.code(400).send({ error: error.message });
+        }
+      }
+    );
+
+    this.app.post<{ Params: { id: string } }>(
+      "/api/keys/:id/rotate",
+      async (request, reply) => {
+        const issued = await this.streamKeys.rotate(request.params.id);
+        if (!issued) {
+          return reply.code(404).send({ error: "Stream key not found" });
+        }
+        // Whoever is live with the old key has to reconnect with the new one
+        this.controller.kickPublisher(issued.record.channelId);
+        return { streamKey: issued.streamKey, key: toResponse(issued.record) };
+      }
+    );
+
+    this.app.delete<{ Params: { id: string } }>(
+      "/api/keys/:id",
+      async (request, reply) => {
+        const record = await this.streamKeys.revoke(request.params.id);
+        if (!record) {
+          return reply.code(404).send({ error: "Stream key not found" });
+        }
+        this.controller.kickPublisher(record.channelId);
+        return { success: true, key: toResponse(record) };
+      }
+    );
+  }
+}
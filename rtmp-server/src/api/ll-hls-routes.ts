@@ -0,0 +1,124 @@
+import { FastifyInstance, FastifyReply } from "fastify";
+import fs from "fs-extra";
+import path from "path";
+import { LowLatencyHlsPackager } from "../transcoding/ll-hls-packager";
+
+interface IStreamParams {
+  app: string;
+  stream: string;
+}
+
+interface IBlockingQuery {
+  _HLS_msn?: string;
+  _HLS_part?: string;
+}
+
+// How far past the live edge a preload-hinted part may be requested
+const MAX_PART_LOOKAHEAD = 1;
+
+/**
+ * Public LL-HLS playback routes under /ll/:app/:stream/.
+ *
+ * Playlist requests carrying `_HLS_msn` / `_HLS_part` are held until that
+ * part exists, and requests for the preload-hinted part are held until
+ * ffmpeg has written it, as required for LL-HLS blocking reloads.
+ */
+export function registerLowLatencyRoutes(
+  app: FastifyInstance,
+  packager: LowLatencyHlsPackager
+): void {
+  const setPlaybackHeaders = (reply: FastifyReply, contentType: string) =>
+    reply
+      .header("Access-Control-Allow-Origin", "*")
+      .header("Cache-Control", "no-cache")
+      .type(contentType);
+
+  app.get<{ Params: IStreamParams; Querystring: IBlockingQuery }>(
+    "/ll/:app/:stream/index.m3u8",
+    async (request, reply) => {
+      const { app: appName, stream } = request.params;
+      const playlist = packager.getPlaylist(`/${appName}/${stream}`);
+      if (!playlist) {
+        return reply.code(404).send({ error: "Stream not found" });
+      }
+
+      const { _HLS_msn, _HLS_part } = request.query;
+      if (_HLS_msn !== undefined) {
+        const msn = parseInt(_HLS_msn);
+        const part = _HLS_part !== undefined ? parseInt(_HLS_part) : undefined;
+        if (isNaN(msn) || (part !== undefined && isNaN(part))) {
+          return reply.code(400).send({ error: "Invalid blocking request" });
+        }
+
+        const target = playlist.partIndexFor(msn, part);
+        // Spec: reject requests more than two segments ahead of the edge
+        if (
+          target >
+          playlist.lastPartIndex + 2 * playlist.partsPerSegment + 1
+        ) {
+          return reply
+            .code(400)
+            .send({ error: "Requested part too far ahead" });
+        }
+        await playlist.waitForPart(target, playlist.blockingTimeoutMs);
+      }
+
+      setPlaybackHeaders(reply, "application/vnd.apple.mpegurl");
+      return playlist.render();
+    }
+  );
+
+  app.get<{ Params: IStreamParams & { file: string } }>(
+    "/ll/:app/:stream/:file",
+    async (request, reply) => {
+      const { app: appName, stream, file } = request.params;
+      const streamPath = `/${appName}/${stream}`;
+      const playlist = packager.getPlaylist(streamPath);
+      const outputDir = packager.getOutputDir(streamPath);
+      if (!playlist || !outputDir) {
+        return reply.code(404).send({ error: "Stream not found" });
+      }
+
+      if (file === "init.mp4") {
+        if (!(await fs.pathExists(path.join(outputDir, file)))) {
+          return reply.code(404).send({ error: "Not ready" });
+        }
+        setPlaybackHeaders(reply, "video/mp4");
+        return fs.readFile(path.join(outputDir, file));
+      }
+
+      const partMatch = /^part(\d+)\.m4s$/.exec(file);
+      if (partMatch) {
+        const index = parseInt(partMatch[1]);
+        if (index > playlist.lastPartIndex + MAX_PART_LOOKAHEAD) {
+          return reply.code(404).send({ error: "Part not found" });
+        }
+        const available = await playlist.waitForPart(
+          index,
+          playlist.blockingTimeoutMs
+        );
+        // Parts that already slid out of the window are gone from disk too
+        if (!available || !playlist.hasPart(index)) {
+          return reply.code(404).send({ error: "Part not found" });
+        }
+        setPlaybackHeaders(reply, "video/iso.segment");
+        return fs.readFile(path.join(outputDir, file));
+      }
+
+      const segmentMatch = /^seg(\d+)\.m4s$/.exec(file);
+      if (segmentMatch) {
+        const parts = playlist.getSegmentParts(parseInt(segmentMatch[1]));
+        if (!parts) {
+          return reply.code(404).send({ error: "Segment not found" });
+        }
+        const buffers = await Promise.all(
+          parts.map((part) => fs.readFile(path.join(outputDir, part.uri)))
+        );
+        setPlaybackHeaders(reply, "video/iso.segment");
+        return Buffer.concat(buffers);
+      }
+
+      return reply.code(404).send({ error: "Not found" });
+    }
+  );
+}
@@ -0,0 +1,48 @@
+import { FastifyInstance } from "fastify";
+import fs from "fs-extra";
+import path from "path";
+import { LocalStorage } from "../storage/local-storage";
+
+interface IThumbnailParams {
+  streamKey: string;
+  file: string;
+}
+
+const THUMBNAIL_CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".vtt": "text/vtt",
+};
+
+/**
+ * Public routes for thumbnails kept in local storage: live snapshots,
+ * recording posters, sprite sheets and their WebVTT indexes. NMS can't
+ * serve them, its media root being the temp directory. S3 hands out
+ * object URLs instead.
+ */
+export function registerThumbnailRoutes(
+  app: FastifyInstance,
+  storage: LocalStorage
+): void {
+  app.get<{ Params: IThumbnailParams }>(
+    "/recordings/thumbnails/:streamKey/:file",
+    async (request, reply) => {
+      const { streamKey, file } = request.params;
+      const filePath = storage.getThumbnailFile(streamKey, file);
+      if (!filePath || !(await fs.pathExists(filePath))) {
+        return reply.code(404).send({ error: "Thumbnail not found" });
+      }
+
+      return (
+        reply
+          .header("Access-Control-Allow-Origin", "*")
+          // Live snapshots are overwritten in place
+          .header("Cache-Control", "no-cache")
+          .type(
+            THUMBNAIL_CONTENT_TYPES[path.extname(file)] ||
+              "application/octet-stream"
+          )
+          .send(fs.createReadStream(filePath))
+      );
+    }
+  );
+}
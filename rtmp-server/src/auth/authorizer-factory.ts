@@ -0,0 +1,54 @@
+import { BaseStreamAuthorizer } from "./base-authorizer";
+import { HttpStreamAuthorizer } from "./http-authorizer";
+import { StaticStreamAuthorizer } from "./static-authorizer";
+import { ManagedKeyAuthorizer } from "./managed-key-authorizer";
+import { StreamKeyService } from "../keys/stream-key-service";
+import { logger } from "../utils/logger";
+
+export class AuthorizerFactory {
+  // Returns null when stream authentication is disabled
+  static createAuthorizer(
+    streamKeys?: StreamKeyService
+  ): BaseStreamAuthorizer | null {
+    const authType = process.env.STREAM_AUTH_TYPE || "none";
+
+    switch (authType.toLowerCase()) {
+      case "none":
+        logger.info("Stream authentication disabled");
+        return null;
+
+      case "http":
+        logger.info("Using HTTP stream authentication");
+        return new HttpStreamAuthorizer({
+          url:
+            process.env.STREAM_AUTH_URL ||
+            `${process.env.SERVER_API_URL}/stream/auth`,
+          timeoutMs: parseInt(process.env.STREAM_AUTH_TIMEOUT_MS || "3000"),
+          cacheTtlMs: parseInt(process.env.STREAM_AUTH_CACHE_TTL_MS || "30000"),
+          cacheMaxEntries: parseInt(
+            process.env.STREAM_AUTH_CACHE_MAX_ENTRIES || "1000"
+          ),
+          failOpen: process.env.STREAM_AUTH_FAIL_OPEN === "true",
+        });
+
+      case "static":
+        logger.info("Using static stream authentication");
+        return StaticStreamAuthorizer.fromFile(
+          process.env.STREAM_AUTH_KEYS_FILE || "./stream-keys.json"
+        );
+
+      case "keys":
+        if (!streamKeys) {
+          throw new Error("STREAM_AUTH_TYPE=keys needs the stream key service");
+        }
+        logger.info("Using managed stream key authentication");
+        return new ManagedKeyAuthorizer(streamKeys);
+
+      default:
+        logger.warn(
+          `Unknown stream auth type: ${authType}, rejecting all streams`
+        );
+        return new StaticStreamAuthorizer();
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export interface IStreamAuthRequest {
+  app: string;
+  streamKey: string;
+  args: Record<string, string>;
+  ip?: string;
+}
+
+export interface IStreamAuthResult {
+  allowed: boolean;
+  reason?: string;
+}
+
+export abstract class BaseStreamAuthorizer {
+  abstract authorize(request: IStreamAuthRequest): Promise<IStreamAuthResult>;
+}
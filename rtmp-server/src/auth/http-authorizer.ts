@@ -0,0 +1,112 @@
+import axios from "axios";
+import {
+  BaseStreamAuthorizer,
+  IStreamAuthRequest,
+  IStreamAuthResult,
+} from "./base-authorizer";
+import { logger } from "../utils/logger";
+
+export interface IHttpAuthorizerOptions {
+  url: string;
+  timeoutMs?: number;
+  cacheTtlMs?: number;
+  cacheMaxEntries?: number;
+  failOpen?: boolean;
+}
+
+interface ICacheEntry {
+  result: IStreamAuthResult;
+  expiresAt: number;
+}
+
+/**
+ * Validates stream keys against an external HTTP endpoint.
+ *
+ * The endpoint receives `{ app, streamKey, args, ip }` as JSON. Any 2xx
+ * response allows the stream unless its body has `allowed: false`; 4xx
+ * responses deny it. Network errors, timeouts and 5xx responses fall back
+ * to the fail-open/fail-closed policy and are never cached. Expired
+ * decisions are dropped, and the oldest go first once the cache is full.
+ */
+export class HttpStreamAuthorizer extends BaseStreamAuthorizer {
+  private url: string;
+  private timeoutMs: number;
+  private cacheTtlMs: number;
+  private cacheMaxEntries: number;
+  private failOpen: boolean;
+  private cache = new Map<string, ICacheEntry>();
+
+  constructor(options: IHttpAuthorizerOptions) {
+    super();
+    this.url = options.url;
+    this.timeoutMs = options.timeoutMs ?? 3000;
+    this.cacheTtlMs = options.cacheTtlMs ?? 30000;
+    this.cacheMaxEntries = options.cacheMaxEntries ?? 1000;
+    this.failOpen = options.failOpen ?? false;
+  }
+
+  async authorize(request: IStreamAuthRequest): Promise<IStreamAuthResult> {
+    const cacheKey = this.getCacheKey(request);
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      if (cached.expiresAt > Date.now()) return cached.result;
+      this.cache.delete(cacheKey);
+    }
+
+    try {
+      const response = await axios.post(this.url, request, {
+        timeout: this.timeoutMs,
+        validateStatus: (status) => status < 500,
+      });
+
+      const result: IStreamAuthResult =
+        response.status >= 200 &&
+        response.status < 300 &&
+        response.data?.allowed !== false
+          ? { allowed: true }
+          : {
+              allowed: false,
+              reason: response.data?.reason || `HTTP ${response.status}`,
+            };
+
+      if (this.cacheTtlMs > 0) {
+        this.cacheResult(cacheKey, result);
+      }
+      return result;
+    } catch (error) {
+      logger.error(`Stream auth API unavailable (${this.url}):`, error.message);
+      return this.failOpen
+        ? { allowed: true, reason: "Auth API unavailable, failing open" }
+        : { allowed: false, reason: "Auth API unavailable" };
+    }
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private cacheResult(cacheKey: string, result: IStreamAuthResult): void {
+    if (this.cache.size >= this.cacheMaxEntries) {
+      const now = Date.now();
+      for (const [key, entry] of this.cache) {
+        if (entry.expiresAt <= now) this.cache.delete(key);
+      }
+    }
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.cache.size >= this.cacheMaxEntries && this.cache.size > 0) {
+      this.cache.delete(this.cache.keys().next().value);
+    }
+    this.cache.set(cacheKey, {
+      result,
+      expiresAt: Date.now() + this.cacheTtlMs,
+    });
+  }
+
+  private getCacheKey(request: IStreamAuthRequest): string {
+    const args = Object.keys(request.args || {})
+      .sort()
+      .map((key) => `${key}=${request.args[key]}`)
+      .join("&");
+    return `${request.app}/${request.streamKey}?${args}`;
+  }
+}
@@ -0,0 +1,20 @@
+import {
+  BaseStreamAuthorizer,
+  IStreamAuthRequest,
+  IStreamAuthResult,
+} from "./base-authorizer";
+import { StreamKeyService } from "../keys/stream-key-service";
+
+// Only keys issued through the stream key API may publish
+export class ManagedKeyAuthorizer extends BaseStreamAuthorizer {
+  constructor(private streamKeys: StreamKeyService) {
+    super();
+  }
+
+  async authorize(request: IStreamAuthRequest): Promise<IStreamAuthResult> {
+    if (!this.streamKeys.resolve(request.streamKey)) {
+      return { allowed: false, reason: "Unknown or revoked stream key" };
+    }
+    return { allowed: true };
+  }
+}
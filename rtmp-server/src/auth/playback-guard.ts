@@ -0,0 +1,94 @@
+import { IStreamAuthResult } from "./base-authorizer";
+import { verifyPlaybackToken } from "./playback-token";
+import { logger } from "../utils/logger";
+
+// /<app>/<stream>/..., the HLS/DASH files served for a stream (LL-HLS
+// under /ll). FLV goes through NMS sessions and is checked in prePlay.
+const MEDIA_REQUEST =
+  /^(?:\/ll)?\/([^/]+)\/([^/]+)\/.+\.(m3u8|mpd|ts|m4s|mp4|aac)$/;
+
+export interface IMediaRequestCheck extends IStreamAuthResult {
+  streamPath: string;
+  token?: string;
+  // Playlists and manifests are rewritten so their segments carry the token
+  kind: "playlist" | "manifest" | "segment";
+}
+
+// Appends the token to every URI in an HLS playlist
+export function tokenizePlaylist(playlist: string, token: string): string {
+  return playlist
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("#")) {
+        return line.replace(
+          /URI="([^"]+)"/g,
+          (_, uri) => `URI="${withToken(uri, token)}"`
+        );
+      }
+      return line.trim() ? withToken(line.trim(), token) : line;
+    })
+    .join("\n");
+}
+
+// Appends the token to a DASH manifest's segment templates
+export function tokenizeManifest(manifest: string, token: string): string {
+  return manifest.replace(
+    /\b(initialization|media)="([^"]+)"/g,
+    (_, attribute, uri) => `${attribute}="${withToken(uri, token)}"`
+  );
+}
+
+function withToken(uri: string, token: string): string {
+  const separator = uri.includes("?") ? "&" : "?";
+  return `${uri}${separator}token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Playback authorization with signed tokens, checked for players in
+ * prePlay and for every HLS/DASH request.
+ */
+export class PlaybackGuard {
+  constructor(private secret: string) {}
+
+  // Returns null when playback is public
+  static fromEnv(): PlaybackGuard | null {
+    if (process.env.PLAYBACK_AUTH_ENABLED !== "true") {
+      logger.info("Playback authorization disabled");
+      return null;
+    }
+    if (!process.env.PLAYBACK_TOKEN_SECRET) {
+      throw new Error("PLAYBACK_AUTH_ENABLED needs PLAYBACK_TOKEN_SECRET");
+    }
+    logger.info("Playback requires signed tokens");
+    return new PlaybackGuard(process.env.PLAYBACK_TOKEN_SECRET);
+  }
+
+  checkPlayer(
+    streamPath: string,
+    args: Record<string, string>,
+    ip: string
+  ): IStreamAuthResult {
+    return verifyPlaybackToken(this.secret, args?.token, streamPath, ip);
+  }
+
+  // Null when the URL is not a stream's media file
+  checkRequest(url: string, ip: string): IMediaRequestCheck | null {
+    const { pathname, searchParams } = new URL(url, "http://localhost");
+    const match = MEDIA_REQUEST.exec(pathname);
+    if (!match) return null;
+
+    const streamPath = `/${match[1]}/${match[2]}`;
+    const token = searchParams.get("token") || undefined;
+    return {
+      ...verifyPlaybackToken(this.secret, token, streamPath, ip),
+      streamPath,
+      token,
+      kind:
+        match[3] === "m3u8"
+          ? "playlist"
+          : match[3] === "mpd"
+          ? "manifest"
+          : "segment",
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import { IStreamAuthResult } from "./base-authorizer";
+
+/**
+ * Signed playback tokens, issued by the backend with the same
+ * PLAYBACK_TOKEN_SECRET. Format: `<expiresAt>.<1 if IP-bound, else 0>.<sig>`
+ * where sig is the base64url HMAC-SHA256 of `<streamPath>:<expiresAt>:<ip>`.
+ */
+export interface IPlaybackGrant {
+  streamPath: string;
+  // Unix seconds
+  expiresAt: number;
+  // Only this client may use the token
+  ip?: string;
+}
+
+// IPv4 clients show up as ::ffff:a.b.c.d on dual-stack sockets
+export function normalizeIp(ip = ""): string {
+  return ip.replace(/^::ffff:/, "");
+}
+
+function sign(
+  secret: string,
+  streamPath: string,
+  expiresAt: number,
+  ip: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${streamPath}:${expiresAt}:${ip}`)
+    .digest("base64url");
+}
+
+export function signPlaybackToken(
+  secret: string,
+  grant: IPlaybackGrant
+): string {
+  const ip = grant.ip ? normalizeIp(grant.ip) : "";
+  const signature = sign(secret, grant.streamPath, grant.expiresAt, ip);
+  return `${grant.expiresAt}.${ip ? 1 : 0}.${signature}`;
+}
+
+export function verifyPlaybackToken(
+  secret: string,
+  token: string | undefined,
+  streamPath: string,
+  ip: string,
+  now = Date.now()
+): IStreamAuthResult {
+  const [expires, bound, signature] = (token || "").split(".");
+  const expiresAt = parseInt(expires);
+  if (!signature || isNaN(expiresAt)) {
+    return { allowed: false, reason: "missing or malformed token" };
+  }
+
+  const expected = Buffer.from(
+    sign(secret, streamPath, expiresAt, bound === "1" ? normalizeIp(ip) : "")
+  );
+  const actual = Buffer.from(signature);
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return { allowed: false, reason: "invalid signature" };
+  }
+  if (expiresAt * 1000 < now) {
+    return { allowed: false, reason: "token expired" };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,54 @@
+import fs from "fs-extra";
+import {
+  BaseStreamAuthorizer,
+  IStreamAuthRequest,
+  IStreamAuthResult,
+} from "./base-authorizer";
+import { logger } from "../utils/logger";
+
+// Stream key -> required `?token=` value, or null when the key alone is enough
+export type StaticStreamKeys = Record<string, string | null>;
+
+export class StaticStreamAuthorizer extends BaseStreamAuthorizer {
+  private keys: Map<string, string | null>;
+
+  constructor(keys: StaticStreamKeys = {}) {
+    super();
+    this.keys = new Map(Object.entries(keys));
+  }
+
+  static fromFile(filePath: string): StaticStreamAuthorizer {
+    try {
+      const keys = fs.readJsonSync(filePath) as StaticStreamKeys | string[];
+      const entries = Array.isArray(keys)
+        ? Object.fromEntries(keys.map((key) => [key, null]))
+        : keys;
+      logger.info(`Loaded ${Object.keys(entries).length} stream keys`);
+      return new StaticStreamAuthorizer(entries);
+    } catch (error) {
+      logger.error(`Failed to load stream keys from ${filePath}:`, error);
+      throw error;
+    }
+  }
+
+  addKey(streamKey: string, token: string | null = null): void {
+    this.keys.set(streamKey, token);
+  }
+
+  removeKey(streamKey: string): boolean {
+    return this.keys.delete(streamKey);
+  }
+
+  async authorize(request: IStreamAuthRequest): Promise<IStreamAuthResult> {
+    if (!this.keys.has(request.streamKey)) {
+      return { allowed: false, reason: "Unknown stream key" };
+    }
+
+    const token = this.keys.get(request.streamKey);
+    if (token && request.args?.token !== token) {
+      return { allowed: false, reason: "Invalid token" };
+    }
+
+    return { allowed: true };
+  }
+}
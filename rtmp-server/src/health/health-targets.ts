@@ -0,0 +1,118 @@
+export interface IHealthTargets {
+  // Longest acceptable GOP; players and HLS segmenting suffer above this
+  maxKeyframeIntervalSec: number;
+  // 0 disables the check
+  minBitrateKbps: number;
+  // Measured fps below this share of the declared fps is a warning
+  minFpsRatio: number;
+  // Frames missing from the timeline, as a share of frames expected
+  maxDroppedFramesPct: number;
+}
+
+export interface IStreamHealthSample {
+  timestamp: Date;
+  bitrateKbps: number;
+  video?: {
+    codec: string;
+    profile?: string;
+    width: number;
+    height: number;
+    // From the encoder's metadata, or NMS's 5 second estimate
+    declaredFps: number;
+    fps: number;
+    keyframeIntervalSec?: number;
+    // Both counted over the sample interval
+    frames: number;
+    droppedFrames: number;
+  };
+  audio?: {
+    codec: string;
+    sampleRate: number;
+    channels: number;
+  };
+}
+
+export type HealthWarningCode =
+  | "keyframe_interval"
+  | "low_bitrate"
+  | "low_fps"
+  | "dropped_frames";
+
+export interface IHealthWarning {
+  code: HealthWarningCode;
+  message: string;
+  value: number;
+  target: number;
+}
+
+export function loadHealthTargets(): IHealthTargets {
+  return {
+    maxKeyframeIntervalSec: parseFloat(
+      process.env.HEALTH_MAX_KEYFRAME_INTERVAL_SEC || "4"
+    ),
+    minBitrateKbps: parseInt(process.env.HEALTH_MIN_BITRATE_KBPS || "0"),
+    minFpsRatio: parseFloat(process.env.HEALTH_MIN_FPS_RATIO || "0.9"),
+    maxDroppedFramesPct: parseFloat(
+      process.env.HEALTH_MAX_DROPPED_FRAMES_PCT || "2"
+    ),
+  };
+}
+
+export function evaluateHealth(
+  sample: IStreamHealthSample,
+  targets: IHealthTargets
+): IHealthWarning[] {
+  const warnings: IHealthWarning[] = [];
+  const video = sample.video;
+
+  if (
+    video?.keyframeIntervalSec !== undefined &&
+    video.keyframeIntervalSec > targets.maxKeyframeIntervalSec
+  ) {
+    warnings.push({
+      code: "keyframe_interval",
+      message: `Keyframe interval ${video.keyframeIntervalSec}s exceeds ${targets.maxKeyframeIntervalSec}s`,
+      value: video.keyframeIntervalSec,
+      target: targets.maxKeyframeIntervalSec,
+    });
+  }
+
+  if (
+    targets.minBitrateKbps > 0 &&
+    sample.bitrateKbps < targets.minBitrateKbps
+  ) {
+    warnings.push({
+      code: "low_bitrate",
+      message: `Bitrate ${sample.bitrateKbps}kbps below ${targets.minBitrateKbps}kbps`,
+      value: sample.bitrateKbps,
+      target: targets.minBitrateKbps,
+    });
+  }
+
+  if (video?.declaredFps > 0) {
+    const minFps = video.declaredFps * targets.minFpsRatio;
+    if (video.fps < minFps) {
+      warnings.push({
+        code: "low_fps",
+        message: `Receiving ${video.fps}fps of ${video.declaredFps}fps declared`,
+        value: video.fps,
+        target: minFps,
+      });
+    }
+
+    const droppedPct =
+      video.droppedFrames > 0
+        ? (video.droppedFrames / (video.droppedFrames + video.frames)) * 100
+        : 0;
+    if (droppedPct > targets.maxDroppedFramesPct) {
+      warnings.push({
+        code: "dropped_frames",
+        message: `${video.droppedFrames} frames missing from the timeline`,
+        value: Math.round(droppedPct * 10) / 10,
+        target: targets.maxDroppedFramesPct,
+      });
+    }
+  }
+
+  return warnings;
+}
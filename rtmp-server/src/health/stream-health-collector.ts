@@ -0,0 +1,243 @@
+import { EventEmitter } from "events";
+import {
+  evaluateHealth,
+  IHealthTargets,
+  IHealthWarning,
+  IStreamHealthSample,
+} from "./health-targets";
+import { logger } from "../utils/logger";
+
+export interface IHealthCollectorOptions {
+  sampleIntervalMs: number;
+  // Samples kept per session
+  historySize: number;
+}
+
+export interface IStreamHealth {
+  sessionId: string;
+  streamKey: string;
+  current?: IStreamHealthSample;
+  warnings: IHealthWarning[];
+  history: IStreamHealthSample[];
+}
+
+export interface IHealthWarningEvent extends IHealthWarning {
+  sessionId: string;
+  streamKey: string;
+}
+
+// Reset after every sample, except the last-seen clocks
+interface IPacketCounters {
+  videoFrames: number;
+  droppedFrames: number;
+  maxKeyframeIntervalMs: number;
+  lastVideoClock?: number;
+  lastKeyframeClock?: number;
+}
+
+interface ITrackedSession extends IStreamHealth {
+  counters: IPacketCounters;
+  sampledAt: number;
+  untap: () => void;
+}
+
+const AVC = 7;
+const HEVC = 12;
+
+// Keyframes and timestamp gaps from one RTMP video message, the same way
+// NMS's rtmpVideoHandler reads its header
+function countVideoPacket(
+  counters: IPacketCounters,
+  packet: any,
+  declaredFps: number
+): void {
+  const payload: Buffer = packet.payload;
+  if (!payload || packet.header.length < 2) return;
+
+  const isExHeader = ((payload[0] >> 4) & 0b1000) !== 0;
+  const frameType = (payload[0] >> 4) & 0b0111;
+  const codecId = payload[0] & 0x0f;
+  const isSequenceHeader = isExHeader
+    ? (payload[0] & 0x0f) === 0
+    : (codecId === AVC || codecId === HEVC) && payload[1] === 0;
+  if (isSequenceHeader) return;
+
+  const clock: number = packet.clock;
+  if (counters.lastVideoClock !== undefined && declaredFps > 0) {
+    const frameMs = 1000 / declaredFps;
+    const gap = clock - counters.lastVideoClock;
+    if (gap > frameMs * 1.5) {
+      counters.droppedFrames += Math.round(gap / frameMs) - 1;
+    }
+  }
+  counters.lastVideoClock = clock;
+  counters.videoFrames++;
+
+  if (frameType === 1) {
+    if (counters.lastKeyframeClock !== undefined) {
+      counters.maxKeyframeIntervalMs = Math.max(
+        counters.maxKeyframeIntervalMs,
+        clock - counters.lastKeyframeClock
+      );
+    }
+    counters.lastKeyframeClock = clock;
+  }
+}
+
+/**
+ * Samples publisher health from NMS session objects: bitrate, codecs and
+ * resolution come straight from the session, frame rate, keyframe interval
+ * and timeline gaps from a tap on its video handler. Emits `warning` when
+ * a stream starts missing one of the configured targets.
+ */
+export class StreamHealthCollector extends EventEmitter {
+  private sessions = new Map<string, ITrackedSession>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private getSession: (sessionId: string) => any,
+    private targets: IHealthTargets,
+    private options: IHealthCollectorOptions
+  ) {
+    super();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(
+      () => this.sampleAll(),
+      this.options.sampleIntervalMs
+    );
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  track(sessionId: string, streamKey: string): void {
+    const session = this.getSession(sessionId);
+    if (!session || this.sessions.has(sessionId)) return;
+
+    const counters: IPacketCounters = {
+      videoFrames: 0,
+      droppedFrames: 0,
+      maxKeyframeIntervalMs: 0,
+    };
+    const videoHandler = session.rtmpVideoHandler;
+    session.rtmpVideoHandler = function (...args: unknown[]) {
+      countVideoPacket(counters, this.parserPacket, this.videoFps);
+      return videoHandler.apply(this, args);
+    };
+
+    this.sessions.set(sessionId, {
+      sessionId,
+      streamKey,
+      warnings: [],
+      history: [],
+      counters,
+      sampledAt: Date.now(),
+      untap: () => {
+        session.rtmpVideoHandler = videoHandler;
+      },
+    });
+  }
+
+  untrack(sessionId: string): void {
+    const tracked = this.sessions.get(sessionId);
+    if (!tracked) return;
+    tracked.untap();
+    this.sessions.delete(sessionId);
+  }
+
+  list(): IStreamHealth[] {
+    return Array.from(this.sessions.values()).map(toHealth);
+  }
+
+  get(streamKey: string): IStreamHealth[] {
+    return this.list().filter((health) => health.streamKey === streamKey);
+  }
+
+  sampleAll(now = Date.now()): void {
+    for (const tracked of this.sessions.values()) {
+      const session = this.getSession(tracked.sessionId);
+      if (!session) {
+        this.sessions.delete(tracked.sessionId);
+        continue;
+      }
+      this.sample(tracked, session, now);
+    }
+  }
+
+  private sample(tracked: ITrackedSession, session: any, now: number): void {
+    const elapsedSec = Math.max((now - tracked.sampledAt) / 1000, 0.001);
+    const counters = tracked.counters;
+
+    // A GOP still open at sample time counts too, so a stream that stops
+    // sending keyframes shows up before the next one arrives
+    let keyframeIntervalSec: number | undefined;
+    if (counters.lastKeyframeClock !== undefined) {
+      const openMs = counters.lastVideoClock - counters.lastKeyframeClock;
+      keyframeIntervalSec =
+        Math.round(Math.max(counters.maxKeyframeIntervalMs, openMs) / 10) / 100;
+    }
+
+    const sample: IStreamHealthSample = {
+      timestamp: new Date(now),
+      bitrateKbps: session.bitrate || 0,
+      video: session.videoCodec
+        ? {
+            codec: session.videoCodecName,
+            profile: session.videoProfileName || undefined,
+            width: session.videoWidth,
+            height: session.videoHeight,
+            declaredFps: session.videoFps || 0,
+            fps: Math.round((counters.videoFrames / elapsedSec) * 10) / 10,
+            keyframeIntervalSec,
+            frames: counters.videoFrames,
+            droppedFrames: counters.droppedFrames,
+          }
+        : undefined,
+      audio: session.audioCodec
+        ? {
+            codec: session.audioCodecName,
+            sampleRate: session.audioSamplerate,
+            channels: session.audioChannels,
+          }
+        : undefined,
+    };
+
+    counters.videoFrames = 0;
+    counters.droppedFrames = 0;
+    counters.maxKeyframeIntervalMs = 0;
+    tracked.sampledAt = now;
+
+    tracked.current = sample;
+    tracked.history.push(sample);
+    if (tracked.history.length > this.options.historySize) {
+      tracked.history.shift();
+    }
+
+    const warnings = evaluateHealth(sample, this.targets);
+    const previous = new Set(tracked.warnings.map((w) => w.code));
+    tracked.warnings = warnings;
+
+    // Only report a problem when it starts, not on every sample
+    for (const warning of warnings) {
+      if (previous.has(warning.code)) continue;
+      const event: IHealthWarningEvent = {
+        ...warning,
+        sessionId: tracked.sessionId,
+        streamKey: tracked.streamKey,
+      };
+      logger.warn(`[health] ${tracked.streamKey}: ${warning.message}`, event);
+      this.emit("warning", event);
+    }
+  }
+}
+
+function toHealth(tracked: ITrackedSession): IStreamHealth {
+  const { sessionId, streamKey, current, warnings, history } = tracked;
+  return { sessionId, streamKey, current, warnings, history: [...history] };
+}
@@ -0,0 +1,38 @@
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+
+export interface IJob<T = any> {
+  id: string;
+  type: string;
+  // Jobs spawned from one another share a group, e.g. a recording session
+  group: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // Earliest time a pending job may run; pushed back on every retry
+  runAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  error?: string;
+}
+
+// Dates come back from JSON as strings
+export function reviveJob(raw: any): IJob {
+  return {
+    ...raw,
+    runAt: new Date(raw.runAt),
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+/**
+ * Job persistence. The queue keeps every job in memory and loads them once
+ * at startup; `save` writes all given jobs together so a finished job and
+ * the one it spawns are never persisted apart.
+ */
+export abstract class BaseJobStore {
+  abstract load(): Promise<IJob[]>;
+  abstract save(jobs: IJob[]): Promise<void>;
+  abstract remove(ids: string[]): Promise<void>;
+}
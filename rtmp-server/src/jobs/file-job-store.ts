@@ -0,0 +1,54 @@
+import fs from "fs-extra";
+import path from "path";
+import { BaseJobStore, IJob, reviveJob } from "./base-job-store";
+
+// Keeps all jobs in one JSON file, rewritten on every change
+export class FileJobStore extends BaseJobStore {
+  private jobs = new Map<string, IJob>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  async load(): Promise<IJob[]> {
+    if (await fs.pathExists(this.filePath)) {
+      const raw = (await fs.readJson(this.filePath)) as any[];
+      for (const job of raw) {
+        this.jobs.set(job.id, reviveJob(job));
+      }
+    }
+    return Array.from(this.jobs.values());
+  }
+
+  save(jobs: IJob[]): Promise<void> {
+    for (const job of jobs) {
+      this.jobs.set(job.id, { ...job });
+    }
+    return this.enqueueWrite();
+  }
+
+  remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.jobs.delete(id);
+    }
+    return this.enqueueWrite();
+  }
+
+  // Serialize writes so a slow one can't overwrite a newer snapshot
+  private enqueueWrite(): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => this.persist());
+    return this.writeQueue;
+  }
+
+  private async persist(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.filePath));
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeJson(tmpPath, Array.from(this.jobs.values()), {
+      spaces: 2,
+    });
+    await fs.move(tmpPath, this.filePath, { overwrite: true });
+  }
+}
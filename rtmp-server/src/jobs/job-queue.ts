@@ -0,0 +1,236 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import { BaseJobStore, IJob, JobStatus } from "./base-job-store";
+import { logger } from "../utils/logger";
+
+export interface IJobQueueOptions {
+  // Jobs running at the same time
+  concurrency: number;
+  maxAttempts: number;
+  // Retry n waits backoffMs * 2^(n-1), capped at maxBackoffMs
+  backoffMs: number;
+  maxBackoffMs: number;
+  // Completed jobs are forgotten after this long; failed ones are kept
+  retentionMs: number;
+}
+
+// Next step of a pipeline, enqueued in the same group once a job succeeds
+export interface IJobFollowUp {
+  type: string;
+  payload: any;
+}
+
+export type JobHandler = (job: IJob) => Promise<IJobFollowUp | void>;
+
+export interface IJobFilter {
+  status?: JobStatus;
+  type?: string;
+  group?: string;
+}
+
+/**
+ * Persistent work queue with per-type handlers, bounded concurrency and
+ * exponential backoff. Jobs that were running when the process died are
+ * run again on `start`, so handlers must be safe to repeat.
+ *
+ * Emits `completed` with the job on success and `failed` with the job once
+ * every attempt has been used up.
+ */
+export class JobQueue extends EventEmitter {
+  private jobs = new Map<string, IJob>();
+  private handlers = new Map<string, JobHandler>();
+  private active = 0;
+  private started = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private store: BaseJobStore, private options: IJobQueueOptions) {
+    super();
+  }
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async start(): Promise<void> {
+    const interrupted: IJob[] = [];
+    for (const job of await this.store.load()) {
+      if (job.status === "running") {
+        job.status = "pending";
+        job.updatedAt = new Date();
+        interrupted.push(job);
+      }
+      this.jobs.set(job.id, job);
+    }
+    if (interrupted.length > 0) {
+      await this.store.save(interrupted);
+      logger.info(`Resuming ${interrupted.length} interrupted jobs`);
+    }
+
+    this.started = true;
+    await this.prune();
+    this.drain();
+  }
+
+  // Running jobs finish in the background; pending ones wait for the next start
+  stop(): void {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  async enqueue(type: string, payload: any, group?: string): Promise<IJob> {
+    const job = this.createJob(type, payload, group || crypto.randomUUID());
+    this.jobs.set(job.id, job);
+    await this.store.save([job]);
+    this.drain();
+    return job;
+  }
+
+  get(id: string): IJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  // Newest first
+  list(filter: IJobFilter = {}): IJob[] {
+    return Array.from(this.jobs.values())
+      .filter(
+        (job) =>
+          (!filter.status || job.status === filter.status) &&
+          (!filter.type || job.type === filter.type) &&
+          (!filter.group || job.group === filter.group)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Puts a failed job back in line with a fresh set of attempts
+  async retry(id: string): Promise<IJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "failed") return undefined;
+
+    job.status = "pending";
+    job.attempts = 0;
+    job.runAt = new Date();
+    job.updatedAt = new Date();
+    job.error = undefined;
+    await this.store.save([job]);
+    this.drain();
+    return job;
+  }
+
+  private createJob(type: string, payload: any, group: string): IJob {
+    const now = new Date();
+    return {
+      id: crypto.randomUUID(),
+      type,
+      group,
+      payload,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: this.options.maxAttempts,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private drain(): void {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const now = Date.now();
+    const pending = Array.from(this.jobs.values())
+      .filter((job) => job.status === "pending")
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+
+    for (const job of pending) {
+      if (this.active >= this.options.concurrency) return;
+      if (job.runAt.getTime() > now) {
+        // Wake up for the earliest backed-off job
+        this.timer = setTimeout(() => this.drain(), job.runAt.getTime() - now);
+        this.timer.unref();
+        return;
+      }
+      this.run(job);
+    }
+  }
+
+  private async run(job: IJob): Promise<void> {
+    this.active++;
+    job.status = "running";
+    job.attempts++;
+    job.updatedAt = new Date();
+
+    try {
+      await this.store.save([job]);
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`No handler for job type: ${job.type}`);
+      }
+      const followUp = await handler(job);
+
+      job.status = "completed";
+      job.error = undefined;
+      job.updatedAt = new Date();
+      const spawned = followUp
+        ? [this.createJob(followUp.type, followUp.payload, job.group)]
+        : [];
+      for (const next of spawned) {
+        this.jobs.set(next.id, next);
+      }
+      await this.store.save([job, ...spawned]);
+      this.emit("completed", job);
+      this.prune().catch((error) =>
+        logger.warn("Failed to prune completed jobs", { error: error.message })
+      );
+    } catch (error) {
+      await this.fail(job, error);
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  private async fail(job: IJob, error: Error): Promise<void> {
+    job.error = error.message;
+    job.updatedAt = new Date();
+
+    if (job.attempts >= job.maxAttempts) {
+      job.status = "failed";
+      logger.error(
+        `Job ${job.type} ${job.id} failed after ${job.attempts} attempts: ${job.error}`
+      );
+    } else {
+      const delay = Math.min(
+        this.options.backoffMs * 2 ** (job.attempts - 1),
+        this.options.maxBackoffMs
+      );
+      job.status = "pending";
+      job.runAt = new Date(Date.now() + delay);
+      logger.warn(
+        `Job ${job.type} ${job.id} failed (attempt ${job.attempts}), retrying in ${delay}ms: ${job.error}`
+      );
+    }
+
+    try {
+      await this.store.save([job]);
+    } catch (saveError) {
+      logger.error(`Failed to persist job ${job.id}:`, saveError);
+    }
+    if (job.status === "failed") this.emit("failed", job);
+  }
+
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.options.retentionMs;
+    const expired = Array.from(this.jobs.values())
+      .filter(
+        (job) => job.status === "completed" && job.updatedAt.getTime() < cutoff
+      )
+      .map((job) => job.id);
+    if (expired.length === 0) return;
+    for (const id of expired) {
+      this.jobs.delete(id);
+    }
+    await this.store.remove(expired);
+  }
+}
@@ -0,0 +1,40 @@
+import Redis from "ioredis";
+import os from "os";
+import { BaseJobStore } from "./base-job-store";
+import { FileJobStore } from "./file-job-store";
+import { RedisJobStore } from "./redis-job-store";
+import { logger } from "../utils/logger";
+
+export class JobStoreFactory {
+  // Redis when REDIS_URL is configured, a local file otherwise
+  static createStore(): BaseJobStore {
+    const storeType =
+      process.env.RECORDING_JOB_STORE ||
+      (process.env.REDIS_URL ? "redis" : "file");
+    const filePath =
+      process.env.RECORDING_JOB_STORE_FILE || "./data/recording-jobs.json";
+
+    switch (storeType.toLowerCase()) {
+      case "file":
+        logger.info("Using file recording job store");
+        return new FileJobStore(filePath);
+
+      case "redis": {
+        // Must stay the same across restarts, and differ between instances
+        const instanceId =
+          process.env.RECORDING_JOB_INSTANCE_ID || os.hostname();
+        logger.info(`Using Redis recording job store for ${instanceId}`);
+        return new RedisJobStore(
+          new Redis(process.env.REDIS_URL || "redis://localhost:6379"),
+          `rtmp:recording-jobs:${instanceId}`
+        );
+      }
+
+      default:
+        logger.warn(
+          `Unknown recording job store: ${storeType}, defaulting to file`
+        );
+        return new FileJobStore(filePath);
+    }
+  }
+}
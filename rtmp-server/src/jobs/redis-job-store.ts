@@ -0,0 +1,29 @@
+import Redis from "ioredis";
+import { BaseJobStore, IJob, reviveJob } from "./base-job-store";
+
+// One hash field per job, under a key of the instance's own: a job works
+// on files only the instance that recorded them has, so an instance loads,
+// resumes and runs nothing but its own jobs
+export class RedisJobStore extends BaseJobStore {
+  constructor(private redis: Redis, private key: string) {
+    super();
+  }
+
+  async load(): Promise<IJob[]> {
+    const all = await this.redis.hgetall(this.key);
+    return Object.values(all).map((raw) => reviveJob(JSON.parse(raw)));
+  }
+
+  async save(jobs: IJob[]): Promise<void> {
+    if (jobs.length === 0) return;
+    await this.redis.hset(
+      this.key,
+      Object.fromEntries(jobs.map((job) => [job.id, JSON.stringify(job)]))
+    );
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.redis.hdel(this.key, ...ids);
+  }
+}
@@ -0,0 +1,25 @@
+export interface IStreamKeyRecord {
+  id: string;
+  // Public name the stream is published and played back under
+  channelId: string;
+  label?: string;
+  // sha256 of the secret key; the key itself is never stored
+  keyHash: string;
+  // First characters of the key, to tell keys apart in listings
+  keyPrefix: string;
+  createdAt: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+}
+
+/**
+ * Stream key persistence. Lookups by hash are synchronous because they run
+ * inside NMS's prePublish event, before NMS registers the publish path;
+ * implementations keep every record in memory and persist on write.
+ */
+export abstract class BaseStreamKeyStore {
+  abstract list(): IStreamKeyRecord[];
+  abstract get(id: string): IStreamKeyRecord | undefined;
+  abstract findByHash(keyHash: string): IStreamKeyRecord | undefined;
+  abstract save(record: IStreamKeyRecord): Promise<void>;
+}
@@ -0,0 +1,60 @@
+import fs from "fs-extra";
+import path from "path";
+import { BaseStreamKeyStore, IStreamKeyRecord } from "./base-key-store";
+import { logger } from "../utils/logger";
+
+// Keeps all records in one JSON file, rewritten on every change
+export class FileStreamKeyStore extends BaseStreamKeyStore {
+  private records = new Map<string, IStreamKeyRecord>();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+    this.load();
+  }
+
+  list(): IStreamKeyRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  get(id: string): IStreamKeyRecord | undefined {
+    return this.records.get(id);
+  }
+
+  findByHash(keyHash: string): IStreamKeyRecord | undefined {
+    return this.list().find((record) => record.keyHash === keyHash);
+  }
+
+  save(record: IStreamKeyRecord): Promise<void> {
+    this.records.set(record.id, record);
+    // Serialize writes so a slow one can't overwrite a newer snapshot
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => this.persist());
+    return this.writeQueue;
+  }
+
+  private load(): void {
+    if (!fs.pathExistsSync(this.filePath)) return;
+
+    const raw = fs.readJsonSync(this.filePath) as IStreamKeyRecord[];
+    for (const record of raw) {
+      this.records.set(record.id, {
+        ...record,
+        createdAt: new Date(record.createdAt),
+        rotatedAt: record.rotatedAt ? new Date(record.rotatedAt) : undefined,
+        revokedAt: record.revokedAt ? new Date(record.revokedAt) : undefined,
+      });
+    }
+    logger.info(
+      `Loaded ${this.records.size} stream keys from ${this.filePath}`
+    );
+  }
+
+  private async persist(): Promise<void> {
+    await fs.ensureDir(path.dirname(this.filePath));
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeJson(tmpPath, this.list(), { spaces: 2 });
+    await fs.move(tmpPath, this.filePath, { overwrite: true });
+  }
+}
@@ -0,0 +1,23 @@
+import { BaseStreamKeyStore } from "./base-key-store";
+import { FileStreamKeyStore } from "./file-key-store";
+import { logger } from "../utils/logger";
+
+export class StreamKeyStoreFactory {
+  static createStore(): BaseStreamKeyStore {
+    const storeType = process.env.STREAM_KEY_STORE || "file";
+    const filePath =
+      process.env.STREAM_KEY_STORE_FILE || "./data/stream-keys.json";
+
+    switch (storeType.toLowerCase()) {
+      case "file":
+        logger.info("Using file stream key store");
+        return new FileStreamKeyStore(filePath);
+
+      default:
+        logger.warn(
+          `Unknown stream key store: ${storeType}, defaulting to file`
+        );
+        return new FileStreamKeyStore(filePath);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import crypto from "crypto";
+import { BaseStreamKeyStore, IStreamKeyRecord } from "./base-key-store";
+import { logger } from "../utils/logger";
+
+export interface ICreateStreamKeyOptions {
+  channelId?: string;
+  label?: string;
+}
+
+// Returned once on create/rotate; only the hash is kept afterwards
+export interface IIssuedStreamKey {
+  streamKey: string;
+  record: IStreamKeyRecord;
+}
+
+const CHANNEL_ID_PATTERN = /^[\w-]{1,64}$/;
+
+export function hashStreamKey(streamKey: string): string {
+  return crypto.createHash("sha256").update(streamKey).digest("hex");
+}
+
+/**
+ * Issues secret stream keys and maps them to public channel ids, so
+ * encoders publish with the secret while HLS/FLV is served under the
+ * channel id.
+ */
+export class StreamKeyService {
+  constructor(private store: BaseStreamKeyStore) {}
+
+  list(): IStreamKeyRecord[] {
+    return this.store.list();
+  }
+
+  async create(
+    options: ICreateStreamKeyOptions = {}
+  ): Promise<IIssuedStreamKey> {
+    const channelId =
+      options.channelId || crypto.randomBytes(6).toString("hex");
+    if (!CHANNEL_ID_PATTERN.test(channelId)) {
+      throw new Error("channelId must be 1-64 letters, digits, _ or -");
+    }
+    if (this.list().some((r) => r.channelId === channelId && !r.revokedAt)) {
+      throw new Error(`Channel ${channelId} already has an active key`);
+    }
+
+    const streamKey = this.generateKey();
+    const record: IStreamKeyRecord = {
+      id: crypto.randomUUID(),
+      channelId,
+      label: options.label,
+      keyHash: hashStreamKey(streamKey),
+      keyPrefix: streamKey.slice(0, 7),
+      createdAt: new Date(),
+    };
+
+    await this.store.save(record);
+    logger.info(`Stream key created for channel ${channelId}`, {
+      id: record.id,
+    });
+    return { streamKey, record };
+  }
+
+  // New secret for the same channel; the old key stops working immediately
+  async rotate(id: string): Promise<IIssuedStreamKey | null> {
+    const existing = this.store.get(id);
+    if (!existing || existing.revokedAt) return null;
+
+    const streamKey = this.generateKey();
+    const record: IStreamKeyRecord = {
+      ...existing,
+      keyHash: hashStreamKey(streamKey),
+      keyPrefix: streamKey.slice(0, 7),
+      rotatedAt: new Date(),
+    };
+
+    await this.store.save(record);
+    logger.info(`Stream key rotated for channel ${record.channelId}`, { id });
+    return { streamKey, record };
+  }
+
+  async revoke(id: string): Promise<IStreamKeyRecord | null> {
+    const existing = this.store.get(id);
+    if (!existing) return null;
+    if (existing.revokedAt) return existing;
+
+    const record = { ...existing, revokedAt: new Date() };
+    await this.store.save(record);
+    logger.info(`Stream key revoked for channel ${record.channelId}`, { id });
+    return record;
+  }
+
+  // Synchronous so it can run before NMS registers the publish path
+  resolve(streamKey: string): IStreamKeyRecord | null {
+    const record = this.store.findByHash(hashStreamKey(streamKey));
+    return record && !record.revokedAt ? record : null;
+  }
+
+  private generateKey(): string {
+    return `sk_${crypto.randomBytes(24).toString("base64url")}`;
+  }
+}
@@ -0,0 +1,132 @@
+import { collectDefaultMetrics, Counter, Gauge, Registry } from "prom-client";
+import { BaseStorage } from "../storage/base-storage";
+import { IPublisherSession } from "../publishing/publisher-registry";
+import { ViewerProtocol } from "../viewers/viewer-analytics";
+import { logger } from "../utils/logger";
+
+export interface IMetricsSources {
+  publishers: () => IPublisherSession[];
+  viewers: () => Record<ViewerProtocol, number>;
+  // Totals since start, closed connections included
+  traffic: () => { inBytes: number; outBytes: number };
+  storage: BaseStorage;
+}
+
+/**
+ * Prometheus metrics for the RTMP server. Gauges read live state at scrape
+ * time; only recording results are counted as they happen. Storage usage
+ * is the exception: on S3 it means listing every recording, so it is
+ * refreshed every `storageRefreshMs` between start() and stop() and scrapes
+ * read the last value.
+ */
+export class RtmpMetrics {
+  readonly registry = new Registry();
+  private recordings: Counter<"result">;
+  private storageInfo: { used: number; available: number } | null = null;
+  private storageTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private sources: IMetricsSources,
+    private storageRefreshMs: number = parseInt(
+      process.env.STORAGE_METRICS_INTERVAL_MS || "300000"
+    )
+  ) {
+    const metrics = this;
+    collectDefaultMetrics({ register: this.registry });
+
+    new Gauge({
+      name: "rtmp_active_publishers",
+      help: "Authorized publishers, by app and role (primary is on air)",
+      labelNames: ["app", "role"],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const publisher of sources.publishers()) {
+          this.inc({ app: publisher.app, role: publisher.role });
+        }
+      },
+    });
+
+    new Gauge({
+      name: "rtmp_active_viewers",
+      help: "Viewers by playback protocol",
+      labelNames: ["protocol"],
+      registers: [this.registry],
+      collect() {
+        for (const [protocol, count] of Object.entries(sources.viewers())) {
+          this.set({ protocol }, count);
+        }
+      },
+    });
+
+    new Counter({
+      name: "rtmp_received_bytes_total",
+      help: "Bytes received from publishers and HTTP clients",
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        this.inc(sources.traffic().inBytes);
+      },
+    });
+
+    new Counter({
+      name: "rtmp_sent_bytes_total",
+      help: "Bytes sent to players",
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        this.inc(sources.traffic().outBytes);
+      },
+    });
+
+    new Gauge({
+      name: "rtmp_storage_bytes",
+      help: "Recording storage usage from the configured backend",
+      labelNames: ["kind"],
+      registers: [this.registry],
+      collect() {
+        if (!metrics.storageInfo) return;
+        this.set({ kind: "used" }, metrics.storageInfo.used);
+        this.set({ kind: "available" }, metrics.storageInfo.available);
+      },
+    });
+
+    this.recordings = new Counter({
+      name: "rtmp_recordings_total",
+      help: "Recordings processed, by result",
+      labelNames: ["result"],
+      registers: [this.registry],
+    });
+  }
+
+  start(): void {
+    if (this.storageTimer) return;
+    this.refreshStorage();
+    this.storageTimer = setInterval(
+      () => this.refreshStorage(),
+      this.storageRefreshMs
+    );
+    this.storageTimer.unref();
+  }
+
+  stop(): void {
+    if (this.storageTimer) clearInterval(this.storageTimer);
+    this.storageTimer = null;
+  }
+
+  async refreshStorage(): Promise<void> {
+    try {
+      this.storageInfo = await this.sources.storage.getStorageInfo();
+    } catch (error) {
+      logger.error("Failed to collect storage metrics:", error);
+    }
+  }
+
+  observeRecording(result: "saved" | "failed"): void {
+    this.recordings.inc({ result });
+  }
+
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
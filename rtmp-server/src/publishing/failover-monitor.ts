@@ -0,0 +1,95 @@
+import { IPublisherSession } from "./publisher-registry";
+
+export interface IFailoverOptions {
+  // No bytes from the on-air publisher for this long counts as a stall
+  stallTimeoutMs: number;
+  // The main ingest must deliver for this long before we switch back to it
+  recoveryMs: number;
+}
+
+interface IIngestProgress {
+  bytes: number;
+  lastProgressAt: number;
+  healthySince: number;
+}
+
+/**
+ * Watches how many bytes each publisher has sent and decides which of a
+ * stream's sources should be on air: the main ingest when it is healthy,
+ * otherwise any standby that is still delivering.
+ */
+export class FailoverMonitor {
+  private progress = new Map<string, IIngestProgress>();
+
+  constructor(
+    private options: IFailoverOptions,
+    private readBytes: (sessionId: string) => number | undefined
+  ) {}
+
+  sample(sessionIds: string[], now = Date.now()): void {
+    for (const sessionId of sessionIds) {
+      const bytes = this.readBytes(sessionId);
+      if (bytes === undefined) continue;
+
+      const previous = this.progress.get(sessionId);
+      if (!previous) {
+        this.progress.set(sessionId, {
+          bytes,
+          lastProgressAt: now,
+          healthySince: now,
+        });
+      } else if (bytes > previous.bytes) {
+        if (this.isStalled(sessionId, now)) previous.healthySince = now;
+        previous.bytes = bytes;
+        previous.lastProgressAt = now;
+      }
+    }
+  }
+
+  forget(sessionId: string): void {
+    this.progress.delete(sessionId);
+  }
+
+  // Sessions we have not sampled yet get the benefit of the doubt
+  isStalled(sessionId: string, now = Date.now()): boolean {
+    const progress = this.progress.get(sessionId);
+    return Boolean(
+      progress && now - progress.lastProgressAt >= this.options.stallTimeoutMs
+    );
+  }
+
+  isHealthy(sessionId: string, now = Date.now()): boolean {
+    const progress = this.progress.get(sessionId);
+    return Boolean(
+      progress &&
+        !this.isStalled(sessionId, now) &&
+        now - progress.healthySince >= this.options.recoveryMs
+    );
+  }
+
+  // Best standby to take over from a publisher that is gone or stalled
+  pickStandby(
+    standbys: IPublisherSession[],
+    now = Date.now()
+  ): IPublisherSession | undefined {
+    const live = standbys.filter((s) => !this.isStalled(s.sessionId, now));
+    return live.find((s) => s.ingest === "main") || live[0];
+  }
+
+  // The source that should replace `onAir` right now, if any
+  chooseSource(
+    onAir: IPublisherSession,
+    standbys: IPublisherSession[],
+    now = Date.now()
+  ): IPublisherSession | undefined {
+    if (this.isStalled(onAir.sessionId, now)) {
+      return this.pickStandby(standbys, now);
+    }
+    if (onAir.ingest === "backup") {
+      return standbys.find(
+        (s) => s.ingest === "main" && this.isHealthy(s.sessionId, now)
+      );
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,154 @@
+// node-media-server keeps its session and publisher tables in a shared
+// module; it has no public API for handing a live path to another session.
+import context from "node-media-server/src/node_core_ctx";
+import NodeFlvSession from "node-media-server/src/node_flv_session";
+import { IncomingMessage, ServerResponse } from "http";
+
+// Session currently registered as the publisher of `streamPath`, if any
+export function getPublisherId(streamPath: string): string | undefined {
+  return context.publishers.get(streamPath);
+}
+
+/**
+ * Re-registers a publishing session under `toPath`, as if it had published
+ * there: viewers waiting on that path are attached and `postPublish` fires
+ * so NMS trans tasks pick it up.
+ */
+export function movePublisher(sessionId: string, toPath: string): void {
+  const session = context.sessions.get(sessionId);
+  if (!session || !session.isPublishing) {
+    throw new Error(`Session ${sessionId} is not publishing`);
+  }
+  if (context.publishers.has(toPath)) {
+    throw new Error(`${toPath} already has a publisher`);
+  }
+
+  context.publishers.delete(session.publishStreamPath);
+  session.publishStreamPath = toPath;
+  context.publishers.set(toPath, sessionId);
+
+  for (const playerId of context.idlePlayers) {
+    const player = context.sessions.get(playerId);
+    if (player && player.playStreamPath === toPath) {
+      player.onStartPlay();
+      context.idlePlayers.delete(playerId);
+    }
+  }
+
+  context.nodeEvent.emit(
+    "postPublish",
+    sessionId,
+    toPath,
+    session.publishArgs || {}
+  );
+}
+
+/**
+ * Hands the viewers of `from`'s stream path to `to` without unpublishing:
+ * `to` takes over the path and `from` is parked on `parkPath`. RTMP players
+ * (including the ffmpeg pulls behind HLS) continue from `to`'s GOP cache;
+ * HTTP-FLV players can't take a second FLV header, so they are closed and
+ * reconnect.
+ *
+ * Safe to call from a `donePublish` listener of `from`: NMS then only
+ * unregisters `parkPath` and finds no players left to stop.
+ */
+export function switchPublisher(
+  fromId: string,
+  toId: string,
+  parkPath: string
+): void {
+  const from = context.sessions.get(fromId);
+  const to = context.sessions.get(toId);
+  if (!from || !to || !to.isPublishing) {
+    throw new Error(`Cannot switch ${fromId} to ${toId}`);
+  }
+
+  const streamPath = from.publishStreamPath;
+  context.publishers.delete(to.publishStreamPath);
+  from.publishStreamPath = parkPath;
+  context.publishers.set(parkPath, fromId);
+  to.publishStreamPath = streamPath;
+  context.publishers.set(streamPath, toId);
+
+  for (const playerId of Array.from<string>(from.players)) {
+    from.players.delete(playerId);
+    const player = context.sessions.get(playerId);
+    if (!player) continue;
+    if (player instanceof NodeFlvSession) {
+      player.stop();
+    } else {
+      player.onStartPlay();
+    }
+  }
+}
+
+// NMS trans tasks are keyed by the publisher's session id; keep the running
+// HLS ffmpeg alive when another session takes over its stream path
+export function rekeyTransSession(
+  nms: any,
+  fromId: string,
+  toId: string
+): void {
+  const transSessions: Map<string, unknown> = nms?.nts?.transSessions;
+  const session = transSessions?.get(fromId);
+  if (!session) return;
+  transSessions.delete(fromId);
+  transSessions.set(toId, session);
+}
+
+// Protocol and client of a playing session; null for local RTMP players,
+// which are our own ffmpeg pulls (HLS, recording), not viewers
+export function describePlayer(sessionId: string): {
+  protocol: "rtmp" | "flv" | "ws-flv";
+  ip: string;
+  userAgent?: string;
+} | null {
+  const session = context.sessions.get(sessionId);
+  if (!session) return null;
+  if (session instanceof NodeFlvSession) {
+    return {
+      protocol: session.TAG === "websocket-flv" ? "ws-flv" : "flv",
+      ip: session.ip,
+      userAgent: session.req?.headers["user-agent"],
+    };
+  }
+  if (session.isLocal) return null;
+  return {
+    protocol: "rtmp",
+    ip: session.ip,
+    userAgent: session.connectCmdObj?.flashVer,
+  };
+}
+
+// NMS adds a connection's bytes to its stats when it closes; live
+// connections are read from their sockets
+export function getTrafficTotals(): { inBytes: number; outBytes: number } {
+  let inBytes = context.stat.inbytes;
+  let outBytes = context.stat.outbytes;
+  for (const session of context.sessions.values()) {
+    const socket =
+      session instanceof NodeFlvSession ? session.req?.socket : session.socket;
+    inBytes += socket?.bytesRead || 0;
+    outBytes += socket?.bytesWritten || 0;
+  }
+  return { inBytes, outBytes };
+}
+
+// Puts `handler` in front of the NMS HTTP server (FLV, HLS files); it
+// returns true when it answered the request itself. Available once the
+// server runs.
+export function interceptHttpRequests(
+  nms: any,
+  handler: (req: IncomingMessage, res: ServerResponse) => boolean
+): void {
+  const server = nms?.nhs?.httpServer;
+  if (!server) return;
+
+  const listeners = server.listeners("request");
+  server.removeAllListeners("request");
+  server.on("request", (req: IncomingMessage, res: ServerResponse) => {
+    if (handler(req, res)) return;
+    for (const listener of listeners) listener.call(server, req, res);
+  });
+}
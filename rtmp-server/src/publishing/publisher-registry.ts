@@ -0,0 +1,77 @@
+import { logger } from "../utils/logger";
+
+export type DuplicatePublisherPolicy = "reject" | "kick" | "backup";
+
+export type PublisherRole = "primary" | "backup";
+
+// Which ingest URL the encoder used: `/live/<key>` or `/live/<key>_backup`
+export type IngestSource = "main" | "backup";
+
+export interface IPublisherSession {
+  sessionId: string;
+  app: string;
+  channelId: string;
+  // Path viewers play; backups keep it too and are parked elsewhere in NMS
+  streamPath: string;
+  role: PublisherRole;
+  ingest: IngestSource;
+  connectedAt: Date;
+}
+
+export function parseDuplicatePublisherPolicy(
+  value = "reject"
+): DuplicatePublisherPolicy {
+  const policy = value.toLowerCase();
+  if (policy === "reject" || policy === "kick" || policy === "backup") {
+    return policy;
+  }
+  logger.warn(`Unknown duplicate publisher policy: ${value}, using reject`);
+  return "reject";
+}
+
+/**
+ * Authorized publishers keyed by NMS session id, so two encoders on the
+ * same stream key never overwrite each other's entry.
+ */
+export class PublisherRegistry {
+  private sessions = new Map<string, IPublisherSession>();
+
+  add(session: IPublisherSession): void {
+    this.sessions.set(session.sessionId, session);
+  }
+
+  get(sessionId: string): IPublisherSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  remove(sessionId: string): IPublisherSession | undefined {
+    const session = this.sessions.get(sessionId);
+    this.sessions.delete(sessionId);
+    return session;
+  }
+
+  list(): IPublisherSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  primaryFor(streamPath: string): IPublisherSession | undefined {
+    return this.list().find(
+      (session) =>
+        session.streamPath === streamPath && session.role === "primary"
+    );
+  }
+
+  // Oldest first: the longest-waiting backup takes over
+  backupsFor(streamPath: string): IPublisherSession[] {
+    return this.list()
+      .filter(
+        (session) =>
+          session.streamPath === streamPath && session.role === "backup"
+      )
+      .sort((a, b) => a.connectedAt.getTime() - b.connectedAt.getTime());
+  }
+
+  forChannel(channelId: string): IPublisherSession[] {
+    return this.list().filter((session) => session.channelId === channelId);
+  }
+}
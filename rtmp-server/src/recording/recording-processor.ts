@@ -0,0 +1,265 @@
+import { EventEmitter } from "events";
+import fs from "fs-extra";
+import path from "path";
+import {
+  BaseStorage,
+  IStorageMetadata,
+  IStorageResult,
+} from "../storage/base-storage";
+import { IJob } from "../jobs/base-job-store";
+import { IJobFollowUp, JobQueue } from "../jobs/job-queue";
+import { IRecordingSession } from "./stream-recorder";
+import { ThumbnailGenerator } from "../thumbnails/thumbnail-generator";
+import { RecordingRemuxer } from "./recording-remuxer";
+import { logger } from "../utils/logger";
+
+export type RecordingJobType =
+  | "remux"
+  | "thumbnail"
+  | "upload"
+  | "keep-source"
+  | "delete-temp";
+
+const RECORDING_STEPS: RecordingJobType[] = [
+  "remux",
+  "thumbnail",
+  "upload",
+  "keep-source",
+  "delete-temp",
+];
+
+// Handed from step to step; plain JSON so it survives a restart
+export interface IRecordingJobPayload {
+  streamKey: string;
+  // As written by the recorder, kept until the recording is stored
+  sourcePath: string;
+  // What the next step works on: the MP4 once remuxed
+  filePath: string;
+  metadata: Partial<IStorageMetadata>;
+}
+
+export interface IRecordingFailure {
+  jobId: string;
+  step: RecordingJobType | "enqueue";
+  streamKey: string;
+  filePath: string;
+  attempts: number;
+  error: string;
+}
+
+/**
+ * Hands finished recordings to the configured storage through the job
+ * queue, one job per step: remux to MP4 when a remuxer is given, poster and
+ * scrubbing sprite when a thumbnail generator is, upload, storing the
+ * original FLV too when the remuxer keeps it, then removal of the temp files. A failed upload is retried by the queue; remux
+ * and preview failures only cost the recording its MP4 or previews.
+ *
+ * Emits `saved` with the storage result on success and `failed` with an
+ * IRecordingFailure once a step has used up its attempts.
+ */
+export class RecordingProcessor extends EventEmitter {
+  constructor(
+    private storage: BaseStorage,
+    private jobs: JobQueue,
+    private thumbnails?: ThumbnailGenerator,
+    private remuxer?: RecordingRemuxer
+  ) {
+    super();
+    jobs.register("remux", (job) => this.remux(job));
+    jobs.register("thumbnail", (job) => this.thumbnail(job));
+    jobs.register("upload", (job) => this.upload(job));
+    jobs.register("keep-source", (job) => this.keepSource(job));
+    jobs.register("delete-temp", (job) => this.deleteTemp(job));
+    jobs.on("failed", (job: IJob<IRecordingJobPayload>) => {
+      if (!RECORDING_STEPS.includes(job.type as RecordingJobType)) return;
+      this.emit("failed", {
+        jobId: job.id,
+        step: job.type,
+        streamKey: job.payload.streamKey,
+        filePath: job.payload.filePath,
+        attempts: job.attempts,
+        error: job.error,
+      } as IRecordingFailure);
+    });
+  }
+
+  // Returns the first job of the recording's pipeline
+  async process(
+    recording: IRecordingSession,
+    metadata: Partial<IStorageMetadata> = {}
+  ): Promise<IJob<IRecordingJobPayload> | null> {
+    const { streamKey, filePath } = recording;
+
+    if (!(await fs.pathExists(filePath))) {
+      const error = `Recording file not found: ${filePath}`;
+      logger.error(error);
+      this.emit("failed", {
+        jobId: "",
+        step: "enqueue",
+        streamKey,
+        filePath,
+        attempts: 0,
+        error,
+      } as IRecordingFailure);
+      return null;
+    }
+
+    const stats = await fs.stat(filePath);
+    const endTime = recording.endTime || new Date();
+    const payload: IRecordingJobPayload = {
+      streamKey,
+      sourcePath: filePath,
+      filePath,
+      metadata: {
+        duration: Math.round(
+          (endTime.getTime() - recording.startTime.getTime()) / 1000
+        ),
+        fileSize: stats.size,
+        ...metadata,
+      },
+    };
+
+    const job = await this.jobs.enqueue(
+      this.stepAfter(null),
+      payload,
+      recording.sessionId
+    );
+    logger.info(`Recording queued for processing: ${streamKey}`, {
+      group: job.group,
+    });
+    return job;
+  }
+
+  // Steps without a worker (no remuxer, no thumbnails) are skipped
+  private stepAfter(step: RecordingJobType | null): RecordingJobType {
+    const enabled = RECORDING_STEPS.filter(
+      (candidate) =>
+        (candidate !== "remux" || this.remuxer) &&
+        (candidate !== "thumbnail" || this.thumbnails) &&
+        (candidate !== "keep-source" || this.remuxer?.keepSource)
+    );
+    return step ? enabled[enabled.indexOf(step) + 1] : enabled[0];
+  }
+
+  private async remux(job: IJob<IRecordingJobPayload>): Promise<IJobFollowUp> {
+    const payload = { ...job.payload, metadata: { ...job.payload.metadata } };
+
+    // Probed values beat the wall clock and the publisher's announcement
+    try {
+      const remuxed = await this.remuxer.remux(payload.sourcePath);
+      payload.filePath = remuxed.filePath;
+      payload.metadata.fileSize = (await fs.stat(remuxed.filePath)).size;
+      if (remuxed.duration !== undefined) {
+        payload.metadata.duration = remuxed.duration;
+      }
+      if (remuxed.quality) payload.metadata.quality = remuxed.quality;
+    } catch (error) {
+      logger.warn(`Remuxing ${payload.streamKey} failed, storing the FLV`, {
+        error: error.message,
+      });
+    }
+
+    return { type: this.stepAfter("remux"), payload };
+  }
+
+  // Rendered before uploading: storage takes the file away. A recording
+  // without previews is still worth keeping.
+  private async thumbnail(
+    job: IJob<IRecordingJobPayload>
+  ): Promise<IJobFollowUp> {
+    const payload = { ...job.payload, metadata: { ...job.payload.metadata } };
+
+    try {
+      const previews = await this.thumbnails.generateRecordingPreviews(
+        payload.filePath,
+        payload.streamKey,
+        payload.metadata.duration
+      );
+      payload.metadata.thumbnailPath = previews.posterPath;
+      payload.metadata.previewVttPath = previews.vttPath;
+      payload.metadata.thumbnailUrl = previews.posterUrl;
+      payload.metadata.previewVttUrl = previews.vttUrl;
+    } catch (error) {
+      logger.warn(`Recording previews failed: ${payload.streamKey}`, {
+        error: error.message,
+      });
+    }
+
+    return { type: this.stepAfter("thumbnail"), payload };
+  }
+
+  // Throws so the queue retries with backoff. Storage only takes the file
+  // once it is stored, so a missing file means an earlier attempt saved it
+  // but stopped before its result was persisted.
+  private async upload(job: IJob<IRecordingJobPayload>): Promise<IJobFollowUp> {
+    const { filePath, streamKey, metadata } = job.payload;
+
+    if (!(await fs.pathExists(filePath))) {
+      logger.warn(`Recording already stored, skipping upload: ${streamKey}`, {
+        attempt: job.attempts,
+        filePath,
+      });
+      // Where it was stored went with the earlier attempt's result
+      this.emit("saved", {
+        success: true,
+        metadata: {
+          streamKey,
+          fileName: path.basename(filePath),
+          fileSize: 0,
+          uploadTime: new Date(),
+          ...metadata,
+        },
+      } as IStorageResult);
+      return { type: this.stepAfter("upload"), payload: job.payload };
+    }
+
+    const result = await this.storage.saveRecording(
+      filePath,
+      streamKey,
+      metadata
+    );
+
+    if (!result.success) {
+      throw new Error(result.error || "Unknown storage error");
+    }
+
+    logger.info(`Recording processed successfully: ${streamKey}`, {
+      attempt: job.attempts,
+      filePath: result.filePath,
+    });
+    this.emit("saved", result);
+    return { type: this.stepAfter("upload"), payload: job.payload };
+  }
+
+  // The FLV as recorded, stored next to the MP4. Nothing to do when it was
+  // not remuxed (it was the upload) or an earlier attempt stored it.
+  private async keepSource(
+    job: IJob<IRecordingJobPayload>
+  ): Promise<IJobFollowUp> {
+    const { sourcePath, filePath, streamKey, metadata } = job.payload;
+
+    if (sourcePath !== filePath && (await fs.pathExists(sourcePath))) {
+      const stats = await fs.stat(sourcePath);
+      const result = await this.storage.saveRecording(sourcePath, streamKey, {
+        ...metadata,
+        fileSize: stats.size,
+      });
+      if (!result.success) {
+        throw new Error(result.error || "Unknown storage error");
+      }
+      logger.info(`Original recording kept: ${streamKey}`, {
+        filePath: result.filePath,
+      });
+    }
+
+    return { type: this.stepAfter("keep-source"), payload: job.payload };
+  }
+
+  private async deleteTemp(job: IJob<IRecordingJobPayload>): Promise<void> {
+    const { sourcePath, filePath } = job.payload;
+    // Storage has usually taken filePath already; the FLV is left over
+    // when the recording was remuxed
+    await fs.remove(sourcePath);
+    if (filePath !== sourcePath) await fs.remove(filePath);
+  }
+}
@@ -0,0 +1,141 @@
+import fs from "fs-extra";
+import { runFfmpeg, runFfprobe } from "../utils/ffmpeg";
+import { logger } from "../utils/logger";
+
+// `mp4` moves the index to the front (faststart) so browsers can seek
+// before downloading everything; `fmp4` writes fragments as it goes;
+// `flv` stores the recording untouched
+export type RecordingFormat = "mp4" | "fmp4" | "flv";
+
+export interface IRemuxResult {
+  filePath: string;
+  duration?: number;
+  quality?: string;
+}
+
+interface IProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+}
+
+export function parseRecordingFormat(value = "mp4"): RecordingFormat {
+  const format = value.toLowerCase();
+  if (format === "mp4" || format === "fmp4" || format === "flv") {
+    return format;
+  }
+  logger.warn(`Unknown RECORDING_FORMAT: ${value}, defaulting to mp4`);
+  return "mp4";
+}
+
+// Stream copy into MP4: no re-encoding, so it takes seconds
+export function buildRemuxArgs(
+  input: string,
+  output: string,
+  format: "mp4" | "fmp4"
+): string[] {
+  const movflags =
+    format === "fmp4"
+      ? "+frag_keyframe+empty_moov+default_base_moof"
+      : "+faststart";
+  return [
+    "-y",
+    "-i",
+    input,
+    "-map",
+    "0",
+    "-c",
+    "copy",
+    "-movflags",
+    movflags,
+    "-f",
+    "mp4",
+    output,
+  ];
+}
+
+// `ffprobe -show_format -show_streams -of json` output to storage metadata,
+// e.g. quality "1280x720@30fps h264/aac"
+export function parseProbe(output: string): Omit<IRemuxResult, "filePath"> {
+  const probe = JSON.parse(output);
+  const streams: IProbeStream[] = probe.streams || [];
+  const video = streams.find((stream) => stream.codec_type === "video");
+  const audio = streams.find((stream) => stream.codec_type === "audio");
+
+  const parts: string[] = [];
+  if (video?.width && video?.height) {
+    const [num, den] = (video.avg_frame_rate || "").split("/").map(Number);
+    const fps = num && den ? `@${Math.round(num / den)}fps` : "";
+    parts.push(`${video.width}x${video.height}${fps}`);
+  }
+  const codecs = [video?.codec_name, audio?.codec_name].filter(Boolean);
+  if (codecs.length > 0) parts.push(codecs.join("/"));
+
+  const duration = parseFloat(probe.format?.duration);
+  return {
+    duration: isNaN(duration) ? undefined : Math.round(duration),
+    quality: parts.length > 0 ? parts.join(" ") : undefined,
+  };
+}
+
+/**
+ * Turns finished FLV recordings into MP4 before they are stored, and reads
+ * their real duration and codecs. The FLV is left in place: it is only
+ * removed once the recording is safely stored, after being stored as well
+ * when `keepSource` is set.
+ */
+export class RecordingRemuxer {
+  constructor(
+    readonly format: RecordingFormat,
+    private timeoutMs: number = parseInt(
+      process.env.RECORDING_REMUX_TIMEOUT_MS || "600000"
+    ),
+    readonly keepSource: boolean = process.env.RECORDING_KEEP_SOURCE === "true"
+  ) {}
+
+  async remux(filePath: string): Promise<IRemuxResult> {
+    if (this.format === "flv") {
+      return { filePath, ...(await this.probe(filePath)) };
+    }
+
+    const output = filePath.replace(/\.flv$/, "") + ".mp4";
+    try {
+      await runFfmpeg(
+        buildRemuxArgs(filePath, output, this.format),
+        `remux ${filePath}`,
+        this.timeoutMs
+      );
+    } catch (error) {
+      await fs.remove(output);
+      throw error;
+    }
+    logger.info(`Recording remuxed to ${this.format}: ${output}`);
+    return { filePath: output, ...(await this.probe(output)) };
+  }
+
+  // Metadata is a bonus: a file ffprobe can't read is still stored
+  private async probe(
+    filePath: string
+  ): Promise<Omit<IRemuxResult, "filePath">> {
+    try {
+      const output = await runFfprobe(
+        [
+          "-v",
+          "error",
+          "-show_format",
+          "-show_streams",
+          "-of",
+          "json",
+          filePath,
+        ],
+        60000
+      );
+      return parseProbe(output);
+    } catch (error) {
+      logger.warn(`Failed to probe recording ${filePath}: ${error.message}`);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import path from "path";
+import { IFfmpegProcess, spawnFfmpeg, stopFfmpeg } from "../utils/ffmpeg";
+import { logger } from "../utils/logger";
+
+export interface IRecordingSession {
+  sessionId: string;
+  streamKey: string;
+  streamPath: string;
+  filePath: string;
+  startTime: Date;
+  endTime?: Date;
+}
+
+interface IActiveRecording extends IRecordingSession {
+  ffmpeg: IFfmpegProcess;
+}
+
+export class StreamRecorder {
+  private recordingsPath: string;
+  private rtmpPort: number;
+  private stopTimeoutMs: number;
+  private recordings = new Map<string, IActiveRecording>();
+
+  constructor(recordingsPath: string) {
+    this.recordingsPath = recordingsPath;
+    this.rtmpPort = parseInt(process.env.RTMP_PORT || "1935");
+    this.stopTimeoutMs = parseInt(
+      process.env.RECORDING_STOP_TIMEOUT_MS || "10000"
+    );
+  }
+
+  start(
+    sessionId: string,
+    streamPath: string,
+    streamKey: string
+  ): IRecordingSession {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const filePath = path.join(
+      this.recordingsPath,
+      `${streamKey}_${timestamp}.flv`
+    );
+    const inputUrl = `rtmp://127.0.0.1:${this.rtmpPort}${streamPath}`;
+
+    // Pull the published stream back from NMS and copy it untouched to disk
+    const ffmpeg = spawnFfmpeg(
+      ["-y", "-i", inputUrl, "-c", "copy", "-f", "flv", filePath],
+      `recorder ${streamKey}`
+    );
+
+    const recording: IActiveRecording = {
+      sessionId,
+      streamKey,
+      streamPath,
+      filePath,
+      startTime: new Date(),
+      ffmpeg,
+    };
+
+    this.recordings.set(sessionId, recording);
+    logger.info(`Recording started: ${streamKey} -> ${filePath}`);
+
+    return this.toSession(recording);
+  }
+
+  async stop(sessionId: string): Promise<IRecordingSession | undefined> {
+    const recording = this.recordings.get(sessionId);
+    if (!recording) {
+      return undefined;
+    }
+
+    this.recordings.delete(sessionId);
+    recording.endTime = new Date();
+
+    // ffmpeg normally exits by itself once the source stream closes;
+    // ask it to finish the file if it is still running after the timeout
+    await stopFfmpeg(recording.ffmpeg, this.stopTimeoutMs);
+
+    logger.info(`Recording stopped: ${recording.streamKey}`);
+    return this.toSession(recording);
+  }
+
+  isRecording(sessionId: string): boolean {
+    return this.recordings.has(sessionId);
+  }
+
+  async stopAll(): Promise<IRecordingSession[]> {
+    const ids = Array.from(this.recordings.keys());
+    const stopped = await Promise.all(ids.map((id) => this.stop(id)));
+    return stopped.filter(Boolean);
+  }
+
+  private toSession(recording: IActiveRecording): IRecordingSession {
+    return {
+      sessionId: recording.sessionId,
+      streamKey: recording.streamKey,
+      streamPath: recording.streamPath,
+      filePath: recording.filePath,
+      startTime: recording.startTime,
+      endTime: recording.endTime,
+    };
+  }
+}
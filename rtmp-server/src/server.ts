@@ -1,25 +1,339 @@
 import NodeMediaServer from "node-media-server";
+import { EventEmitter } from "events";
 import { StorageFactory } from "./storage/storage-factory";
-import { BaseStorage } from "./storage/base-storage";
+import { BaseStorage, IStorageMetadata } from "./storage/base-storage";
+import { LocalStorage } from "./storage/local-storage";
+import { StreamRecorder } from "./recording/stream-recorder";
+import { JobQueue } from "./jobs/job-queue";
+import { JobStoreFactory } from "./jobs/job-store-factory";
+import {
+  RecordingProcessor,
+  IRecordingFailure,
+} from "./recording/recording-processor";
+import {
+  ApiServer,
+  ILiveStreamInfo,
+  IStreamController,
+} from "./api/api-server";
+import {
+  ITranscodeConfig,
+  loadTranscodeConfig,
+} from "./transcoding/transcode-config";
+import { AbrTranscoder } from "./transcoding/abr-transcoder";
+import { LowLatencyHlsPackager } from "./transcoding/ll-hls-packager";
+import { DashPackager } from "./transcoding/dash-packager";
+import { registerLowLatencyRoutes } from "./api/ll-hls-routes";
+import { registerThumbnailRoutes } from "./api/thumbnail-routes";
+import { AuthorizerFactory } from "./auth/authorizer-factory";
+import { BaseStreamAuthorizer } from "./auth/base-authorizer";
+import { StreamKeyService } from "./keys/stream-key-service";
+import { StreamKeyStoreFactory } from "./keys/key-store-factory";
+import {
+  DuplicatePublisherPolicy,
+  IngestSource,
+  IPublisherSession,
+  PublisherRegistry,
+  parseDuplicatePublisherPolicy,
+} from "./publishing/publisher-registry";
+import {
+  describePlayer,
+  getPublisherId,
+  getTrafficTotals,
+  interceptHttpRequests,
+  movePublisher,
+  rekeyTransSession,
+  switchPublisher,
+} from "./publishing/nms-context";
+import { FailoverMonitor } from "./publishing/failover-monitor";
+import {
+  IStreamHealth,
+  StreamHealthCollector,
+} from "./health/stream-health-collector";
+import { loadHealthTargets } from "./health/health-targets";
+import {
+  IViewerStats,
+  ViewerAnalytics,
+  viewerClientKey,
+} from "./viewers/viewer-analytics";
+import { ViewerSummaryStore } from "./viewers/viewer-summary-store";
+import {
+  PlaybackGuard,
+  tokenizeManifest,
+  tokenizePlaylist,
+} from "./auth/playback-guard";
+import { RtmpMetrics } from "./metrics/rtmp-metrics";
+import { ThumbnailGenerator } from "./thumbnails/thumbnail-generator";
+import {
+  RecordingRemuxer,
+  parseRecordingFormat,
+} from "./recording/recording-remuxer";
 import { logger } from "./utils/logger";
 import fs from "fs-extra";
 import dotenv from "dotenv";
 import path from "node:path";
+import { IncomingMessage, ServerResponse } from "http";
+import { FastifyRequest } from "fastify";
 
 // Load environment-specific config
 dotenv.config({ path: `.env.${process.env.NODE_ENV || "development"}` });
 
-export default class RTMPServer {
+const RECORDED_APPS = ["live"];
+
+// NMS app that duplicate publishers are parked on; it has no trans tasks
+const STANDBY_APP = "__standby";
+
+// LL-HLS requests by the route they matched: the raw URL may be
+// percent-encoded (`/%6cl/...`) and still reach these routes
+function lowLatencyUrl(request: FastifyRequest): string | null {
+  const route = request.routeOptions.url;
+  if (!route?.startsWith("/ll/")) return null;
+
+  const params = request.params as Record<string, string>;
+  const query = request.url.indexOf("?");
+  return (
+    route.replace(/:(\w+)/g, (_, name) => params[name]) +
+    (query === -1 ? "" : request.url.slice(query))
+  );
+}
+
+export interface IDuplicatePublisherDecision {
+  policy: DuplicatePublisherPolicy;
+  action: "rejected" | "kicked" | "standby" | "promoted";
+  channelId: string;
+  streamPath: string;
+  // The session the decision was made for
+  sessionId: string;
+  // The publisher that already held (or just left) the stream
+  incumbentId?: string;
+}
+
+export interface IFailoverEvent {
+  reason: "disconnected" | "stalled" | "recovered";
+  channelId: string;
+  streamPath: string;
+  fromSessionId: string;
+  toSessionId: string;
+  toIngest: IngestSource;
+}
+
+export default class RTMPServer
+  extends EventEmitter
+  implements IStreamController
+{
   private nms: NodeMediaServer;
   private storage: BaseStorage;
+  private authorizer: BaseStreamAuthorizer | null;
+  private streamKeys: StreamKeyService;
   private tempPath: string;
-  private sessionMap = new Map<string, string>();
+  private publishers = new PublisherRegistry();
+  private duplicatePolicy: DuplicatePublisherPolicy;
+  // Pipelines of a departed publisher still shutting down, by stream path
+  private draining = new Map<string, Promise<void>>();
+  // Session id the running pipelines were started under, by stream path.
+  // Failover hands the path to another session but keeps the pipelines.
+  private pipelineOwners = new Map<string, string>();
+  private failoverEnabled: boolean;
+  private backupSuffix: string;
+  private failoverMonitor: FailoverMonitor;
+  private failoverTimer: NodeJS.Timeout | null = null;
+  private healthCollector: StreamHealthCollector;
+  private viewers: ViewerAnalytics;
+  private viewerSummaries: ViewerSummaryStore;
+  // Null when playback is public
+  private playbackGuard: PlaybackGuard | null;
+  private metrics: RtmpMetrics;
+  private thumbnails: ThumbnailGenerator | null;
+  private recorder: StreamRecorder;
+  private recordingJobs: JobQueue;
+  private recordingProcessor: RecordingProcessor;
+  // Recordings of ended publishers not yet queued; stop() waits for them
+  private queueingRecordings = new Set<Promise<void>>();
+  private recordingEnabled: boolean;
+  private apiServer: ApiServer;
+  private transcodeConfig: ITranscodeConfig;
+  private abrTranscoder: AbrTranscoder;
+  private llHlsPackager: LowLatencyHlsPackager;
+  private dashPackager: DashPackager;
 
   constructor() {
+    super();
     this.storage = StorageFactory.createStorage();
+    this.streamKeys = new StreamKeyService(StreamKeyStoreFactory.createStore());
+    this.authorizer = AuthorizerFactory.createAuthorizer(this.streamKeys);
+    this.playbackGuard = PlaybackGuard.fromEnv();
     this.tempPath = process.env.LOCAL_TEMP_PATH || "./temp_media";
+    this.recordingEnabled = process.env.RECORDING_ENABLED !== "false";
+    this.duplicatePolicy = parseDuplicatePublisherPolicy(
+      process.env.DUPLICATE_PUBLISHER_POLICY
+    );
+    this.failoverEnabled = process.env.INGEST_FAILOVER_ENABLED === "true";
+    this.backupSuffix = process.env.INGEST_BACKUP_SUFFIX || "_backup";
+    this.failoverMonitor = new FailoverMonitor(
+      {
+        stallTimeoutMs: parseInt(process.env.INGEST_STALL_TIMEOUT_MS || "5000"),
+        recoveryMs: parseInt(process.env.INGEST_RECOVERY_MS || "10000"),
+      },
+      (sessionId) => this.nms.getSession(sessionId)?.socket?.bytesRead
+    );
+    this.healthCollector = new StreamHealthCollector(
+      (sessionId) => this.nms.getSession(sessionId),
+      loadHealthTargets(),
+      {
+        sampleIntervalMs: parseInt(
+          process.env.HEALTH_SAMPLE_INTERVAL_MS || "5000"
+        ),
+        historySize: parseInt(process.env.HEALTH_HISTORY_SIZE || "60"),
+      }
+    );
+    this.healthCollector.on("warning", (warning) =>
+      this.emit("healthWarning", warning)
+    );
+    this.recorder = new StreamRecorder(path.join(this.tempPath, "recordings"));
+    this.thumbnails =
+      process.env.THUMBNAILS_ENABLED !== "false"
+        ? new ThumbnailGenerator(
+            this.storage,
+            path.join(this.tempPath, "thumbnails")
+          )
+        : null;
+    this.recordingJobs = new JobQueue(JobStoreFactory.createStore(), {
+      concurrency: parseInt(process.env.RECORDING_JOB_CONCURRENCY || "1"),
+      maxAttempts: parseInt(process.env.RECORDING_MAX_RETRIES || "3") + 1,
+      backoffMs: parseInt(process.env.RECORDING_RETRY_DELAY_MS || "5000"),
+      maxBackoffMs: parseInt(
+        process.env.RECORDING_RETRY_MAX_DELAY_MS || "300000"
+      ),
+      retentionMs: parseInt(
+        process.env.RECORDING_JOB_RETENTION_MS || "86400000"
+      ),
+    });
+    this.recordingProcessor = new RecordingProcessor(
+      this.storage,
+      this.recordingJobs,
+      this.thumbnails,
+      new RecordingRemuxer(parseRecordingFormat(process.env.RECORDING_FORMAT))
+    );
+    this.viewers = new ViewerAnalytics(
+      parseInt(process.env.HLS_VIEWER_WINDOW_MS || "30000"),
+      (app) => !!this.transcodeConfig.apps[app]?.dash
+    );
+    this.viewerSummaries = new ViewerSummaryStore(
+      process.env.VIEWER_SUMMARY_FILE || "./data/viewer-summaries.jsonl"
+    );
+    this.metrics = new RtmpMetrics({
+      publishers: () => this.publishers.list(),
+      viewers: () => this.viewers.concurrentByProtocol(),
+      traffic: () => getTrafficTotals(),
+      storage: this.storage,
+    });
+    this.recordingProcessor.on("saved", (result) => {
+      this.metrics.observeRecording("saved");
+      this.emit("recordingSaved", result);
+    });
+    this.recordingProcessor.on("failed", (failure: IRecordingFailure) => {
+      this.metrics.observeRecording("failed");
+      this.emit("recordingFailed", failure);
+    });
+    this.storage.on("uploadProgress", (progress) =>
+      this.emit("recordingUploadProgress", progress)
+    );
+    this.transcodeConfig = loadTranscodeConfig();
+    this.abrTranscoder = new AbrTranscoder(this.tempPath);
+    this.llHlsPackager = new LowLatencyHlsPackager(this.tempPath);
+    this.dashPackager = new DashPackager(this.tempPath);
     this.initializeTempDirectory();
     this.setupRTMPServer();
+    this.apiServer = new ApiServer(
+      this,
+      this.storage,
+      this.streamKeys,
+      this.metrics,
+      this.recordingJobs
+    );
+    registerLowLatencyRoutes(this.apiServer.getInstance(), this.llHlsPackager);
+    if (this.storage instanceof LocalStorage) {
+      registerThumbnailRoutes(this.apiServer.getInstance(), this.storage);
+    }
+    // LL-HLS is served by the control API rather than NMS; the rest of
+    // the control API (e.g. /api/recordings/<key>.mp4) is not playback
+    this.apiServer
+      .getInstance()
+      .addHook("onRequest", async (request, reply) => {
+        const url = lowLatencyUrl(request);
+        if (!url) return;
+        const check = this.playbackGuard?.checkRequest(url, request.ip);
+        if (check && !check.allowed) {
+          return reply.code(403).send({ error: "Playback not authorized" });
+        }
+        this.viewers.observeHttp(
+          url,
+          viewerClientKey(request.ip, request.headers["user-agent"])
+        );
+      });
+    this.apiServer
+      .getInstance()
+      .addHook("onSend", async (request, reply, payload) => {
+        const url = lowLatencyUrl(request);
+        if (!url) return payload;
+        const check = this.playbackGuard?.checkRequest(url, request.ip);
+        if (
+          check?.allowed &&
+          check.kind === "playlist" &&
+          reply.statusCode === 200 &&
+          typeof payload === "string"
+        ) {
+          return tokenizePlaylist(payload, check.token);
+        }
+        return payload;
+      });
+  }
+
+  // Answers HLS/DASH requests to NMS that are unauthorized, or whose
+  // playlist must carry the token; everything else is left to NMS
+  private handleMediaRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): boolean {
+    const ip = req.socket.remoteAddress || "";
+    const check = this.playbackGuard?.checkRequest(req.url || "", ip);
+    if (check && !check.allowed) {
+      logger.warn("Playback rejected", {
+        streamPath: check.streamPath,
+        ip,
+        reason: check.reason,
+      });
+      res.writeHead(403).end();
+      return true;
+    }
+
+    this.viewers.observeHttp(
+      req.url || "",
+      viewerClientKey(ip, req.headers["user-agent"])
+    );
+    if (!check || check.kind === "segment" || req.method !== "GET") {
+      return false;
+    }
+
+    const { pathname } = new URL(req.url, "http://localhost");
+    fs.readFile(path.join(this.tempPath, pathname), "utf8")
+      .then((body) => {
+        const playlist = check.kind === "playlist";
+        res
+          .writeHead(200, {
+            "Content-Type": playlist
+              ? "application/vnd.apple.mpegurl"
+              : "application/dash+xml",
+            "Access-Control-Allow-Origin": "*",
+            "Cache-Control": "no-cache",
+          })
+          .end(
+            playlist
+              ? tokenizePlaylist(body, check.token)
+              : tokenizeManifest(body, check.token)
+          );
+      })
+      .catch(() => res.writeHead(404).end());
+    return true;
   }
 
   private async initializeTempDirectory(): Promise<void> {
@@ -56,13 +370,7 @@ export default class RTMPServer {
       },
       trans: {
         ffmpeg: process.env.FFMPEG_PATH || "/usr/local/bin/ffmpeg",
-        tasks: [
-          {
-            app: "live",
-            hls: true,
-            hlsFlags: "[hls_time=2:hls_list_size=3:hls_flags=delete_segments]",
-          },
-        ],
+        tasks: this.buildTransTasks(),
       },
     };
 
@@ -70,42 +378,611 @@ export default class RTMPServer {
     this.setupEventHandlers();
   }
 
+  // ABR, LL-HLS and DASH apps are packaged by our own ffmpeg processes, not NMS
+  private buildTransTasks() {
+    return Object.entries(this.transcodeConfig.apps)
+      .filter(
+        ([, appConfig]) =>
+          !appConfig.abr && !appConfig.lowLatency && !appConfig.dash
+      )
+      .map(([app, { hls }]) => ({
+        app,
+        hls: true,
+        hlsFlags: `[hls_time=${hls.segmentDuration}:hls_list_size=${hls.listSize}:hls_flags=delete_segments]`,
+      }));
+  }
+
   private setupEventHandlers(): void {
-    this.nms.on("prePublish", async (id: string, StreamPath: string) => {
-      const session = this.nms.getSession(id);
-      const streamKey = StreamPath.split("/").pop();
-      logger.info("[prePublish]", `id=${id} streamKey=${streamKey}`);
-      try {
-        if (!streamKey) {
-          logger.error("❌ StreamKey không hợp lệ, từ chối kết nối.");
-          session.reject();
+    this.nms.on(
+      "prePublish",
+      async (id: string, StreamPath: string, args: Record<string, string>) => {
+        const session = this.nms.getSession(id);
+        const [, app, publishedKey] = StreamPath.split("/");
+        // `<key>_backup` is the backup ingest of the same channel
+        const ingest: IngestSource =
+          this.failoverEnabled && publishedKey?.endsWith(this.backupSuffix)
+            ? "backup"
+            : "main";
+        const streamKey =
+          ingest === "backup"
+            ? publishedKey.slice(0, -this.backupSuffix.length)
+            : publishedKey;
+        // Managed keys publish under their channel id so the secret never
+        // shows up in playback URLs or file names. This must run before the
+        // first await: NMS registers the publish path right after prePublish.
+        const channel = streamKey ? this.streamKeys.resolve(streamKey) : null;
+        const channelId = channel ? channel.channelId : streamKey;
+        const publishPath = `/${app}/${channelId}`;
+        if (channel && session) {
+          session.publishStreamPath = publishPath;
+        }
+        logger.info(
+          "[prePublish]",
+          `id=${id} channel=${channelId} ingest=${ingest}`
+        );
+
+        // Backup ingests, and a main ingest returning while its backup is
+        // on air, wait on standby for the failover logic to switch them in
+        const incumbentId = streamKey && getPublisherId(publishPath);
+        const onAir = incumbentId && this.publishers.get(incumbentId);
+        const standby = ingest === "backup" || onAir?.ingest === "backup";
+
+        // Someone already publishes here. Unless the newcomer is rejected
+        // outright, park it on a private path so NMS accepts the connection
+        // while we authorize it and decide who keeps the stream.
+        if ((incumbentId || standby) && session) {
+          if (!standby && this.duplicatePolicy === "reject") {
+            this.recordDecision("rejected", {
+              channelId,
+              streamPath: publishPath,
+              sessionId: id,
+              incumbentId,
+            });
+            session.reject();
+            return;
+          }
+          session.publishStreamPath = this.standbyPath(channelId, id);
+        }
+
+        try {
+          if (!streamKey) {
+            logger.error("❌ StreamKey không hợp lệ, từ chối kết nối.");
+            session.reject();
+            return;
+          }
+          if (this.authorizer) {
+            const result = await this.authorizer.authorize({
+              app,
+              streamKey,
+              args: args || {},
+              ip: session?.ip,
+            });
+            if (!result.allowed) {
+              logger.error("❌ Stream key rejected", {
+                streamKey,
+                reason: result.reason,
+              });
+              session?.reject();
+              return;
+            }
+          }
+          // The publisher may have disconnected while we were authorizing
+          if (!session?.isStarting) return;
+          this.healthCollector.track(id, channelId);
+
+          const publisher: IPublisherSession = {
+            sessionId: id,
+            app,
+            channelId,
+            streamPath: publishPath,
+            role: "primary",
+            ingest,
+            connectedAt: new Date(),
+          };
+          if (standby) {
+            await this.admitStandby(publisher);
+          } else if (incumbentId) {
+            await this.admitDuplicate(publisher);
+          } else {
+            this.publishers.add(publisher);
+            this.startPipelines(id, publishPath, app, channelId);
+          }
+        } catch (error) {
+          // Nếu lỗi gọi API (500, timeout, v.v.)
+          logger.error("❌ Lỗi khi gọi API xác thực:", error.message);
+          session?.reject();
           return;
         }
-        this.sessionMap.set(streamKey, id);
-      } catch (error) {
-        // Nếu lỗi gọi API (500, timeout, v.v.)
-        logger.error("❌ Lỗi khi gọi API xác thực:", error.message);
-        session.reject();
-        return;
       }
+    );
+    // Signed playback tokens for RTMP, FLV and WS-FLV players
+    this.nms.on(
+      "prePlay",
+      (id: string, StreamPath: string, args: Record<string, string>) => {
+        const player = describePlayer(id);
+        if (!this.playbackGuard || !player) return;
+
+        const result = this.playbackGuard.checkPlayer(
+          StreamPath,
+          args,
+          player.ip
+        );
+        if (!result.allowed) {
+          logger.warn("Playback rejected", {
+            streamPath: StreamPath,
+            ip: player.ip,
+            reason: result.reason,
+          });
+          this.nms.getSession(id)?.reject();
+        }
+      }
+    );
+
+    // Viewer sessions; players waiting for a publisher count once it is live
+    this.nms.on("postPlay", (id: string, StreamPath: string) => {
+      const player = describePlayer(id);
+      if (!player) return;
+      this.viewers.join(
+        id,
+        StreamPath,
+        player.protocol,
+        viewerClientKey(player.ip, player.userAgent)
+      );
     });
-    this.nms.on("donePublish", async (id: string, StreamPath: string) => {
+    this.nms.on("donePlay", (id: string) => this.viewers.leave(id));
+
+    this.nms.on("donePublish", async (id: string) => {
       const session = this.nms.getSession(id);
-      const streamKey = StreamPath.split("/").pop();
-      try {
-        this.sessionMap.delete(streamKey);
-      } catch (error) {
-        logger.error("❌ Lỗi khi xác thực stream:", error.message);
-        session.reject();
-        this.sessionMap.delete(streamKey);
+      const publisher = this.publishers.remove(id);
+      this.failoverMonitor.forget(id);
+      this.healthCollector.untrack(id);
+      // Rejected before it was authorized: nothing was started
+      if (!publisher) return;
+      if (publisher.role === "backup") {
+        logger.info(
+          `Backup publisher left: id=${id} channel=${publisher.channelId}`
+        );
+        return;
+      }
+
+      // Must happen before the first await: NMS unregisters the path and
+      // drops its viewers right after donePublish returns
+      if (this.failoverEnabled && this.failOver(publisher, "disconnected")) {
         return;
       }
+
+      this.thumbnails?.stopLive(publisher.streamPath);
+      const audience = this.viewers.endStream(publisher.streamPath);
+      if (audience) {
+        this.viewerSummaries
+          .save(audience)
+          .catch((error) =>
+            logger.error(
+              `Failed to save viewer summary: ${publisher.channelId}`,
+              error
+            )
+          );
+      }
+
+      // Read stream info before NMS tears the session down
+      const quality = this.describeQuality(session);
+      const owner = this.pipelineOwners.get(publisher.streamPath) || id;
+      this.pipelineOwners.delete(publisher.streamPath);
+      const drained = this.stopPipelines(owner);
+      this.draining.set(publisher.streamPath, drained);
+      await drained;
+      if (this.draining.get(publisher.streamPath) === drained) {
+        this.draining.delete(publisher.streamPath);
+      }
+
+      if (this.duplicatePolicy === "backup") {
+        await this.promoteBackup(publisher);
+      }
+      await this.processRecording(owner, { quality });
     });
   }
 
+  private standbyPath(channelId: string, sessionId: string): string {
+    return `/${STANDBY_APP}/${channelId}-${sessionId}`;
+  }
+
+  // A backup ingest, or a main ingest returning while its backup is on air
+  private async admitStandby(publisher: IPublisherSession): Promise<void> {
+    const { sessionId, streamPath, channelId, ingest } = publisher;
+
+    // Same ingest connected twice, e.g. an encoder reconnecting before its
+    // old connection timed out
+    const twin = this.publishers
+      .forChannel(channelId)
+      .find((s) => s.streamPath === streamPath && s.ingest === ingest);
+    if (twin) {
+      const details = {
+        channelId,
+        streamPath,
+        sessionId,
+        incumbentId: twin.sessionId,
+      };
+      if (this.duplicatePolicy === "reject") {
+        this.recordDecision("rejected", details);
+        this.nms.getSession(sessionId)?.reject();
+        return;
+      }
+      if (this.duplicatePolicy === "kick") {
+        this.recordDecision("kicked", details);
+        this.nms.getSession(twin.sessionId)?.reject();
+      }
+    }
+
+    // Nothing on air (or it just went away): go live straight away
+    if (!getPublisherId(streamPath)) {
+      await this.takeOver(publisher);
+      return;
+    }
+
+    publisher.role = "backup";
+    this.publishers.add(publisher);
+    logger.info(
+      `Standby ${ingest} ingest ready: id=${sessionId} channel=${channelId}`
+    );
+  }
+
+  // Kick and backup policies, once the parked newcomer is authorized
+  private async admitDuplicate(publisher: IPublisherSession): Promise<void> {
+    const { sessionId, streamPath, channelId } = publisher;
+    const incumbentId = getPublisherId(streamPath);
+
+    if (incumbentId && this.duplicatePolicy === "backup") {
+      publisher.role = "backup";
+      this.publishers.add(publisher);
+      this.recordDecision("standby", {
+        channelId,
+        streamPath,
+        sessionId,
+        incumbentId,
+      });
+      return;
+    }
+
+    if (incumbentId) {
+      this.recordDecision("kicked", {
+        channelId,
+        streamPath,
+        sessionId,
+        incumbentId,
+      });
+      // donePublish runs synchronously and frees the path
+      this.nms.getSession(incumbentId)?.reject();
+    }
+    await this.takeOver(publisher);
+  }
+
+  private async promoteBackup(previous: IPublisherSession): Promise<void> {
+    // The path may have been claimed while the old pipelines were stopping
+    if (getPublisherId(previous.streamPath)) return;
+
+    for (const backup of this.publishers.backupsFor(previous.streamPath)) {
+      if (!this.nms.getSession(backup.sessionId)) {
+        this.publishers.remove(backup.sessionId);
+        continue;
+      }
+      this.recordDecision("promoted", {
+        channelId: backup.channelId,
+        streamPath: backup.streamPath,
+        sessionId: backup.sessionId,
+        incumbentId: previous.sessionId,
+      });
+      backup.role = "primary";
+      await this.takeOver(backup);
+      return;
+    }
+  }
+
+  // Moves a parked session onto the viewers' path and starts its pipelines
+  private async takeOver(publisher: IPublisherSession): Promise<void> {
+    const { sessionId, streamPath, app, channelId } = publisher;
+    // Packagers write to a directory named after the channel, so the
+    // previous publisher's must be gone before ours start
+    await this.draining.get(streamPath);
+    const session = this.nms.getSession(sessionId);
+    if (!session?.isStarting) return;
+    if (getPublisherId(streamPath)) {
+      logger.error(`${streamPath} was claimed by another publisher`, {
+        sessionId,
+      });
+      session.reject();
+      return;
+    }
+
+    movePublisher(sessionId, streamPath);
+    publisher.role = "primary";
+    this.publishers.add(publisher);
+    this.startPipelines(sessionId, streamPath, app, channelId);
+  }
+
+  /**
+   * Puts a standby on air in place of `onAir`, keeping viewers and
+   * pipelines attached. Picks the best standby unless `target` is given.
+   * Returns false when there is no standby to switch to.
+   */
+  private failOver(
+    onAir: IPublisherSession,
+    reason: IFailoverEvent["reason"],
+    target?: IPublisherSession
+  ): boolean {
+    const next =
+      target ||
+      this.failoverMonitor.pickStandby(
+        this.publishers
+          .backupsFor(onAir.streamPath)
+          .filter((s) => this.nms.getSession(s.sessionId)?.isPublishing)
+      );
+    if (!next) return false;
+
+    try {
+      switchPublisher(
+        onAir.sessionId,
+        next.sessionId,
+        this.standbyPath(onAir.channelId, onAir.sessionId)
+      );
+    } catch (error) {
+      logger.error(`Failover failed for ${onAir.streamPath}:`, error);
+      return false;
+    }
+    rekeyTransSession(this.nms, onAir.sessionId, next.sessionId);
+    onAir.role = "backup";
+    next.role = "primary";
+
+    const event: IFailoverEvent = {
+      reason,
+      channelId: onAir.channelId,
+      streamPath: onAir.streamPath,
+      fromSessionId: onAir.sessionId,
+      toSessionId: next.sessionId,
+      toIngest: next.ingest,
+    };
+    logger.info(
+      `[failover] ${reason}: ${event.streamPath} -> ${next.ingest} ingest id=${next.sessionId}`,
+      event
+    );
+    this.emit("failover", event);
+    return true;
+  }
+
+  // Periodic check for stalled publishers and recovered main ingests
+  private checkFailover(): void {
+    const sessions = this.publishers.list();
+    this.failoverMonitor.sample(sessions.map((s) => s.sessionId));
+
+    for (const onAir of sessions.filter((s) => s.role === "primary")) {
+      const standbys = this.publishers.backupsFor(onAir.streamPath);
+      if (standbys.length === 0) continue;
+
+      const target = this.failoverMonitor.chooseSource(onAir, standbys);
+      if (!target) continue;
+      const reason = this.failoverMonitor.isStalled(onAir.sessionId)
+        ? "stalled"
+        : "recovered";
+      this.failOver(onAir, reason, target);
+    }
+  }
+
+  private recordDecision(
+    action: IDuplicatePublisherDecision["action"],
+    details: Omit<IDuplicatePublisherDecision, "policy" | "action">
+  ): void {
+    const decision: IDuplicatePublisherDecision = {
+      policy: this.duplicatePolicy,
+      action,
+      ...details,
+    };
+    logger.info(
+      `[duplicatePublisher] ${action} id=${decision.sessionId} channel=${decision.channelId}`,
+      decision
+    );
+    this.emit("duplicatePublisher", decision);
+  }
+
+  private async stopPipelines(sessionId: string): Promise<void> {
+    await this.abrTranscoder.stop(sessionId);
+    await this.llHlsPackager.stop(sessionId);
+    await this.dashPackager.stop(sessionId);
+  }
+
+  private startPipelines(
+    sessionId: string,
+    streamPath: string,
+    app: string,
+    streamKey: string
+  ): void {
+    this.pipelineOwners.set(streamPath, sessionId);
+    this.viewers.startStream(streamPath, streamKey);
+    this.thumbnails?.startLive(streamPath, streamKey);
+    if (this.recordingEnabled && RECORDED_APPS.includes(app)) {
+      this.recorder.start(sessionId, streamPath, streamKey);
+    }
+
+    const appConfig = this.transcodeConfig.apps[app];
+    // DASH apps encode their own ladder so HLS and DASH share one set of segments
+    if (appConfig?.dash) {
+      this.dashPackager
+        .start(
+          sessionId,
+          streamPath,
+          streamKey,
+          appConfig.hls,
+          appConfig.dash,
+          appConfig.abr
+        )
+        .catch((error) =>
+          logger.error(`Failed to start DASH packaging: ${streamKey}`, error)
+        );
+    } else if (appConfig?.abr) {
+      this.abrTranscoder
+        .start(sessionId, streamPath, streamKey, appConfig.abr, appConfig.hls)
+        .catch((error) =>
+          logger.error(`Failed to start ABR transcoding: ${streamKey}`, error)
+        );
+    } else if (appConfig?.lowLatency) {
+      this.llHlsPackager
+        .start(
+          sessionId,
+          streamPath,
+          streamKey,
+          appConfig.hls,
+          appConfig.lowLatency
+        )
+        .catch((error) =>
+          logger.error(`Failed to start LL-HLS packaging: ${streamKey}`, error)
+        );
+    }
+  }
+
+  private async processRecording(
+    sessionId: string,
+    metadata: Partial<IStorageMetadata>
+  ): Promise<void> {
+    const queueing = this.queueRecording(sessionId, metadata);
+    this.queueingRecordings.add(queueing);
+    await queueing;
+    this.queueingRecordings.delete(queueing);
+  }
+
+  private async queueRecording(
+    sessionId: string,
+    metadata: Partial<IStorageMetadata>
+  ): Promise<void> {
+    try {
+      const recording = await this.recorder.stop(sessionId);
+      if (!recording) return;
+      await this.recordingProcessor.process(recording, metadata);
+    } catch (error) {
+      logger.error(
+        `Error processing recording for session ${sessionId}:`,
+        error
+      );
+    }
+  }
+
+  // Queues every recording still in progress, so a restart stores them
+  // instead of leaving their FLVs behind in temp
+  private async queueRemainingRecordings(): Promise<void> {
+    const stopped = await this.recorder.stopAll();
+    await Promise.all(
+      stopped.map((recording) =>
+        this.recordingProcessor
+          .process(recording)
+          .catch((error) =>
+            logger.error(
+              `Error processing recording for session ${recording.sessionId}:`,
+              error
+            )
+          )
+      )
+    );
+    // Publishers whose donePublish got to the recording first
+    await Promise.all(this.queueingRecordings);
+  }
+
+  private describeQuality(session: any): string | undefined {
+    if (!session || !session.videoWidth || !session.videoHeight) {
+      return undefined;
+    }
+    const fps = session.videoFps ? `@${session.videoFps}fps` : "";
+    return `${session.videoWidth}x${session.videoHeight}${fps}`;
+  }
+
+  public listLiveStreams(): ILiveStreamInfo[] {
+    const streams: ILiveStreamInfo[] = [];
+
+    for (const publisher of this.publishers.list()) {
+      const session = this.nms.getSession(publisher.sessionId);
+      if (!session) continue;
+
+      streams.push({
+        streamKey: publisher.channelId,
+        sessionId: publisher.sessionId,
+        app: publisher.app,
+        role: publisher.role,
+        ingest: publisher.ingest,
+        thumbnail:
+          publisher.role === "primary"
+            ? this.thumbnails?.getLiveSnapshot(publisher.streamPath) ||
+              undefined
+            : undefined,
+        ip: session.ip,
+        connectedAt: session.connectTime,
+        bitrate: session.bitrate,
+        video: session.videoCodec
+          ? {
+              codec: session.videoCodecName,
+              width: session.videoWidth,
+              height: session.videoHeight,
+              fps: session.videoFps,
+            }
+          : undefined,
+        audio: session.audioCodec
+          ? {
+              codec: session.audioCodecName,
+              samplerate: session.audioSamplerate,
+              channels: session.audioChannels,
+            }
+          : undefined,
+      });
+    }
+
+    return streams;
+  }
+
+  public getStreamHealth(streamKey?: string): IStreamHealth[] {
+    return streamKey
+      ? this.healthCollector.get(streamKey)
+      : this.healthCollector.list();
+  }
+
+  public getViewerStats(streamKey?: string): IViewerStats[] {
+    const stats = this.viewers.list();
+    return streamKey
+      ? stats.filter((stream) => stream.channelId === streamKey)
+      : stats;
+  }
+
+  public listViewerSummaries(streamKey: string): Promise<IViewerStats[]> {
+    return this.viewerSummaries.list(streamKey);
+  }
+
+  public kickPublisher(streamKey: string): boolean {
+    // Backups first so none of them takes over from the kicked primary
+    const sessions = this.publishers
+      .forChannel(streamKey)
+      .sort((a, b) => (a.role === "backup" ? -1 : b.role === "backup" ? 1 : 0));
+    let kicked = false;
+
+    for (const publisher of sessions) {
+      const session = this.nms.getSession(publisher.sessionId);
+      if (!session) continue;
+      // donePublish fires from reject() and cleans up the registry/recording
+      session.reject();
+      kicked = true;
+    }
+    return kicked;
+  }
+
   public async start(): Promise<void> {
     try {
       this.nms.run();
+      interceptHttpRequests(this.nms, (req, res) =>
+        this.handleMediaRequest(req, res)
+      );
+      await this.recordingJobs.start();
+      await this.apiServer.start();
+      this.healthCollector.start();
+      this.metrics.start();
+      if (this.failoverEnabled) {
+        this.failoverTimer = setInterval(
+          () => this.checkFailover(),
+          parseInt(process.env.INGEST_CHECK_INTERVAL_MS || "1000")
+        );
+      }
 
       logger.info("RTMP Server started successfully", {
         rtmpPort: process.env.RTMP_PORT,
@@ -138,7 +1015,17 @@ export default class RTMPServer {
 
   public async stop(): Promise<void> {
     try {
+      if (this.failoverTimer) clearInterval(this.failoverTimer);
+      this.healthCollector.stop();
+      this.metrics.stop();
       this.nms.stop();
+      await this.apiServer.stop();
+      await this.abrTranscoder.stopAll();
+      await this.llHlsPackager.stopAll();
+      await this.dashPackager.stopAll();
+      await this.queueRemainingRecordings();
+      this.recordingJobs.stop();
+      this.thumbnails?.stopAll();
       logger.info("RTMP Server stopped");
     } catch (error) {
       logger.error("Failed to stop RTMP server:", error);
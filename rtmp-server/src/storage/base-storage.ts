@@ -1,10 +1,19 @@
+import { EventEmitter } from "events";
+
 export interface IStorageMetadata {
   streamKey: string;
   fileName: string;
+  // What getRecordingUrl and deleteRecording take, set on listed recordings
+  identifier?: string;
   fileSize: number;
   duration?: number;
   quality?: string;
+  // Poster image; the WebVTT index of the scrubbing sprite sheet
   thumbnailPath?: string;
+  previewVttPath?: string;
+  // Where players fetch them
+  thumbnailUrl?: string;
+  previewVttUrl?: string;
   uploadTime: Date;
 }
 
@@ -16,13 +25,51 @@ export interface IStorageResult {
   error?: string;
 }
 
-export abstract class BaseStorage {
+// Recordings are stored as FLV or, once remuxed, MP4
+export const RECORDING_CONTENT_TYPES: Record<string, string> = {
+  ".flv": "video/x-flv",
+  ".mp4": "video/mp4",
+};
+
+export function isRecordingFile(fileName: string): boolean {
+  return Object.keys(RECORDING_CONTENT_TYPES).some((extension) =>
+    fileName.endsWith(extension)
+  );
+}
+
+export interface IStoredAsset {
+  path: string;
+  url: string;
+}
+
+// Reported while a recording is uploaded, by backends that can
+export interface IStorageUploadProgress {
+  streamKey: string;
+  key: string;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+/**
+ * Emits `uploadProgress` with an IStorageUploadProgress while saving a
+ * recording, when the backend reports progress.
+ */
+export abstract class BaseStorage extends EventEmitter {
   abstract saveRecording(
     tempFilePath: string,
     streamKey: string,
     metadata: Partial<IStorageMetadata>
   ): Promise<IStorageResult>;
 
+  // Stores an image or index next to a stream's recordings, replacing any
+  // previous file of that name. Throws when the upload fails.
+  abstract saveThumbnail(
+    tempFilePath: string,
+    streamKey: string,
+    fileName: string,
+    contentType: string
+  ): Promise<IStoredAsset>;
+
   abstract getRecordingUrl(identifier: string): Promise<string>;
   abstract deleteRecording(identifier: string): Promise<boolean>;
   abstract listRecordings(streamKey?: string): Promise<IStorageMetadata[]>;
@@ -1,17 +1,35 @@
-import { BaseStorage, IStorageMetadata, IStorageResult } from "./base-storage";
+import {
+  BaseStorage,
+  IStorageMetadata,
+  IStorageResult,
+  IStoredAsset,
+  isRecordingFile,
+} from "./base-storage";
 import fs from "fs-extra";
 import path from "path";
 import { logger } from "../utils/logger";
 
+// Metadata the file itself can't tell (duration, previews) is kept next to
+// it in `<recording>.json`
+function detailsPath(filePath: string): string {
+  return `${filePath}.json`;
+}
+
 export class LocalStorage extends BaseStorage {
   private recordingsPath: string;
   private tempPath: string;
+  // Where players reach the control API, which serves the thumbnails
+  private apiPublicUrl: string;
 
   constructor() {
     super();
     this.recordingsPath =
       process.env.LOCAL_RECORDINGS_PATH || "./media/recordings";
     this.tempPath = process.env.LOCAL_TEMP_PATH || "./media/temp";
+    this.apiPublicUrl = (
+      process.env.API_PUBLIC_URL ||
+      `http://localhost:${process.env.FASTIFY_PORT || "8888"}`
+    ).replace(/\/+$/, "");
     this.initializeDirectories();
   }
 
@@ -34,7 +52,8 @@ export class LocalStorage extends BaseStorage {
   ): Promise<IStorageResult> {
     try {
       const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const fileName = `${streamKey}_${timestamp}.flv`;
+      const extension = path.extname(tempFilePath) || ".flv";
+      const fileName = `${streamKey}_${timestamp}${extension}`;
       const finalPath = path.join(this.recordingsPath, fileName);
 
       if (!(await fs.pathExists(tempFilePath))) {
@@ -42,6 +61,7 @@ export class LocalStorage extends BaseStorage {
       }
 
       await fs.move(tempFilePath, finalPath);
+      await fs.writeJson(detailsPath(finalPath), metadata);
       const stats = await fs.stat(finalPath);
 
       const result: IStorageResult = {
@@ -74,6 +94,37 @@ export class LocalStorage extends BaseStorage {
     }
   }
 
+  async saveThumbnail(
+    tempFilePath: string,
+    streamKey: string,
+    fileName: string
+  ): Promise<IStoredAsset> {
+    const relativePath = path.posix.join("thumbnails", streamKey, fileName);
+    const finalPath = path.join(this.recordingsPath, relativePath);
+
+    await fs.ensureDir(path.dirname(finalPath));
+    await fs.move(tempFilePath, finalPath, { overwrite: true });
+
+    // Served by the control API; NMS only serves the temp directory
+    return {
+      path: finalPath,
+      url: `${this.apiPublicUrl}/recordings/${relativePath}`,
+    };
+  }
+
+  // Null for names that would leave the thumbnails directory. Route params
+  // arrive decoded, so `%2F` shows up here as a separator.
+  getThumbnailFile(streamKey: string, fileName: string): string | null {
+    if (
+      [streamKey, fileName].some(
+        (part) => !part || part.startsWith(".") || /[\\/]/.test(part)
+      )
+    ) {
+      return null;
+    }
+    return path.join(this.recordingsPath, "thumbnails", streamKey, fileName);
+  }
+
   async getRecordingUrl(fileName: string): Promise<string> {
     const filePath = path.join(this.recordingsPath, fileName);
 
@@ -90,6 +141,7 @@ export class LocalStorage extends BaseStorage {
 
       if (await fs.pathExists(filePath)) {
         await fs.remove(filePath);
+        await fs.remove(detailsPath(filePath));
         logger.info(`Recording deleted: ${fileName}`);
         return true;
       }
@@ -107,14 +159,16 @@ export class LocalStorage extends BaseStorage {
       const recordings: IStorageMetadata[] = [];
 
       for (const file of files) {
-        if (file.endsWith(".flv")) {
+        if (isRecordingFile(file)) {
           if (!streamKey || file.startsWith(streamKey)) {
             const filePath = path.join(this.recordingsPath, file);
             const stats = await fs.stat(filePath);
 
             recordings.push({
+              ...(await this.readDetails(filePath)),
               streamKey: file.split("_")[0],
               fileName: file,
+              identifier: file,
               fileSize: stats.size,
               uploadTime: stats.birthtime,
             });
@@ -131,6 +185,17 @@ export class LocalStorage extends BaseStorage {
     }
   }
 
+  // Recordings saved before details were kept have none
+  private async readDetails(
+    filePath: string
+  ): Promise<Partial<IStorageMetadata>> {
+    try {
+      return (await fs.readJson(detailsPath(filePath))) || {};
+    } catch {
+      return {};
+    }
+  }
+
   async getStorageInfo(): Promise<{ used: number; available: number }> {
     try {
       const files = await fs.readdir(this.recordingsPath);
@@ -0,0 +1,234 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  CreateMultipartUploadCommandInput,
+  S3Client,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { EventEmitter } from "events";
+import fs from "fs-extra";
+import { logger } from "../utils/logger";
+
+export interface IMultipartOptions {
+  // Bytes per part; S3 requires at least 5 MiB for all but the last part
+  partSize: number;
+  // Parts uploaded at the same time
+  concurrency: number;
+}
+
+export interface IUploadProgress {
+  key: string;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+interface IUploadCheckpoint {
+  bucket: string;
+  key: string;
+  uploadId: string;
+  fileSize: number;
+  partSize: number;
+  parts: { PartNumber: number; ETag: string }[];
+}
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export function loadMultipartOptions(): IMultipartOptions {
+  return {
+    partSize: Math.max(
+      MIN_PART_SIZE,
+      parseInt(process.env.S3_MULTIPART_PART_SIZE_MB || "16") * 1024 * 1024
+    ),
+    concurrency: Math.max(
+      1,
+      parseInt(process.env.S3_MULTIPART_CONCURRENCY || "4")
+    ),
+  };
+}
+
+// Kept next to the file being uploaded, removed once the upload completes
+export function checkpointPath(filePath: string): string {
+  return `${filePath}.upload.json`;
+}
+
+/**
+ * Multipart upload of a single file. Every finished part is written to a
+ * checkpoint, so the next attempt after a failure or a restart sends only
+ * the missing parts, under the key the upload was started with.
+ *
+ * Emits `progress` with an IUploadProgress after every part.
+ */
+export class MultipartUpload extends EventEmitter {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private s3: S3Client, private options: IMultipartOptions) {
+    super();
+  }
+
+  // `params` only apply when the upload starts; a resumed one keeps them
+  async upload(
+    filePath: string,
+    bucket: string,
+    key: string,
+    params: Omit<CreateMultipartUploadCommandInput, "Bucket" | "Key">
+  ): Promise<{ key: string; location: string }> {
+    const fileSize = (await fs.stat(filePath)).size;
+    let checkpoint = await this.loadCheckpoint(filePath, bucket, fileSize);
+
+    if (checkpoint) {
+      logger.info(
+        `Resuming upload of ${checkpoint.key}: ${checkpoint.parts.length} parts already uploaded`
+      );
+    } else {
+      const { UploadId } = await this.s3.send(
+        new CreateMultipartUploadCommand({
+          Bucket: bucket,
+          Key: key,
+          ...params,
+        })
+      );
+      checkpoint = {
+        bucket,
+        key,
+        uploadId: UploadId,
+        fileSize,
+        partSize: this.options.partSize,
+        parts: [],
+      };
+      await this.saveCheckpoint(filePath, checkpoint);
+    }
+
+    try {
+      await this.uploadMissingParts(filePath, checkpoint);
+      const result = await this.s3.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: bucket,
+          Key: checkpoint.key,
+          UploadId: checkpoint.uploadId,
+          MultipartUpload: {
+            Parts: [...checkpoint.parts].sort(
+              (a, b) => a.PartNumber - b.PartNumber
+            ),
+          },
+        })
+      );
+      await this.writeQueue;
+      await fs.remove(checkpointPath(filePath));
+      return { key: checkpoint.key, location: result.Location };
+    } catch (error) {
+      // Aborted as orphaned or expired: the next attempt starts over
+      if (error.name === "NoSuchUpload") {
+        await this.writeQueue.catch(() => undefined);
+        await fs.remove(checkpointPath(filePath));
+      }
+      throw error;
+    }
+  }
+
+  private async uploadMissingParts(
+    filePath: string,
+    checkpoint: IUploadCheckpoint
+  ): Promise<void> {
+    const { fileSize, partSize } = checkpoint;
+    const partCount = Math.max(1, Math.ceil(fileSize / partSize));
+    const partBytes = (partNumber: number) =>
+      Math.min(partSize, fileSize - (partNumber - 1) * partSize);
+
+    const done = new Set(checkpoint.parts.map((part) => part.PartNumber));
+    const missing: number[] = [];
+    let uploadedBytes = 0;
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (done.has(partNumber)) uploadedBytes += partBytes(partNumber);
+      else missing.push(partNumber);
+    }
+
+    let failed = false;
+    const worker = async () => {
+      while (missing.length > 0 && !failed) {
+        const partNumber = missing.shift();
+        const start = (partNumber - 1) * partSize;
+        const length = partBytes(partNumber);
+        try {
+          const { ETag } = await this.s3.send(
+            new UploadPartCommand({
+              Bucket: checkpoint.bucket,
+              Key: checkpoint.key,
+              UploadId: checkpoint.uploadId,
+              PartNumber: partNumber,
+              Body: fs.createReadStream(filePath, {
+                start,
+                end: start + length - 1,
+              }),
+              ContentLength: length,
+            })
+          );
+          checkpoint.parts.push({ PartNumber: partNumber, ETag });
+        } catch (error) {
+          // Let the other workers finish their part, but start no new ones
+          failed = true;
+          throw error;
+        }
+        // Taken before awaiting: other workers keep adding to the total
+        const reported = (uploadedBytes += length);
+        await this.saveCheckpoint(filePath, checkpoint);
+        this.emit("progress", {
+          key: checkpoint.key,
+          uploadedBytes: reported,
+          totalBytes: fileSize,
+        } as IUploadProgress);
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.options.concurrency, missing.length) },
+        worker
+      )
+    );
+  }
+
+  // A checkpoint for a different bucket or a file that has since changed
+  // can't be resumed; its upload is aborted so S3 stops keeping the parts
+  private async loadCheckpoint(
+    filePath: string,
+    bucket: string,
+    fileSize: number
+  ): Promise<IUploadCheckpoint | null> {
+    const file = checkpointPath(filePath);
+    if (!(await fs.pathExists(file))) return null;
+
+    const checkpoint = (await fs.readJson(file)) as IUploadCheckpoint;
+    if (checkpoint.bucket === bucket && checkpoint.fileSize === fileSize) {
+      return checkpoint;
+    }
+
+    logger.warn(`Discarding stale upload checkpoint for ${checkpoint.key}`);
+    await this.s3
+      .send(
+        new AbortMultipartUploadCommand({
+          Bucket: checkpoint.bucket,
+          Key: checkpoint.key,
+          UploadId: checkpoint.uploadId,
+        })
+      )
+      .catch(() => undefined);
+    await fs.remove(file);
+    return null;
+  }
+
+  // Serialize writes so a slow one can't overwrite a newer snapshot
+  private saveCheckpoint(
+    filePath: string,
+    checkpoint: IUploadCheckpoint
+  ): Promise<void> {
+    const file = checkpointPath(filePath);
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.writeJson(`${file}.tmp`, checkpoint);
+        await fs.move(`${file}.tmp`, file, { overwrite: true });
+      });
+    return this.writeQueue;
+  }
+}
@@ -1,34 +1,95 @@
-import { BaseStorage, IStorageMetadata, IStorageResult } from "./base-storage";
-import AWS from "aws-sdk";
+import {
+  BaseStorage,
+  IStorageMetadata,
+  IStorageResult,
+  IStoredAsset,
+  RECORDING_CONTENT_TYPES,
+  isRecordingFile,
+} from "./base-storage";
+import {
+  AbortMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommandInput,
+  ListMultipartUploadsCommand,
+  ListObjectsV2Command,
+  ListObjectsV2CommandInput,
+  PutObjectCommand,
+  S3Client,
+  ServerSideEncryption,
+  StorageClass,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import fs from "fs-extra";
 import path from "path";
+import {
+  IMultipartOptions,
+  IUploadProgress,
+  MultipartUpload,
+  loadMultipartOptions,
+} from "./s3-multipart-upload";
 import { logger } from "../utils/logger";
 
+// S3_ENDPOINT/S3_FORCE_PATH_STYLE target MinIO, R2, Spaces and the like.
+// Static keys when S3_ACCESS_KEY is set, otherwise the default provider
+// chain: AWS_* env vars, shared config/SSO profiles, ECS/EC2 roles.
+export function createS3Client(): S3Client {
+  const endpoint = process.env.S3_ENDPOINT || undefined;
+  // Default checksums send streamed bodies aws-chunked, which many
+  // S3-compatible services store verbatim or reject
+  const checksums = endpoint ? "WHEN_REQUIRED" : "WHEN_SUPPORTED";
+  return new S3Client({
+    region: process.env.S3_REGION || process.env.AWS_REGION || "ap-southeast-1",
+    endpoint,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    requestChecksumCalculation: checksums,
+    responseChecksumValidation: checksums,
+    credentials: process.env.S3_ACCESS_KEY
+      ? {
+          accessKeyId: process.env.S3_ACCESS_KEY,
+          secretAccessKey: process.env.S3_SECRET_KEY,
+        }
+      : undefined,
+  });
+}
+
 export class S3Storage extends BaseStorage {
-  private s3: AWS.S3;
+  private s3: S3Client;
   private bucketName: string;
   private recordingsPrefix: string;
   private cloudFrontDomain?: string;
+  private multipart: IMultipartOptions;
+  // Not every S3-compatible service has infrequent access or SSE-S3, so
+  // they default to unset with S3_ENDPOINT; empty disables them on AWS
+  private storageClass?: StorageClass;
+  private encryption?: ServerSideEncryption;
 
-  constructor() {
+  constructor(s3: S3Client = createS3Client()) {
     super();
 
-    this.s3 = new AWS.S3({
-      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-      region: process.env.AWS_REGION || "ap-southeast-1",
-    });
-
+    this.s3 = s3;
     this.bucketName = process.env.S3_BUCKET_NAME || "livestream-recordings";
     this.recordingsPrefix = process.env.S3_RECORDINGS_PREFIX || "recordings/";
     this.cloudFrontDomain = process.env.CLOUDFRONT_DOMAIN;
-
-    this.verifyConnection();
+    this.multipart = loadMultipartOptions();
+    const aws = !process.env.S3_ENDPOINT;
+    this.storageClass = (process.env.S3_STORAGE_CLASS ??
+      (aws ? "STANDARD_IA" : undefined)) as StorageClass;
+    this.encryption = (process.env.S3_SERVER_SIDE_ENCRYPTION ??
+      (aws ? "AES256" : undefined)) as ServerSideEncryption;
+
+    this.verifyConnection()
+      .then(() => this.abortOrphanedUploads())
+      .catch((error) =>
+        logger.warn(`Skipped aborting orphaned uploads: ${error.message}`)
+      );
   }
 
   private async verifyConnection(): Promise<void> {
     try {
-      await this.s3.headBucket({ Bucket: this.bucketName }).promise();
+      await this.s3.send(new HeadBucketCommand({ Bucket: this.bucketName }));
       logger.info(`S3 connection verified: ${this.bucketName}`);
     } catch (error) {
       logger.error("S3 connection failed:", error);
@@ -47,41 +108,47 @@ export class S3Storage extends BaseStorage {
       }
 
       const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const fileName = `${streamKey}_${timestamp}.flv`;
-      const s3Key = `${this.recordingsPrefix}${streamKey}/${fileName}`;
+      const extension = path.extname(tempFilePath) || ".flv";
+      const newFileName = `${streamKey}_${timestamp}${extension}`;
 
       const stats = await fs.stat(tempFilePath);
-      const fileStream = fs.createReadStream(tempFilePath);
-
-      const uploadParams: AWS.S3.PutObjectRequest = {
-        Bucket: this.bucketName,
-        Key: s3Key,
-        Body: fileStream,
-        ContentType: "video/x-flv",
-        Metadata: {
-          streamKey,
-          originalFileName: fileName,
-          uploadTime: new Date().toISOString(),
-          fileSize: stats.size.toString(),
-          ...Object.fromEntries(
-            Object.entries(metadata).map(([key, value]) => [
-              key,
-              typeof value === "string" ? value : JSON.stringify(value),
-            ])
-          ),
-        },
-        StorageClass: "STANDARD_IA",
-        ServerSideEncryption: "AES256",
-      };
+      const upload = new MultipartUpload(this.s3, this.multipart);
+      upload.on("progress", (progress: IUploadProgress) =>
+        this.emit("uploadProgress", { streamKey, ...progress })
+      );
 
-      const uploadResult = await this.s3.upload(uploadParams).promise();
+      // A resumed upload keeps the key it was started with
+      const { key: s3Key, location } = await upload.upload(
+        tempFilePath,
+        this.bucketName,
+        `${this.recordingsPrefix}${streamKey}/${newFileName}`,
+        {
+          ContentType:
+            RECORDING_CONTENT_TYPES[extension] || "application/octet-stream",
+          Metadata: {
+            streamKey,
+            originalFileName: newFileName,
+            uploadTime: new Date().toISOString(),
+            fileSize: stats.size.toString(),
+            ...Object.fromEntries(
+              Object.entries(metadata).map(([key, value]) => [
+                key,
+                typeof value === "string" ? value : JSON.stringify(value),
+              ])
+            ),
+          },
+          StorageClass: this.storageClass || undefined,
+          ServerSideEncryption: this.encryption || undefined,
+        }
+      );
+      const fileName = path.basename(s3Key);
 
       // Delete temp file after successful upload
       await fs.remove(tempFilePath);
 
       const url = this.cloudFrontDomain
         ? `https://${this.cloudFrontDomain}/${s3Key}`
-        : uploadResult.Location;
+        : location;
 
       const result: IStorageResult = {
         success: true,
@@ -113,6 +180,47 @@ export class S3Storage extends BaseStorage {
     }
   }
 
+  async saveThumbnail(
+    tempFilePath: string,
+    streamKey: string,
+    fileName: string,
+    contentType: string
+  ): Promise<IStoredAsset> {
+    const s3Key = `${this.recordingsPrefix}${streamKey}/thumbnails/${fileName}`;
+
+    await this.s3.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: s3Key,
+        // Small enough to buffer; a stream would need its length up front
+        Body: await fs.readFile(tempFilePath),
+        ContentType: contentType,
+        // Live snapshots are overwritten in place
+        CacheControl: "no-cache",
+        ServerSideEncryption: this.encryption || undefined,
+      })
+    );
+    await fs.remove(tempFilePath);
+
+    return { path: s3Key, url: await this.objectUrl(s3Key) };
+  }
+
+  private async objectUrl(s3Key: string): Promise<string> {
+    if (this.cloudFrontDomain) {
+      return `https://${this.cloudFrontDomain}/${s3Key}`;
+    }
+    const endpoint = await this.s3.config.endpoint?.();
+    if (!endpoint) {
+      const region = await this.s3.config.region();
+      return `https://${this.bucketName}.s3.${region}.amazonaws.com/${s3Key}`;
+    }
+    const port = endpoint.port ? `:${endpoint.port}` : "";
+    const host = this.s3.config.forcePathStyle
+      ? `${endpoint.hostname}${port}/${this.bucketName}`
+      : `${this.bucketName}.${endpoint.hostname}${port}`;
+    return `${endpoint.protocol}//${host}/${s3Key}`;
+  }
+
   async getRecordingUrl(
     s3Key: string,
     expiresIn: number = 3600
@@ -122,13 +230,11 @@ export class S3Storage extends BaseStorage {
         return `https://${this.cloudFrontDomain}/${s3Key}`;
       }
 
-      const params = {
-        Bucket: this.bucketName,
-        Key: s3Key,
-        Expires: expiresIn,
-      };
-
-      return await this.s3.getSignedUrlPromise("getObject", params);
+      return await getSignedUrl(
+        this.s3,
+        new GetObjectCommand({ Bucket: this.bucketName, Key: s3Key }),
+        { expiresIn }
+      );
     } catch (error) {
       logger.error(`Failed to get recording URL: ${s3Key}`, error);
       throw error;
@@ -137,12 +243,12 @@ export class S3Storage extends BaseStorage {
 
   async deleteRecording(s3Key: string): Promise<boolean> {
     try {
-      await this.s3
-        .deleteObject({
+      await this.s3.send(
+        new DeleteObjectCommand({
           Bucket: this.bucketName,
           Key: s3Key,
         })
-        .promise();
+      );
 
       logger.info(`Recording deleted from S3: ${s3Key}`);
       return true;
@@ -158,33 +264,39 @@ export class S3Storage extends BaseStorage {
         ? `${this.recordingsPrefix}${streamKey}/`
         : this.recordingsPrefix;
 
-      const params: AWS.S3.ListObjectsV2Request = {
+      const params: ListObjectsV2CommandInput = {
         Bucket: this.bucketName,
         Prefix: prefix,
         MaxKeys: 1000,
       };
 
-      const data = await this.s3.listObjectsV2(params).promise();
+      const data = await this.s3.send(new ListObjectsV2Command(params));
       const recordings: IStorageMetadata[] = [];
 
       for (const object of data.Contents || []) {
-        if (object.Key && object.Key.endsWith(".flv")) {
-          const headResult = await this.s3
-            .headObject({
+        if (object.Key && isRecordingFile(object.Key)) {
+          const headResult = await this.s3.send(
+            new HeadObjectCommand({
               Bucket: this.bucketName,
               Key: object.Key,
             })
-            .promise();
+          );
 
           recordings.push({
             streamKey: headResult.Metadata?.streamkey || "unknown",
             fileName: path.basename(object.Key),
+            identifier: object.Key,
             fileSize: object.Size || 0,
             uploadTime: object.LastModified || new Date(),
             quality: headResult.Metadata?.quality,
             duration: headResult.Metadata?.duration
               ? parseInt(headResult.Metadata.duration)
               : undefined,
+            // User metadata keys come back lowercased
+            thumbnailPath: headResult.Metadata?.thumbnailpath,
+            previewVttPath: headResult.Metadata?.previewvttpath,
+            thumbnailUrl: headResult.Metadata?.thumbnailurl,
+            previewVttUrl: headResult.Metadata?.previewvtturl,
           });
         }
       }
@@ -198,9 +310,56 @@ export class S3Storage extends BaseStorage {
     }
   }
 
+  // Multipart uploads nobody completed (the process died, or the recording
+  // was given up on) keep their parts billed until aborted
+  async abortOrphanedUploads(
+    maxAgeHours: number = parseInt(
+      process.env.S3_MULTIPART_ORPHAN_HOURS || "24"
+    )
+  ): Promise<number> {
+    try {
+      const cutoffTime = Date.now() - maxAgeHours * 60 * 60 * 1000;
+      const params: ListMultipartUploadsCommandInput = {
+        Bucket: this.bucketName,
+        Prefix: this.recordingsPrefix,
+      };
+      let abortedCount = 0;
+      let truncated = true;
+
+      while (truncated) {
+        const data = await this.s3.send(
+          new ListMultipartUploadsCommand(params)
+        );
+
+        for (const upload of data.Uploads || []) {
+          if (upload.Initiated && upload.Initiated.getTime() < cutoffTime) {
+            await this.s3.send(
+              new AbortMultipartUploadCommand({
+                Bucket: this.bucketName,
+                Key: upload.Key,
+                UploadId: upload.UploadId,
+              })
+            );
+            abortedCount++;
+            logger.info(`Aborted orphaned multipart upload: ${upload.Key}`);
+          }
+        }
+
+        truncated = !!data.IsTruncated;
+        params.KeyMarker = data.NextKeyMarker;
+        params.UploadIdMarker = data.NextUploadIdMarker;
+      }
+
+      return abortedCount;
+    } catch (error) {
+      logger.error("Failed to abort orphaned multipart uploads:", error);
+      return 0;
+    }
+  }
+
   async getStorageInfo(): Promise<{ used: number; available: number }> {
     try {
-      const params: AWS.S3.ListObjectsV2Request = {
+      const params: ListObjectsV2CommandInput = {
         Bucket: this.bucketName,
         Prefix: this.recordingsPrefix,
       };
@@ -213,7 +372,7 @@ export class S3Storage extends BaseStorage {
           params.ContinuationToken = continuationToken;
         }
 
-        const data = await this.s3.listObjectsV2(params).promise();
+        const data = await this.s3.send(new ListObjectsV2Command(params));
 
         for (const object of data.Contents || []) {
           used += object.Size || 0;
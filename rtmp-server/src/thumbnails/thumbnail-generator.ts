@@ -0,0 +1,324 @@
+import fs from "fs-extra";
+import path from "path";
+import { BaseStorage } from "../storage/base-storage";
+import { runFfmpeg } from "../utils/ffmpeg";
+import { logger } from "../utils/logger";
+
+export interface IThumbnailOptions {
+  // Live snapshot period; 0 disables live snapshots
+  liveIntervalMs: number;
+  liveWidth: number;
+  // One sprite tile per interval, spread further apart for long recordings
+  spriteIntervalSec: number;
+  spriteMaxTiles: number;
+  spriteColumns: number;
+  tileWidth: number;
+  tileHeight: number;
+  // Upper bound for a single ffmpeg run
+  timeoutMs: number;
+}
+
+export interface ISpriteLayout {
+  intervalSec: number;
+  tiles: number;
+  columns: number;
+  rows: number;
+}
+
+export interface IRecordingPreviews {
+  posterPath: string;
+  posterUrl: string;
+  spritePath: string;
+  vttPath: string;
+  vttUrl: string;
+}
+
+interface ILiveSnapshot {
+  streamKey: string;
+  timer: NodeJS.Timeout;
+  running: boolean;
+  url?: string;
+  takenAt?: Date;
+}
+
+export function loadThumbnailOptions(): IThumbnailOptions {
+  const env = (name: string, fallback: string) =>
+    parseInt(process.env[name] || fallback);
+  return {
+    liveIntervalMs: env("THUMBNAIL_LIVE_INTERVAL_MS", "60000"),
+    liveWidth: env("THUMBNAIL_LIVE_WIDTH", "640"),
+    spriteIntervalSec: env("THUMBNAIL_SPRITE_INTERVAL_SEC", "10"),
+    spriteMaxTiles: env("THUMBNAIL_SPRITE_MAX_TILES", "100"),
+    spriteColumns: env("THUMBNAIL_SPRITE_COLUMNS", "10"),
+    tileWidth: env("THUMBNAIL_TILE_WIDTH", "160"),
+    tileHeight: env("THUMBNAIL_TILE_HEIGHT", "90"),
+    timeoutMs: env("THUMBNAIL_TIMEOUT_MS", "120000"),
+  };
+}
+
+export function planSprite(
+  durationSec: number,
+  options: IThumbnailOptions
+): ISpriteLayout {
+  const intervalSec = Math.max(
+    options.spriteIntervalSec,
+    Math.ceil(durationSec / options.spriteMaxTiles)
+  );
+  const tiles = Math.max(1, Math.ceil(durationSec / intervalSec));
+  const columns = Math.min(options.spriteColumns, tiles);
+  return { intervalSec, tiles, columns, rows: Math.ceil(tiles / columns) };
+}
+
+// One frame, scaled to `width`, from a file or a live RTMP URL
+export function buildSnapshotArgs(
+  input: string,
+  output: string,
+  width: number,
+  seekSec?: number
+): string[] {
+  return [
+    "-y",
+    ...(seekSec ? ["-ss", String(seekSec)] : []),
+    "-i",
+    input,
+    "-frames:v",
+    "1",
+    "-vf",
+    `scale=${width}:-2`,
+    "-q:v",
+    "3",
+    output,
+  ];
+}
+
+// A single image with one letterboxed tile per interval, left to right.
+// Only keyframes are decoded: the whole recording is read, and decoding
+// every frame of a multi-hour one would not finish within the timeout.
+export function buildSpriteArgs(
+  input: string,
+  output: string,
+  layout: ISpriteLayout,
+  tileWidth: number,
+  tileHeight: number
+): string[] {
+  const filters = [
+    `fps=1/${layout.intervalSec}`,
+    `scale=${tileWidth}:${tileHeight}:force_original_aspect_ratio=decrease`,
+    `pad=${tileWidth}:${tileHeight}:(ow-iw)/2:(oh-ih)/2`,
+    `tile=${layout.columns}x${layout.rows}`,
+  ];
+  return [
+    "-y",
+    "-skip_frame",
+    "nokey",
+    "-i",
+    input,
+    "-vf",
+    filters.join(","),
+    "-frames:v",
+    "1",
+    "-q:v",
+    "5",
+    output,
+  ];
+}
+
+// WebVTT cues pointing each interval at its tile (`sprite.jpg#xywh=...`)
+export function buildSpriteVtt(
+  spriteUrl: string,
+  durationSec: number,
+  layout: ISpriteLayout,
+  tileWidth: number,
+  tileHeight: number
+): string {
+  const lines = ["WEBVTT", ""];
+  for (let tile = 0; tile < layout.tiles; tile++) {
+    const start = tile * layout.intervalSec;
+    const end = Math.min(
+      (tile + 1) * layout.intervalSec,
+      Math.max(durationSec, 1)
+    );
+    const x = (tile % layout.columns) * tileWidth;
+    const y = Math.floor(tile / layout.columns) * tileHeight;
+    lines.push(
+      `${vttTime(start)} --> ${vttTime(end)}`,
+      `${spriteUrl}#xywh=${x},${y},${tileWidth},${tileHeight}`,
+      ""
+    );
+  }
+  return lines.join("\n");
+}
+
+function vttTime(totalSec: number): string {
+  const hours = Math.floor(totalSec / 3600);
+  const minutes = Math.floor((totalSec % 3600) / 60);
+  const seconds = totalSec % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(
+    2,
+    "0"
+  )}:${seconds.toFixed(3).padStart(6, "0")}`;
+}
+
+/**
+ * Periodic snapshots of live streams, and poster + scrubbing sprite for
+ * finished recordings. Images are rendered under `workPath` and handed to
+ * the storage backend.
+ */
+export class ThumbnailGenerator {
+  private rtmpPort: number;
+  private live = new Map<string, ILiveSnapshot>();
+
+  constructor(
+    private storage: BaseStorage,
+    private workPath: string,
+    private options: IThumbnailOptions = loadThumbnailOptions()
+  ) {
+    this.rtmpPort = parseInt(process.env.RTMP_PORT || "1935");
+  }
+
+  startLive(streamPath: string, streamKey: string): void {
+    if (!this.options.liveIntervalMs || this.live.has(streamPath)) return;
+
+    const snapshot: ILiveSnapshot = {
+      streamKey,
+      running: false,
+      timer: setInterval(
+        () => this.takeSnapshot(streamPath, snapshot),
+        this.options.liveIntervalMs
+      ),
+    };
+    snapshot.timer.unref();
+    this.live.set(streamPath, snapshot);
+  }
+
+  stopLive(streamPath: string): void {
+    const snapshot = this.live.get(streamPath);
+    if (!snapshot) return;
+    clearInterval(snapshot.timer);
+    this.live.delete(streamPath);
+  }
+
+  stopAll(): void {
+    for (const streamPath of Array.from(this.live.keys())) {
+      this.stopLive(streamPath);
+    }
+  }
+
+  getLiveSnapshot(streamPath: string): { url: string; takenAt: Date } | null {
+    const snapshot = this.live.get(streamPath);
+    return snapshot?.url
+      ? { url: snapshot.url, takenAt: snapshot.takenAt }
+      : null;
+  }
+
+  async generateRecordingPreviews(
+    filePath: string,
+    streamKey: string,
+    durationSec: number
+  ): Promise<IRecordingPreviews> {
+    const baseName = path.basename(filePath, path.extname(filePath));
+    const workDir = path.join(this.workPath, baseName);
+    await fs.ensureDir(workDir);
+
+    try {
+      const posterFile = path.join(workDir, `${baseName}_poster.jpg`);
+      // Skip black intro frames
+      const posterAt = Math.min(10, Math.floor(durationSec / 10));
+      await this.run(
+        buildSnapshotArgs(filePath, posterFile, 1280, posterAt),
+        `poster ${streamKey}`
+      );
+
+      const { tileWidth, tileHeight } = this.options;
+      const layout = planSprite(durationSec, this.options);
+      const spriteName = `${baseName}_sprite.jpg`;
+      await this.run(
+        buildSpriteArgs(
+          filePath,
+          path.join(workDir, spriteName),
+          layout,
+          tileWidth,
+          tileHeight
+        ),
+        `sprite ${streamKey}`
+      );
+      const vttName = `${baseName}_sprite.vtt`;
+      // Relative to the index, which is stored next to the sprite
+      await fs.writeFile(
+        path.join(workDir, vttName),
+        buildSpriteVtt(spriteName, durationSec, layout, tileWidth, tileHeight)
+      );
+
+      const poster = await this.storage.saveThumbnail(
+        posterFile,
+        streamKey,
+        `${baseName}_poster.jpg`,
+        "image/jpeg"
+      );
+      const sprite = await this.storage.saveThumbnail(
+        path.join(workDir, spriteName),
+        streamKey,
+        spriteName,
+        "image/jpeg"
+      );
+      const vtt = await this.storage.saveThumbnail(
+        path.join(workDir, vttName),
+        streamKey,
+        vttName,
+        "text/vtt"
+      );
+
+      logger.info(`Recording previews saved: ${baseName}`);
+      return {
+        posterPath: poster.path,
+        posterUrl: poster.url,
+        spritePath: sprite.path,
+        vttPath: vtt.path,
+        vttUrl: vtt.url,
+      };
+    } finally {
+      await fs.remove(workDir);
+    }
+  }
+
+  private async takeSnapshot(
+    streamPath: string,
+    snapshot: ILiveSnapshot
+  ): Promise<void> {
+    // A slow snapshot must not pile up ffmpeg processes
+    if (snapshot.running) return;
+    snapshot.running = true;
+
+    const fileName = `${snapshot.streamKey}_live.jpg`;
+    const output = path.join(this.workPath, fileName);
+    try {
+      await fs.ensureDir(this.workPath);
+      await this.run(
+        buildSnapshotArgs(
+          `rtmp://127.0.0.1:${this.rtmpPort}${streamPath}`,
+          output,
+          this.options.liveWidth
+        ),
+        `snapshot ${snapshot.streamKey}`
+      );
+      const stored = await this.storage.saveThumbnail(
+        output,
+        snapshot.streamKey,
+        "live.jpg",
+        "image/jpeg"
+      );
+      snapshot.url = stored.url;
+      snapshot.takenAt = new Date();
+    } catch (error) {
+      logger.warn(`Live snapshot failed: ${snapshot.streamKey}`, {
+        error: error.message,
+      });
+    } finally {
+      snapshot.running = false;
+    }
+  }
+
+  private run(args: string[], label: string): Promise<void> {
+    return runFfmpeg(args, label, this.options.timeoutMs);
+  }
+}
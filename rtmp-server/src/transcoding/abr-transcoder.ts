@@ -0,0 +1,162 @@
+import path from "path";
+import { IHlsOptions, IRendition } from "./transcode-config";
+import { BasePackager } from "./base-packager";
+import { runFfprobe } from "../utils/ffmpeg";
+import { logger } from "../utils/logger";
+
+/**
+ * ffmpeg arguments that decode the input once and encode one H.264 video
+ * stream per rendition, with keyframes forced every `keyframeInterval`
+ * seconds so segments line up across renditions.
+ */
+export function buildLadderVideoArgs(
+  ladder: IRendition[],
+  keyframeInterval: number
+): string[] {
+  const splits = ladder.map((_, i) => `[v${i}]`).join("");
+  const scales = ladder
+    .map((r, i) => `[v${i}]scale=${r.width ?? -2}:${r.height}[v${i}out]`)
+    .join(";");
+
+  const args = [
+    "-filter_complex",
+    `[0:v]split=${ladder.length}${splits};${scales}`,
+  ];
+
+  ladder.forEach((rendition, i) => {
+    args.push(
+      "-map",
+      `[v${i}out]`,
+      `-c:v:${i}`,
+      "libx264",
+      `-b:v:${i}`,
+      `${rendition.videoBitrate}k`,
+      `-maxrate:v:${i}`,
+      `${Math.round(rendition.videoBitrate * 1.1)}k`,
+      `-bufsize:v:${i}`,
+      `${rendition.videoBitrate * 2}k`
+    );
+    if (rendition.fps) {
+      args.push(`-r:v:${i}`, `${rendition.fps}`);
+    }
+  });
+
+  args.push(
+    "-preset",
+    "veryfast",
+    "-sc_threshold",
+    "0",
+    "-force_key_frames",
+    `expr:gte(t,n_forced*${keyframeInterval})`
+  );
+
+  return args;
+}
+
+/**
+ * Builds a single ffmpeg invocation that decodes the stream once, scales it
+ * to every rendition and writes a master `index.m3u8` next to one
+ * `<name>/index.m3u8` variant playlist per rendition. Keyframes are forced
+ * on segment boundaries so players can switch between variants cleanly.
+ * Without audio the variants are video only: var_stream_map fails on an
+ * audio stream that doesn't exist.
+ */
+export function buildAbrArgs(
+  inputUrl: string,
+  outputDir: string,
+  ladder: IRendition[],
+  hls: IHlsOptions,
+  hasAudio: boolean = true
+): string[] {
+  const args = [
+    "-y",
+    "-i",
+    inputUrl,
+    ...buildLadderVideoArgs(ladder, hls.segmentDuration),
+  ];
+
+  if (hasAudio) {
+    ladder.forEach((rendition, i) => {
+      args.push(
+        "-map",
+        "0:a:0?",
+        `-c:a:${i}`,
+        "aac",
+        `-b:a:${i}`,
+        `${rendition.audioBitrate ?? 128}k`,
+        "-ac",
+        "2"
+      );
+    });
+  }
+
+  args.push(
+    "-f",
+    "hls",
+    "-hls_time",
+    `${hls.segmentDuration}`,
+    "-hls_list_size",
+    `${hls.listSize}`,
+    "-hls_flags",
+    "delete_segments+independent_segments",
+    "-master_pl_name",
+    "index.m3u8",
+    "-hls_segment_filename",
+    path.join(outputDir, "%v", "index%d.ts"),
+    "-var_stream_map",
+    ladder
+      .map((r, i) => `v:${i},${hasAudio ? `a:${i},` : ""}name:${r.name}`)
+      .join(" "),
+    path.join(outputDir, "%v", "index.m3u8")
+  );
+
+  return args;
+}
+
+// The publish has only just started, so NMS doesn't know the codecs yet.
+// Assumes audio when the probe fails, as most publishers send it.
+export async function probeHasAudio(
+  inputUrl: string,
+  timeoutMs: number = 10000
+): Promise<boolean> {
+  try {
+    const output = await runFfprobe(
+      [
+        "-v",
+        "error",
+        "-select_streams",
+        "a",
+        "-show_entries",
+        "stream=index",
+        "-of",
+        "csv=p=0",
+        inputUrl,
+      ],
+      timeoutMs
+    );
+    return output.trim().length > 0;
+  } catch (error) {
+    logger.warn(`Failed to probe ${inputUrl} for audio: ${error.message}`);
+    return true;
+  }
+}
+
+export class AbrTranscoder extends BasePackager {
+  protected readonly label = "ABR";
+
+  start(
+    sessionId: string,
+    streamPath: string,
+    streamKey: string,
+    ladder: IRendition[],
+    hls: IHlsOptions
+  ): Promise<void> {
+    return this.launch(
+      sessionId,
+      streamPath,
+      streamKey,
+      async (input, output) =>
+        buildAbrArgs(input, output, ladder, hls, await probeHasAudio(input))
+    );
+  }
+}
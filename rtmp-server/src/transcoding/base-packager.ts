@@ -0,0 +1,80 @@
+import fs from "fs-extra";
+import path from "path";
+import { IFfmpegProcess, spawnFfmpeg, stopFfmpeg } from "../utils/ffmpeg";
+import { logger } from "../utils/logger";
+
+interface IPackagerSession {
+  streamKey: string;
+  outputDir: string;
+  ffmpeg: IFfmpegProcess;
+}
+
+/**
+ * Runs one ffmpeg process per published stream, pulling it back from NMS
+ * and writing into `<mediaRoot>/<app>/<stream>/`, which NMS serves over
+ * HTTP. The output directory is removed when the stream ends.
+ */
+export abstract class BasePackager {
+  protected abstract readonly label: string;
+  private mediaRoot: string;
+  private rtmpPort: number;
+  private sessions = new Map<string, IPackagerSession>();
+  // Between launch() and ffmpeg running; stop() in that window cancels it
+  private starting = new Set<string>();
+
+  constructor(mediaRoot: string) {
+    this.mediaRoot = mediaRoot;
+    this.rtmpPort = parseInt(process.env.RTMP_PORT || "1935");
+  }
+
+  protected async launch(
+    sessionId: string,
+    streamPath: string,
+    streamKey: string,
+    buildArgs: (
+      inputUrl: string,
+      outputDir: string
+    ) => string[] | Promise<string[]>
+  ): Promise<void> {
+    this.starting.add(sessionId);
+    const outputDir = path.join(this.mediaRoot, streamPath);
+    await fs.ensureDir(outputDir);
+
+    const inputUrl = `rtmp://127.0.0.1:${this.rtmpPort}${streamPath}`;
+    const args = await buildArgs(inputUrl, outputDir);
+    if (!this.starting.delete(sessionId)) {
+      await fs.remove(outputDir);
+      return;
+    }
+    const ffmpeg = spawnFfmpeg(args, `${this.label} ${streamKey}`);
+
+    this.sessions.set(sessionId, { streamKey, outputDir, ffmpeg });
+    logger.info(`${this.label} packaging started: ${streamKey}`, {
+      outputDir,
+    });
+  }
+
+  // False once stopped, also when stop() cancelled the launch
+  protected isRunning(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    this.starting.delete(sessionId);
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    await stopFfmpeg(session.ffmpeg);
+
+    // Live playlists are useless once the stream is gone
+    await fs.remove(session.outputDir);
+    logger.info(`${this.label} packaging stopped: ${session.streamKey}`);
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all(
+      Array.from(this.sessions.keys()).map((id) => this.stop(id))
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import path from "path";
+import { IDashOptions, IHlsOptions, IRendition } from "./transcode-config";
+import { buildLadderVideoArgs } from "./abr-transcoder";
+import { BasePackager } from "./base-packager";
+
+/**
+ * Builds an ffmpeg invocation writing a live `index.mpd` with fMP4 (CMAF)
+ * segments. Without a ladder the source is repackaged as-is; with one, every
+ * rendition becomes a representation in a single video adaptation set.
+ *
+ * Unless `hlsPlaylist` is disabled, the dash muxer also writes an HLS master
+ * `index.m3u8` referencing the very same segments, so one set of files on
+ * disk serves both DASH and HLS players.
+ */
+export function buildDashArgs(
+  inputUrl: string,
+  outputDir: string,
+  hls: IHlsOptions,
+  dash: IDashOptions,
+  ladder?: IRendition[]
+): string[] {
+  const args = ["-y", "-i", inputUrl];
+
+  if (ladder) {
+    // One shared audio track; DASH players pick it independently of video
+    const audioBitrate = Math.max(...ladder.map((r) => r.audioBitrate ?? 128));
+    args.push(
+      ...buildLadderVideoArgs(ladder, hls.segmentDuration),
+      "-map",
+      "0:a:0?",
+      "-c:a",
+      "aac",
+      "-b:a",
+      `${audioBitrate}k`,
+      "-ac",
+      "2"
+    );
+  } else {
+    args.push("-map", "0:v:0", "-map", "0:a:0?", "-c", "copy");
+  }
+
+  args.push(
+    "-f",
+    "dash",
+    "-seg_duration",
+    `${hls.segmentDuration}`,
+    "-window_size",
+    `${hls.listSize}`,
+    "-extra_window_size",
+    "2",
+    "-remove_at_exit",
+    "1",
+    "-use_template",
+    "1",
+    "-use_timeline",
+    "1",
+    "-adaptation_sets",
+    "id=0,streams=v id=1,streams=a",
+    "-init_seg_name",
+    "init-$RepresentationID$.m4s",
+    "-media_seg_name",
+    "chunk-$RepresentationID$-$Number%05d$.m4s"
+  );
+
+  if (dash.hlsPlaylist !== false) {
+    args.push("-hls_playlist", "1", "-hls_master_name", "index.m3u8");
+  }
+
+  args.push(path.join(outputDir, "index.mpd"));
+  return args;
+}
+
+export class DashPackager extends BasePackager {
+  protected readonly label = "DASH";
+
+  start(
+    sessionId: string,
+    streamPath: string,
+    streamKey: string,
+    hls: IHlsOptions,
+    dash: IDashOptions,
+    ladder?: IRendition[]
+  ): Promise<void> {
+    return this.launch(sessionId, streamPath, streamKey, (input, output) =>
+      buildDashArgs(input, output, hls, dash, ladder)
+    );
+  }
+}
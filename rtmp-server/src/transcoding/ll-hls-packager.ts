@@ -0,0 +1,161 @@
+import fs from "fs-extra";
+import path from "path";
+import { IHlsOptions, ILowLatencyOptions } from "./transcode-config";
+import { LowLatencyPlaylist } from "./ll-hls-playlist";
+import { BasePackager } from "./base-packager";
+
+interface ILowLatencyStream {
+  sessionId: string;
+  outputDir: string;
+  playlist: LowLatencyPlaylist;
+  poller: NodeJS.Timeout;
+}
+
+// Playlist ffmpeg writes for us to tail; viewers get the LL-HLS one instead
+const FFMPEG_PLAYLIST = "ffmpeg.m3u8";
+
+export function buildLowLatencyArgs(
+  inputUrl: string,
+  outputDir: string,
+  hls: IHlsOptions,
+  lowLatency: ILowLatencyOptions,
+  partsPerSegment: number
+): string[] {
+  return [
+    "-y",
+    "-i",
+    inputUrl,
+    "-map",
+    "0:v:0",
+    "-map",
+    "0:a:0?",
+    "-c:v",
+    "libx264",
+    "-preset",
+    "veryfast",
+    "-tune",
+    "zerolatency",
+    "-sc_threshold",
+    "0",
+    "-force_key_frames",
+    `expr:gte(t,n_forced*${hls.segmentDuration})`,
+    "-c:a",
+    "aac",
+    "-f",
+    "hls",
+    "-hls_time",
+    `${lowLatency.partDuration}`,
+    "-hls_list_size",
+    `${(hls.listSize + 2) * partsPerSegment}`,
+    "-hls_segment_type",
+    "fmp4",
+    "-hls_flags",
+    "split_by_time+delete_segments+independent_segments",
+    "-hls_fmp4_init_filename",
+    "init.mp4",
+    "-start_number",
+    "0",
+    "-hls_segment_filename",
+    path.join(outputDir, "part%d.m4s"),
+    path.join(outputDir, FFMPEG_PLAYLIST),
+  ];
+}
+
+/**
+ * Packages streams of low-latency apps as LL-HLS.
+ *
+ * ffmpeg cuts the stream into part-sized fMP4 fragments; a poller tails
+ * ffmpeg's own playlist and feeds each new part into a LowLatencyPlaylist,
+ * which the HTTP side renders and uses to answer blocking reloads.
+ */
+export class LowLatencyHlsPackager extends BasePackager {
+  protected readonly label = "LL-HLS";
+  // By stream path, for the HTTP side
+  private streams = new Map<string, ILowLatencyStream>();
+
+  async start(
+    sessionId: string,
+    streamPath: string,
+    streamKey: string,
+    hls: IHlsOptions,
+    lowLatency: ILowLatencyOptions
+  ): Promise<void> {
+    const playlist = new LowLatencyPlaylist({
+      partDuration: lowLatency.partDuration,
+      segmentDuration: hls.segmentDuration,
+      listSize: hls.listSize,
+    });
+    let outputDir: string;
+    await this.launch(
+      sessionId,
+      streamPath,
+      streamKey,
+      async (input, output) => {
+        outputDir = output;
+        // Parts left by an earlier session would be fed to the new playlist
+        await fs.emptyDir(output);
+        return buildLowLatencyArgs(
+          input,
+          output,
+          hls,
+          lowLatency,
+          playlist.partsPerSegment
+        );
+      }
+    );
+    if (!this.isRunning(sessionId)) return;
+
+    const pollMs = Math.max(20, Math.round(lowLatency.partDuration * 250));
+    const poller = setInterval(
+      () => this.pollParts(outputDir, playlist),
+      pollMs
+    );
+    this.streams.set(streamPath, { sessionId, outputDir, playlist, poller });
+  }
+
+  async stop(sessionId: string): Promise<void> {
+    const entry = Array.from(this.streams.entries()).find(
+      ([, stream]) => stream.sessionId === sessionId
+    );
+    if (entry) {
+      const [streamPath, stream] = entry;
+      this.streams.delete(streamPath);
+      clearInterval(stream.poller);
+      stream.playlist.end();
+    }
+    await super.stop(sessionId);
+  }
+
+  getPlaylist(streamPath: string): LowLatencyPlaylist | undefined {
+    return this.streams.get(streamPath)?.playlist;
+  }
+
+  getOutputDir(streamPath: string): string | undefined {
+    return this.streams.get(streamPath)?.outputDir;
+  }
+
+  private async pollParts(
+    outputDir: string,
+    playlist: LowLatencyPlaylist
+  ): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(
+        path.join(outputDir, FFMPEG_PLAYLIST),
+        "utf8"
+      );
+    } catch {
+      return; // ffmpeg has not written its first part yet
+    }
+
+    const lines = content.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      const duration = /^#EXTINF:([\d.]+)/.exec(lines[i]);
+      const uri = lines[i + 1]?.trim();
+      const index = uri && /^part(\d+)\.m4s$/.exec(uri);
+      if (duration && index) {
+        playlist.addPart(parseInt(index[1]), uri, parseFloat(duration[1]));
+      }
+    }
+  }
+}
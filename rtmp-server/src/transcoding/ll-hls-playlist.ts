@@ -0,0 +1,174 @@
+import { EventEmitter } from "events";
+
+export interface ILowLatencyPlaylistOptions {
+  partDuration: number;
+  segmentDuration: number;
+  listSize: number;
+}
+
+export interface IPlaylistPart {
+  index: number;
+  uri: string;
+  duration: number;
+}
+
+/**
+ * In-memory LL-HLS media playlist.
+ *
+ * ffmpeg writes every part as its own fMP4 fragment numbered from 0, with
+ * keyframes forced on segment boundaries, so part `i` belongs to media
+ * sequence `floor(i / partsPerSegment)` and is independent when it opens a
+ * segment. Full segments are served as the concatenation of their parts.
+ */
+export class LowLatencyPlaylist extends EventEmitter {
+  readonly partsPerSegment: number;
+  private options: ILowLatencyPlaylistOptions;
+  private parts: IPlaylistPart[] = [];
+  private ended = false;
+
+  constructor(options: ILowLatencyPlaylistOptions) {
+    super();
+    this.setMaxListeners(0);
+    this.options = options;
+    this.partsPerSegment = Math.max(
+      1,
+      Math.round(options.segmentDuration / options.partDuration)
+    );
+  }
+
+  get lastPartIndex(): number {
+    return this.parts.length ? this.parts[this.parts.length - 1].index : -1;
+  }
+
+  // Blocking requests must be answered within three target durations
+  get blockingTimeoutMs(): number {
+    return Math.ceil(this.options.segmentDuration) * 3 * 1000;
+  }
+
+  get isEnded(): boolean {
+    return this.ended;
+  }
+
+  addPart(index: number, uri: string, duration: number): void {
+    if (index <= this.lastPartIndex) return;
+
+    this.parts.push({ index, uri, duration });
+
+    // Keep the advertised window plus one segment of slack for late readers
+    const maxParts = (this.options.listSize + 2) * this.partsPerSegment;
+    if (this.parts.length > maxParts) {
+      this.parts.splice(0, this.parts.length - maxParts);
+    }
+
+    this.emit("part", index);
+  }
+
+  end(): void {
+    this.ended = true;
+    this.emit("end");
+  }
+
+  hasPart(index: number): boolean {
+    return this.parts.some((part) => part.index === index);
+  }
+
+  getSegmentParts(msn: number): IPlaylistPart[] | null {
+    const first = msn * this.partsPerSegment;
+    const parts = this.parts.filter(
+      (part) => part.index >= first && part.index < first + this.partsPerSegment
+    );
+    return parts.length === this.partsPerSegment ? parts : null;
+  }
+
+  // Part index a blocking request is waiting for (_HLS_msn / _HLS_part)
+  partIndexFor(msn: number, part?: number): number {
+    return part === undefined
+      ? (msn + 1) * this.partsPerSegment - 1
+      : msn * this.partsPerSegment + part;
+  }
+
+  waitForPart(index: number, timeoutMs: number): Promise<boolean> {
+    if (this.lastPartIndex >= index) return Promise.resolve(true);
+    if (this.ended) return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+      const onPart = (added: number) => {
+        if (added >= index) finish(true);
+      };
+      const onEnd = () => finish(false);
+      const timer = setTimeout(() => finish(false), timeoutMs);
+
+      const finish = (available: boolean) => {
+        clearTimeout(timer);
+        this.off("part", onPart);
+        this.off("end", onEnd);
+        resolve(available);
+      };
+
+      this.on("part", onPart);
+      this.on("end", onEnd);
+    });
+  }
+
+  render(): string {
+    const { partDuration, segmentDuration, listSize } = this.options;
+    const perSegment = this.partsPerSegment;
+    const lastComplete = Math.floor((this.lastPartIndex + 1) / perSegment) - 1;
+    const firstAvailable = this.parts.length
+      ? Math.ceil(this.parts[0].index / perSegment)
+      : 0;
+    const firstMsn = Math.max(firstAvailable, lastComplete - listSize + 1, 0);
+
+    const body: string[] = [];
+    let targetDuration = Math.ceil(segmentDuration);
+
+    for (let msn = firstMsn; msn <= lastComplete; msn++) {
+      const parts = this.getSegmentParts(msn);
+      if (!parts) continue;
+
+      // Parts are only advertised for the most recent segments
+      if (msn >= lastComplete - 1) {
+        body.push(...parts.map((part) => this.renderPart(part)));
+      }
+
+      const duration = parts.reduce((sum, part) => sum + part.duration, 0);
+      targetDuration = Math.max(targetDuration, Math.ceil(duration));
+      body.push(`#EXTINF:${duration.toFixed(5)},`, `seg${msn}.m4s`);
+    }
+
+    const pending = this.parts.filter(
+      (part) => part.index >= (lastComplete + 1) * perSegment
+    );
+    body.push(...pending.map((part) => this.renderPart(part)));
+
+    if (this.ended) {
+      body.push("#EXT-X-ENDLIST");
+    } else {
+      body.push(
+        `#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part${this.lastPartIndex + 1}.m4s"`
+      );
+    }
+
+    return [
+      "#EXTM3U",
+      "#EXT-X-VERSION:9",
+      `#EXT-X-TARGETDURATION:${targetDuration}`,
+      `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(
+        partDuration * 3
+      ).toFixed(3)}`,
+      `#EXT-X-PART-INF:PART-TARGET=${partDuration.toFixed(5)}`,
+      `#EXT-X-MEDIA-SEQUENCE:${firstMsn}`,
+      '#EXT-X-MAP:URI="init.mp4"',
+      ...body,
+      "",
+    ].join("\n");
+  }
+
+  private renderPart(part: IPlaylistPart): string {
+    const independent =
+      part.index % this.partsPerSegment === 0 ? ",INDEPENDENT=YES" : "";
+    return `#EXT-X-PART:DURATION=${part.duration.toFixed(5)},URI="${
+      part.uri
+    }"${independent}`;
+  }
+}
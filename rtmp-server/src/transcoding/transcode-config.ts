@@ -0,0 +1,175 @@
+import fs from "fs-extra";
+import { logger } from "../utils/logger";
+
+export interface IRendition {
+  name: string;
+  height: number;
+  width?: number;
+  videoBitrate: number; // kbps
+  audioBitrate?: number; // kbps
+  fps?: number;
+}
+
+export interface IHlsOptions {
+  segmentDuration: number;
+  listSize: number;
+}
+
+export interface ILowLatencyOptions {
+  partDuration: number;
+}
+
+export interface IDashOptions {
+  // Also write an HLS master playlist over the same CMAF segments
+  hlsPlaylist?: boolean;
+}
+
+export interface IAppTranscodeConfig {
+  hls: IHlsOptions;
+  abr?: IRendition[];
+  lowLatency?: ILowLatencyOptions;
+  dash?: IDashOptions;
+}
+
+export interface ITranscodeConfig {
+  apps: Record<string, IAppTranscodeConfig>;
+}
+
+export const DEFAULT_HLS_OPTIONS: IHlsOptions = {
+  segmentDuration: 2,
+  listSize: 3,
+};
+
+export const DEFAULT_ABR_LADDER: IRendition[] = [
+  { name: "1080p", height: 1080, videoBitrate: 5000, audioBitrate: 192 },
+  { name: "720p", height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: "480p", height: 480, videoBitrate: 1400, audioBitrate: 128 },
+  { name: "240p", height: 240, videoBitrate: 400, audioBitrate: 64 },
+];
+
+const DEFAULT_CONFIG: ITranscodeConfig = {
+  apps: {
+    live: { hls: DEFAULT_HLS_OPTIONS },
+  },
+};
+
+/**
+ * Loads the per-app transcoding config from TRANSCODE_CONFIG_FILE, falling
+ * back to a single-rendition HLS remux of the `live` app. `"abr": true` in
+ * the file selects DEFAULT_ABR_LADDER and `"dash": true` enables DASH with
+ * default options. Throws when the config is invalid so
+ * a bad ladder stops the server at startup instead of at first publish.
+ */
+export function loadTranscodeConfig(): ITranscodeConfig {
+  const configFile = process.env.TRANSCODE_CONFIG_FILE;
+  if (!configFile) {
+    return DEFAULT_CONFIG;
+  }
+
+  const raw = fs.readJsonSync(configFile);
+  const config: ITranscodeConfig = { apps: {} };
+
+  for (const [app, appConfig] of Object.entries<any>(raw.apps || {})) {
+    config.apps[app] = {
+      ...appConfig,
+      hls: { ...DEFAULT_HLS_OPTIONS, ...appConfig.hls },
+      abr: appConfig.abr === true ? DEFAULT_ABR_LADDER : appConfig.abr,
+      dash: appConfig.dash === true ? {} : appConfig.dash || undefined,
+    };
+  }
+
+  validateTranscodeConfig(config);
+  logger.info(`Transcoding config loaded from ${configFile}`, {
+    apps: Object.keys(config.apps),
+  });
+  return config;
+}
+
+export function validateTranscodeConfig(config: ITranscodeConfig): void {
+  const errors: string[] = [];
+
+  if (!config.apps || Object.keys(config.apps).length === 0) {
+    errors.push("at least one app must be configured");
+  }
+
+  for (const [app, appConfig] of Object.entries(config.apps || {})) {
+    const { hls, abr, lowLatency, dash } = appConfig;
+
+    if (!(hls.segmentDuration > 0)) {
+      errors.push(`${app}: hls.segmentDuration must be > 0`);
+    }
+    if (!Number.isInteger(hls.listSize) || hls.listSize < 1) {
+      errors.push(`${app}: hls.listSize must be a positive integer`);
+    }
+
+    if (lowLatency) {
+      const { partDuration } = lowLatency;
+      const partsPerSegment = hls.segmentDuration / partDuration;
+      if (!(partDuration > 0) || partDuration >= hls.segmentDuration) {
+        errors.push(
+          `${app}: lowLatency.partDuration must be between 0 and hls.segmentDuration`
+        );
+      } else if (
+        Math.abs(partsPerSegment - Math.round(partsPerSegment)) > 1e-6
+      ) {
+        errors.push(
+          `${app}: hls.segmentDuration must be a multiple of lowLatency.partDuration`
+        );
+      }
+      if (abr) {
+        errors.push(`${app}: lowLatency cannot be combined with abr`);
+      }
+      if (dash) {
+        errors.push(`${app}: lowLatency cannot be combined with dash`);
+      }
+    }
+
+    if (abr === undefined || abr === null) continue;
+
+    if (!Array.isArray(abr) || abr.length === 0) {
+      errors.push(`${app}: abr must be a non-empty list of renditions`);
+      continue;
+    }
+
+    const names = new Set<string>();
+    abr.forEach((rendition, index) => {
+      const label = `${app}: abr[${index}]`;
+
+      if (!rendition.name || !/^[\w-]+$/.test(rendition.name)) {
+        errors.push(`${label}.name must be alphanumeric`);
+      } else if (names.has(rendition.name)) {
+        errors.push(`${label}.name "${rendition.name}" is duplicated`);
+      } else {
+        names.add(rendition.name);
+      }
+
+      // libx264 needs even dimensions
+      if (!isEvenPositive(rendition.height)) {
+        errors.push(`${label}.height must be a positive even integer`);
+      }
+      if (rendition.width !== undefined && !isEvenPositive(rendition.width)) {
+        errors.push(`${label}.width must be a positive even integer`);
+      }
+      if (!(rendition.videoBitrate > 0)) {
+        errors.push(`${label}.videoBitrate must be > 0`);
+      }
+      if (
+        rendition.audioBitrate !== undefined &&
+        !(rendition.audioBitrate > 0)
+      ) {
+        errors.push(`${label}.audioBitrate must be > 0`);
+      }
+      if (rendition.fps !== undefined && !(rendition.fps > 0)) {
+        errors.push(`${label}.fps must be > 0`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid transcoding config: ${errors.join("; ")}`);
+  }
+}
+
+function isEvenPositive(value: number): boolean {
+  return Number.isInteger(value) && value > 0 && value % 2 === 0;
+}
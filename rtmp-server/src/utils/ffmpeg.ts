@@ -0,0 +1,84 @@
+import { spawn, execFile, ChildProcess } from "child_process";
+import path from "path";
+import { logger } from "./logger";
+
+export interface IFfmpegProcess {
+  process: ChildProcess;
+  exited: Promise<number | null>;
+}
+
+export function getFfmpegPath(): string {
+  return process.env.FFMPEG_PATH || "/usr/local/bin/ffmpeg";
+}
+
+// Next to ffmpeg unless FFPROBE_PATH says otherwise
+export function getFfprobePath(): string {
+  return (
+    process.env.FFPROBE_PATH ||
+    path.join(path.dirname(getFfmpegPath()), "ffprobe")
+  );
+}
+
+export function spawnFfmpeg(args: string[], label: string): IFfmpegProcess {
+  const ffmpeg = spawn(getFfmpegPath(), args);
+
+  const exited = new Promise<number | null>((resolve) => {
+    ffmpeg.on("close", (code) => resolve(code));
+    ffmpeg.on("error", (error) => {
+      logger.error(`ffmpeg process error for ${label}:`, error);
+      resolve(null);
+    });
+  });
+
+  ffmpeg.stderr?.on("data", (data) => {
+    logger.debug(`[ffmpeg ${label}] ${data}`);
+  });
+
+  return { process: ffmpeg, exited };
+}
+
+// Waits up to graceMs for ffmpeg to exit on its own, then asks it to finish
+export async function stopFfmpeg(
+  ffmpeg: IFfmpegProcess,
+  graceMs: number = 0
+): Promise<void> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), graceMs);
+  });
+
+  const outcome = await Promise.race([ffmpeg.exited, timeout]);
+  clearTimeout(timer);
+
+  if (outcome === "timeout") {
+    ffmpeg.process.kill("SIGTERM");
+    await ffmpeg.exited;
+  }
+}
+
+// Runs a one-off ffmpeg job to completion; stopped after timeoutMs.
+// Rejects unless ffmpeg exits cleanly.
+export async function runFfmpeg(
+  args: string[],
+  label: string,
+  timeoutMs: number
+): Promise<void> {
+  const ffmpeg = spawnFfmpeg(args, label);
+  await stopFfmpeg(ffmpeg, timeoutMs);
+  const code = await ffmpeg.exited;
+  if (code !== 0) {
+    throw new Error(`ffmpeg ${label} exited with code ${code}`);
+  }
+}
+
+// Runs ffprobe and resolves with what it printed on stdout
+export function runFfprobe(args: string[], timeoutMs: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      getFfprobePath(),
+      args,
+      { timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout) => (error ? reject(error) : resolve(stdout))
+    );
+  });
+}
@@ -0,0 +1,236 @@
+import crypto from "crypto";
+
+export type ViewerProtocol = "rtmp" | "flv" | "ws-flv" | "hls" | "dash";
+
+// /<app>/<stream>/<file>, optionally under the /ll LL-HLS prefix; files
+// can be nested, as ABR renditions are in `<rendition>/`
+const MEDIA_REQUEST = /^(\/ll)?\/([^/]+)\/([^/]+)\/.+\.(m3u8|mpd|ts|m4s|mp4)$/;
+
+// Fetched over plain HTTP, without a connection to follow
+const POLLED_PROTOCOLS: ViewerProtocol[] = ["hls", "dash"];
+
+export interface IViewerStats {
+  streamPath: string;
+  channelId: string;
+  startedAt: Date;
+  // Set once the broadcast has ended
+  endedAt?: Date;
+  concurrent: number;
+  peak: number;
+  peakAt?: Date;
+  // Distinct clients (IP + user agent) over the broadcast
+  uniqueViewers: number;
+  sessions: number;
+  averageWatchSec: number;
+}
+
+interface IViewerSession {
+  streamPath: string;
+  protocol: ViewerProtocol;
+  clientKey: string;
+  joinedAt: number;
+  lastSeen: number;
+}
+
+interface IAudience {
+  streamPath: string;
+  channelId: string;
+  startedAt: number;
+  current: number;
+  peak: number;
+  peakAt?: number;
+  clients: Set<string>;
+  sessions: number;
+  // Watch time of viewers that already left
+  watchedMs: number;
+}
+
+// A viewer as seen by the server: IP and user agent, hashed
+export function viewerClientKey(ip: string, userAgent = ""): string {
+  return crypto
+    .createHash("sha1")
+    .update(`${ip}|${userAgent}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Audience of each live broadcast, from the moment its publisher goes on
+ * air until it ends. RTMP/FLV viewers join and leave with their
+ * connection; HLS and DASH have none, so a client watches while it has
+ * fetched a playlist, manifest or segment within `hlsWindowMs`.
+ *
+ * DASH apps serve an HLS playlist over the same segments: a client is
+ * counted by the playlist or manifest it fetched, and a segment fetched
+ * first by the app it came through.
+ */
+export class ViewerAnalytics {
+  private audiences = new Map<string, IAudience>();
+  private viewers = new Map<string, IViewerSession>();
+
+  constructor(
+    private hlsWindowMs: number,
+    private isDashApp: (app: string) => boolean = () => false
+  ) {}
+
+  startStream(streamPath: string, channelId: string, now = Date.now()): void {
+    if (this.audiences.has(streamPath)) return;
+    this.audiences.set(streamPath, {
+      streamPath,
+      channelId,
+      startedAt: now,
+      current: 0,
+      peak: 0,
+      clients: new Set(),
+      sessions: 0,
+      watchedMs: 0,
+    });
+  }
+
+  // Closes every viewing session and returns the broadcast's summary
+  endStream(streamPath: string, now = Date.now()): IViewerStats | null {
+    const audience = this.audiences.get(streamPath);
+    if (!audience) return null;
+
+    for (const [viewerId, viewer] of this.viewers) {
+      if (viewer.streamPath === streamPath) this.close(viewerId, now);
+    }
+    this.audiences.delete(streamPath);
+    return { ...this.toStats(audience, now), endedAt: new Date(now) };
+  }
+
+  // Ignored when the stream is not live or the viewer is already counted
+  // (NMS replays postPlay for RTMP viewers moved to a failover publisher)
+  join(
+    viewerId: string,
+    streamPath: string,
+    protocol: ViewerProtocol,
+    clientKey: string,
+    now = Date.now()
+  ): void {
+    // Lets an HLS/DASH client that went quiet join again
+    this.expire(now);
+    const audience = this.audiences.get(streamPath);
+    if (!audience || this.viewers.has(viewerId)) return;
+
+    this.viewers.set(viewerId, {
+      streamPath,
+      protocol,
+      clientKey,
+      joinedAt: now,
+      lastSeen: now,
+    });
+    audience.current++;
+    audience.sessions++;
+    audience.clients.add(clientKey);
+    if (audience.current > audience.peak) {
+      audience.peak = audience.current;
+      audience.peakAt = now;
+    }
+  }
+
+  leave(viewerId: string, now = Date.now()): void {
+    if (this.viewers.has(viewerId)) this.close(viewerId, now);
+  }
+
+  // Returns the stream path when the URL was an HLS or DASH request
+  observeHttp(url: string, clientKey: string, now = Date.now()): string | null {
+    const match = MEDIA_REQUEST.exec(url.split("?")[0]);
+    if (!match) return null;
+
+    const [, lowLatency, app, stream, extension] = match;
+    const streamPath = `/${app}/${stream}`;
+    const watching = (protocol: ViewerProtocol) => {
+      const viewer = this.viewers.get(`${protocol}:${streamPath}|${clientKey}`);
+      return viewer && now - viewer.lastSeen <= this.hlsWindowMs
+        ? viewer
+        : undefined;
+    };
+
+    let protocol: ViewerProtocol;
+    if (extension === "m3u8" || extension === "mpd") {
+      protocol = extension === "mpd" ? "dash" : "hls";
+    } else if (watching("hls") || watching("dash")) {
+      protocol = watching("hls") ? "hls" : "dash";
+    } else {
+      protocol = !lowLatency && this.isDashApp(app) ? "dash" : "hls";
+    }
+
+    const viewer = watching(protocol);
+    if (viewer) {
+      viewer.lastSeen = now;
+    } else {
+      const viewerId = `${protocol}:${streamPath}|${clientKey}`;
+      this.join(viewerId, streamPath, protocol, clientKey, now);
+    }
+    return streamPath;
+  }
+
+  concurrentByProtocol(now = Date.now()): Record<ViewerProtocol, number> {
+    this.expire(now);
+    const counts = { rtmp: 0, flv: 0, "ws-flv": 0, hls: 0, dash: 0 };
+    for (const viewer of this.viewers.values()) counts[viewer.protocol]++;
+    return counts;
+  }
+
+  get(streamPath: string, now = Date.now()): IViewerStats | null {
+    this.expire(now);
+    const audience = this.audiences.get(streamPath);
+    return audience ? this.toStats(audience, now) : null;
+  }
+
+  list(now = Date.now()): IViewerStats[] {
+    this.expire(now);
+    return Array.from(this.audiences.values()).map((audience) =>
+      this.toStats(audience, now)
+    );
+  }
+
+  // HLS/DASH clients that stopped fetching left when they last fetched
+  private expire(now: number): void {
+    for (const [viewerId, viewer] of this.viewers) {
+      if (
+        POLLED_PROTOCOLS.includes(viewer.protocol) &&
+        now - viewer.lastSeen > this.hlsWindowMs
+      ) {
+        this.close(viewerId, now);
+      }
+    }
+  }
+
+  private close(viewerId: string, now: number): void {
+    const viewer = this.viewers.get(viewerId);
+    this.viewers.delete(viewerId);
+    const audience = this.audiences.get(viewer.streamPath);
+    if (!audience) return;
+    audience.current--;
+    audience.watchedMs += this.watchedUntil(viewer, now) - viewer.joinedAt;
+  }
+
+  private watchedUntil(viewer: IViewerSession, now: number): number {
+    return POLLED_PROTOCOLS.includes(viewer.protocol) ? viewer.lastSeen : now;
+  }
+
+  private toStats(audience: IAudience, now: number): IViewerStats {
+    let watchedMs = audience.watchedMs;
+    for (const viewer of this.viewers.values()) {
+      if (viewer.streamPath === audience.streamPath) {
+        watchedMs += this.watchedUntil(viewer, now) - viewer.joinedAt;
+      }
+    }
+
+    return {
+      streamPath: audience.streamPath,
+      channelId: audience.channelId,
+      startedAt: new Date(audience.startedAt),
+      concurrent: audience.current,
+      peak: audience.peak,
+      peakAt: audience.peakAt ? new Date(audience.peakAt) : undefined,
+      uniqueViewers: audience.clients.size,
+      sessions: audience.sessions,
+      averageWatchSec: audience.sessions
+        ? Math.round(watchedMs / audience.sessions / 1000)
+        : 0,
+    };
+  }
+}
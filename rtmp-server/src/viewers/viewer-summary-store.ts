@@ -0,0 +1,45 @@
+import fs from "fs-extra";
+import path from "path";
+import { IViewerStats } from "./viewer-analytics";
+import { logger } from "../utils/logger";
+
+// Audience summaries of ended broadcasts, one JSON object per line
+export class ViewerSummaryStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  save(summary: IViewerStats): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.ensureDir(path.dirname(this.filePath));
+        await fs.appendFile(this.filePath, `${JSON.stringify(summary)}\n`);
+      });
+    return this.writeQueue;
+  }
+
+  // Newest first
+  async list(channelId?: string, limit = 50): Promise<IViewerStats[]> {
+    if (!(await fs.pathExists(this.filePath))) return [];
+
+    const summaries: IViewerStats[] = [];
+    const lines = (await fs.readFile(this.filePath, "utf8")).split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const raw = JSON.parse(line);
+        if (channelId && raw.channelId !== channelId) continue;
+        summaries.push({
+          ...raw,
+          startedAt: new Date(raw.startedAt),
+          endedAt: raw.endedAt ? new Date(raw.endedAt) : undefined,
+          peakAt: raw.peakAt ? new Date(raw.peakAt) : undefined,
+        });
+      } catch (error) {
+        logger.warn(`Skipping unreadable viewer summary in ${this.filePath}`);
+      }
+    }
+    return summaries.reverse().slice(0, limit);
+  }
+}
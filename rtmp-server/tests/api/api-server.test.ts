@@ -0,0 +1,331 @@
+import { ApiServer } from "../../src/api/api-server";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("ApiServer", () => {
+  const auth = `Basic ${Buffer.from("admin:admin").toString("base64")}`;
+
+  let controller: {
+    listLiveStreams: jest.Mock;
+    kickPublisher: jest.Mock;
+    getStreamHealth: jest.Mock;
+    getViewerStats: jest.Mock;
+    listViewerSummaries: jest.Mock;
+  };
+  let storage: {
+    listRecordings: jest.Mock;
+    deleteRecording: jest.Mock;
+    getStorageInfo: jest.Mock;
+  };
+  let streamKeys: {
+    list: jest.Mock;
+    create: jest.Mock;
+    rotate: jest.Mock;
+    revoke: jest.Mock;
+  };
+  let metrics: { registry: { contentType: string }; render: jest.Mock };
+  let jobs: { list: jest.Mock; get: jest.Mock; retry: jest.Mock };
+  let api: ApiServer;
+
+  beforeEach(() => {
+    delete process.env.API_USER;
+    delete process.env.API_PASS;
+
+    controller = {
+      listLiveStreams: jest.fn(() => [
+        { streamKey: "abc123", sessionId: "s1", app: "live" },
+      ]),
+      kickPublisher: jest.fn(),
+      getStreamHealth: jest.fn(() => []),
+      getViewerStats: jest.fn(() => []),
+      listViewerSummaries: jest.fn(async () => []),
+    };
+    storage = {
+      listRecordings: jest.fn(),
+      deleteRecording: jest.fn(),
+      getStorageInfo: jest.fn(),
+    };
+    streamKeys = {
+      list: jest.fn(() => []),
+      create: jest.fn(),
+      rotate: jest.fn(),
+      revoke: jest.fn(),
+    };
+    metrics = {
+      registry: { contentType: "text/plain; version=0.0.4; charset=utf-8" },
+      render: jest.fn(async () => "rtmp_active_publishers 1\n"),
+    };
+    jobs = { list: jest.fn(() => []), get: jest.fn(), retry: jest.fn() };
+    api = new ApiServer(
+      controller,
+      storage as any,
+      streamKeys as any,
+      metrics as any,
+      jobs as any
+    );
+  });
+
+  afterEach(async () => {
+    await api.stop();
+  });
+
+  it("should reject requests without credentials", async () => {
+    const res = await api
+      .getInstance()
+      .inject({ method: "GET", url: "/api/streams" });
+
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("should serve Prometheus metrics behind basic auth", async () => {
+    const anonymous = await api
+      .getInstance()
+      .inject({ method: "GET", url: "/metrics" });
+    const res = await api.getInstance().inject({
+      method: "GET",
+      url: "/metrics",
+      headers: { authorization: auth },
+    });
+
+    expect(anonymous.statusCode).toBe(401);
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/plain");
+    expect(res.body).toBe("rtmp_active_publishers 1\n");
+  });
+
+  it("should not let a query string skip authentication", async () => {
+    const res = await api
+      .getInstance()
+      .inject({ method: "GET", url: "/metrics?x=1" });
+
+    expect(res.statusCode).toBe(401);
+    expect(metrics.render).not.toHaveBeenCalled();
+  });
+
+  it("should not let an encoded path skip authentication", async () => {
+    for (const url of ["/%61pi/streams", "/%6detrics"]) {
+      const res = await api.getInstance().inject({ method: "GET", url });
+
+      expect(res.statusCode).toBe(401);
+    }
+    expect(controller.listLiveStreams).not.toHaveBeenCalled();
+    expect(metrics.render).not.toHaveBeenCalled();
+  });
+
+  it("should list live streams", async () => {
+    const res = await api.getInstance().inject({
+      method: "GET",
+      url: "/api/streams",
+      headers: { authorization: auth },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.json().streams).toHaveLength(1);
+  });
+
+  it("should kick a publisher by stream key", async () => {
+    controller.kickPublisher.mockReturnValueOnce(true);
+    controller.kickPublisher.mockReturnValueOnce(false);
+
+    const kicked = await api.getInstance().inject({
+      method: "DELETE",
+      url: "/api/streams/abc123",
+      headers: { authorization: auth },
+    });
+    const missing = await api.getInstance().inject({
+      method: "DELETE",
+      url: "/api/streams/unknown",
+      headers: { authorization: auth },
+    });
+
+    expect(controller.kickPublisher).toHaveBeenCalledWith("abc123");
+    expect(kicked.statusCode).toBe(200);
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it("should report stream health per stream key", async () => {
+    controller.getStreamHealth.mockImplementation((streamKey?: string) =>
+      streamKey === "unknown"
+        ? []
+        : [{ sessionId: "s1", streamKey: "abc123", warnings: [], history: [] }]
+    );
+
+    const all = await api.getInstance().inject({
+      method: "GET",
+      url: "/api/health",
+      headers: { authorization: auth },
+    });
+    const one = await api.getInstance().inject({
+      method: "GET",
+      url: "/api/health/abc123",
+      headers: { authorization: auth },
+    });
+    const missing = await api.getInstance().inject({
+      method: "GET",
+      url: "/api/health/unknown",
+      headers: { authorization: auth },
+    });
+
+    expect(all.json().streams).toHaveLength(1);
+    expect(controller.getStreamHealth).toHaveBeenCalledWith("abc123");
+    expect(one.json().sessions[0].sessionId).toBe("s1");
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it("should report live and past audience per stream key", async () => {
+    controller.getViewerStats.mockReturnValue([
+      { streamPath: "/live/abc123", channelId: "abc123", concurrent: 3 },
+    ]);
+    controller.listViewerSummaries.mockResolvedValue([
+      { streamPath: "/live/abc123", channelId: "abc123", peak: 12 },
+    ]);
+
+    const res = await api.getInstance().inject({
+      method: "GET",
+      url: "/api/viewers/abc123",
+      headers: { authorization: auth },
+    });
+
+    expect(controller.getViewerStats).toHaveBeenCalledWith("abc123");
+    expect(controller.listViewerSummaries).toHaveBeenCalledWith("abc123");
+    expect(res.json()).toMatchObject({
+      streamKey: "abc123",
+      live: [{ concurrent: 3 }],
+      history: [{ peak: 12 }],
+    });
+  });
+
+  it("should list recordings filtered by stream key", async () => {
+    storage.listRecordings.mockResolvedValue([{ fileName: "abc123_1.flv" }]);
+
+    const res = await api.getInstance().inject({
+      method: "GET",
+      url: "/api/recordings?streamKey=abc123",
+      headers: { authorization: auth },
+    });
+
+    expect(storage.listRecordings).toHaveBeenCalledWith("abc123");
+    expect(res.json().recordings).toHaveLength(1);
+  });
+
+  it("should delete recordings by full identifier", async () => {
+    storage.deleteRecording.mockResolvedValue(true);
+
+    const res = await api.getInstance().inject({
+      method: "DELETE",
+      url: "/api/recordings/recordings/abc123/abc123_1.flv",
+      headers: { authorization: auth },
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(storage.deleteRecording).toHaveBeenCalledWith(
+      "recordings/abc123/abc123_1.flv"
+    );
+  });
+
+  it("should return 404 when the recording does not exist", async () => {
+    storage.deleteRecording.mockResolvedValue(false);
+
+    const res = await api.getInstance().inject({
+      method: "DELETE",
+      url: "/api/recordings/missing.flv",
+      headers: { authorization: auth },
+    });
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("should report storage info", async () => {
+    storage.getStorageInfo.mockResolvedValue({ used: 10, available: 100 });
+
+    const res = await api.getInstance().inject({
+      method: "GET",
+      url: "/api/storage/info",
+      headers: { authorization: auth },
+    });
+
+    expect(res.json()).toEqual({ used: 10, available: 100 });
+  });
+
+  it("should issue stream keys without exposing the hash", async () => {
+    streamKeys.create.mockResolvedValue({
+      streamKey: "sk_secret",
+      record: { id: "k1", channelId: "studio", keyHash: "hash" },
+    });
+
+    const res = await api.getInstance().inject({
+      method: "POST",
+      url: "/api/keys",
+      headers: { authorization: auth },
+      payload: { channelId: "studio" },
+    });
+
+    expect(res.statusCode).toBe(201);
+    expect(streamKeys.create).toHaveBeenCalledWith({ channelId: "studio" });
+    expect(res.json()).toEqual({
+      streamKey: "sk_secret",
+      key: { id: "k1", channelId: "studio" },
+    });
+  });
+
+  it("should kick the live publisher when a key is revoked", async () => {
+    streamKeys.revoke.mockResolvedValueOnce({ id: "k1", channelId: "studio" });
+    streamKeys.revoke.mockResolvedValueOnce(null);
+
+    const revoked = await api.getInstance().inject({
+      method: "DELETE",
+      url: "/api/keys/k1",
+      headers: { authorization: auth },
+    });
+    const missing = await api.getInstance().inject({
+      method: "DELETE",
+      url: "/api/keys/unknown",
+      headers: { authorization: auth },
+    });
+
+    expect(revoked.statusCode).toBe(200);
+    expect(controller.kickPublisher).toHaveBeenCalledWith("studio");
+    expect(missing.statusCode).toBe(404);
+  });
+
+  it("should list jobs filtered by status and stream key", async () => {
+    jobs.list.mockReturnValue([
+      { id: "j1", type: "upload", payload: { streamKey: "abc123" } },
+      { id: "j2", type: "upload", payload: { streamKey: "other" } },
+    ]);
+
+    const res = await api.getInstance().inject({
+      method: "GET",
+      url: "/api/jobs?status=failed&streamKey=abc123",
+      headers: { authorization: auth },
+    });
+
+    expect(jobs.list).toHaveBeenCalledWith({ status: "failed" });
+    expect(res.json().jobs.map((job: any) => job.id)).toEqual(["j1"]);
+  });
+
+  it("should retry failed jobs and 404 anything else", async () => {
+    jobs.retry.mockResolvedValueOnce({ id: "j1", type: "upload" });
+    jobs.retry.mockResolvedValueOnce(undefined);
+
+    const retried = await api.getInstance().inject({
+      method: "POST",
+      url: "/api/jobs/j1/retry",
+      headers: { authorization: auth },
+    });
+    const missing = await api.getInstance().inject({
+      method: "POST",
+      url: "/api/jobs/j2/retry",
+      headers: { authorization: auth },
+    });
+
+    expect(retried.statusCode).toBe(200);
+    expect(retried.json().job.id).toBe("j1");
+    expect(missing.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,99 @@
+import Fastify, { FastifyInstance } from "fastify";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { registerThumbnailRoutes } from "../../src/api/thumbnail-routes";
+import { LocalStorage } from "../../src/storage/local-storage";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("registerThumbnailRoutes", () => {
+  let workDir: string;
+  let storage: LocalStorage;
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "thumbnails-"));
+    process.env.LOCAL_RECORDINGS_PATH = path.join(workDir, "recordings");
+    process.env.LOCAL_TEMP_PATH = path.join(workDir, "temp");
+    process.env.FASTIFY_PORT = "8888";
+    storage = new LocalStorage();
+    app = Fastify();
+    registerThumbnailRoutes(app, storage);
+  });
+
+  afterEach(async () => {
+    delete process.env.API_PUBLIC_URL;
+    await app.close();
+    await fs.remove(workDir);
+  });
+
+  it("should serve saved thumbnails at the URL storage returned", async () => {
+    const temp = path.join(workDir, "a_sprite.vtt");
+    await fs.writeFile(temp, "WEBVTT\n");
+
+    const asset = await storage.saveThumbnail(temp, "abc123", "a_sprite.vtt");
+    const res = await app.inject({
+      method: "GET",
+      url: new URL(asset.url).pathname,
+    });
+
+    expect(asset.url).toBe(
+      "http://localhost:8888/recordings/thumbnails/abc123/a_sprite.vtt"
+    );
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/vtt");
+    expect(res.body).toBe("WEBVTT\n");
+  });
+
+  it("should build URLs on the public address of the API", async () => {
+    process.env.API_PUBLIC_URL = "https://media.example.com/";
+    const temp = path.join(workDir, "live.jpg");
+    await fs.writeFile(temp, "jpeg");
+
+    const asset = await new LocalStorage().saveThumbnail(
+      temp,
+      "abc123",
+      "live.jpg"
+    );
+
+    expect(asset.url).toBe(
+      "https://media.example.com/recordings/thumbnails/abc123/live.jpg"
+    );
+  });
+
+  it("should not serve files outside the thumbnails directory", async () => {
+    const res = await app.inject({
+      method: "GET",
+      url: "/recordings/thumbnails/../abc123_1.mp4",
+    });
+    const dotted = await app.inject({
+      method: "GET",
+      url: "/recordings/thumbnails/abc123/..%2F..%2Fsecret",
+    });
+
+    expect(res.statusCode).toBe(404);
+    expect(dotted.statusCode).toBe(404);
+  });
+
+  it("should not follow encoded separators out of the directory", async () => {
+    await fs.writeFile(path.join(workDir, "secret"), "secret");
+
+    const res = await app.inject({
+      method: "GET",
+      url: "/recordings/thumbnails/abc123/x%2F..%2F..%2F..%2F..%2Fsecret",
+    });
+    const backslash = await app.inject({
+      method: "GET",
+      url: "/recordings/thumbnails/abc123/x%5C..%5Csecret",
+    });
+
+    expect(res.statusCode).toBe(404);
+    expect(backslash.statusCode).toBe(404);
+  });
+});
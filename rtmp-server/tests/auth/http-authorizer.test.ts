@@ -0,0 +1,118 @@
+import axios from "axios";
+import { HttpStreamAuthorizer } from "../../src/auth/http-authorizer";
+
+jest.mock("axios");
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe("HttpStreamAuthorizer", () => {
+  const request = {
+    app: "live",
+    streamKey: "abc123",
+    args: { token: "t0k3n" },
+    ip: "10.0.0.1",
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it("should allow the stream when the API responds 2xx", async () => {
+    mockedAxios.post.mockResolvedValue({ status: 200, data: {} });
+    const authorizer = new HttpStreamAuthorizer({ url: "http://auth/check" });
+
+    const result = await authorizer.authorize(request);
+
+    expect(result.allowed).toBe(true);
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      "http://auth/check",
+      request,
+      expect.objectContaining({ timeout: 3000 })
+    );
+  });
+
+  it("should deny the stream on 4xx or allowed: false", async () => {
+    mockedAxios.post.mockResolvedValueOnce({
+      status: 403,
+      data: { reason: "Banned" },
+    });
+    mockedAxios.post.mockResolvedValueOnce({
+      status: 200,
+      data: { allowed: false },
+    });
+    const authorizer = new HttpStreamAuthorizer({
+      url: "http://auth/check",
+      cacheTtlMs: 0,
+    });
+
+    expect(await authorizer.authorize(request)).toEqual({
+      allowed: false,
+      reason: "Banned",
+    });
+    expect((await authorizer.authorize(request)).allowed).toBe(false);
+  });
+
+  it("should cache decisions per key and args", async () => {
+    mockedAxios.post.mockResolvedValue({ status: 200, data: {} });
+    const authorizer = new HttpStreamAuthorizer({ url: "http://auth/check" });
+
+    await authorizer.authorize(request);
+    await authorizer.authorize(request);
+    await authorizer.authorize({ ...request, args: { token: "other" } });
+
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+  });
+
+  it("should evict expired and oldest decisions", async () => {
+    mockedAxios.post.mockResolvedValue({ status: 200, data: {} });
+    const authorizer = new HttpStreamAuthorizer({
+      url: "http://auth/check",
+      cacheTtlMs: 1000,
+      cacheMaxEntries: 2,
+    });
+    const withToken = (token: string) => ({ ...request, args: { token } });
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+
+    await authorizer.authorize(withToken("a"));
+    await authorizer.authorize(withToken("b"));
+    await authorizer.authorize(withToken("c"));
+    await authorizer.authorize(withToken("b"));
+    expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+    await authorizer.authorize(withToken("a"));
+    expect(mockedAxios.post).toHaveBeenCalledTimes(4);
+
+    now.mockReturnValue(1000);
+    await authorizer.authorize(withToken("a"));
+    expect(mockedAxios.post).toHaveBeenCalledTimes(5);
+    expect((authorizer as any).cache.size).toBeLessThanOrEqual(2);
+    now.mockRestore();
+  });
+
+  it("should fail closed by default when the API is unavailable", async () => {
+    mockedAxios.post.mockRejectedValue(new Error("timeout of 3000ms"));
+    const authorizer = new HttpStreamAuthorizer({ url: "http://auth/check" });
+
+    const result = await authorizer.authorize(request);
+
+    expect(result.allowed).toBe(false);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+  });
+
+  it("should fail open when configured and not cache the outcome", async () => {
+    mockedAxios.post.mockRejectedValue(new Error("ECONNREFUSED"));
+    const authorizer = new HttpStreamAuthorizer({
+      url: "http://auth/check",
+      failOpen: true,
+    });
+
+    expect((await authorizer.authorize(request)).allowed).toBe(true);
+    await authorizer.authorize(request);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  PlaybackGuard,
+  tokenizeManifest,
+  tokenizePlaylist,
+} from "../../src/auth/playback-guard";
+import {
+  signPlaybackToken,
+  verifyPlaybackToken,
+} from "../../src/auth/playback-token";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const secret = "playback-secret";
+const inAnHour = Math.floor(Date.now() / 1000) + 3600;
+
+describe("playback tokens", () => {
+  it("accepts a token only for its stream and before it expires", () => {
+    const token = signPlaybackToken(secret, {
+      streamPath: "/live/show",
+      expiresAt: inAnHour,
+    });
+
+    expect(verifyPlaybackToken(secret, token, "/live/show", "1.2.3.4")).toEqual(
+      { allowed: true }
+    );
+    expect(
+      verifyPlaybackToken(secret, token, "/live/other", "1.2.3.4").allowed
+    ).toBe(false);
+    expect(
+      verifyPlaybackToken(
+        secret,
+        token,
+        "/live/show",
+        "1.2.3.4",
+        (inAnHour + 1) * 1000
+      )
+    ).toEqual({ allowed: false, reason: "token expired" });
+    expect(
+      verifyPlaybackToken(secret, undefined, "/live/show", "").reason
+    ).toBe("missing or malformed token");
+  });
+
+  it("binds a token to the client IP when asked", () => {
+    const token = signPlaybackToken(secret, {
+      streamPath: "/live/show",
+      expiresAt: inAnHour,
+      ip: "10.0.0.1",
+    });
+
+    expect(
+      verifyPlaybackToken(secret, token, "/live/show", "::ffff:10.0.0.1")
+        .allowed
+    ).toBe(true);
+    expect(
+      verifyPlaybackToken(secret, token, "/live/show", "10.0.0.2").allowed
+    ).toBe(false);
+  });
+});
+
+describe("PlaybackGuard", () => {
+  const guard = new PlaybackGuard(secret);
+  const token = signPlaybackToken(secret, {
+    streamPath: "/live/show",
+    expiresAt: inAnHour,
+  });
+
+  it("checks HLS and DASH files but leaves other requests alone", () => {
+    expect(
+      guard.checkRequest(`/live/show/index.m3u8?token=${token}`, "1.2.3.4")
+    ).toMatchObject({ allowed: true, kind: "playlist", token });
+    expect(
+      guard.checkRequest("/live/show/720p/index3.ts", "1.2.3.4")
+    ).toMatchObject({ allowed: false, kind: "segment" });
+    expect(guard.checkRequest("/live/show.flv", "1.2.3.4")).toBeNull();
+    expect(guard.checkRequest("/admin/index.html", "1.2.3.4")).toBeNull();
+  });
+
+  it("checks players from their play arguments", () => {
+    expect(guard.checkPlayer("/live/show", { token }, "1.2.3.4").allowed).toBe(
+      true
+    );
+    expect(guard.checkPlayer("/live/show", {}, "1.2.3.4").allowed).toBe(false);
+  });
+
+  it("adds the token to every URI in playlists and manifests", () => {
+    const playlist = [
+      "#EXTM3U",
+      '#EXT-X-MAP:URI="init.mp4"',
+      "#EXTINF:2.000,",
+      "index5.ts",
+      '#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part12.m4s?x=1"',
+      "",
+    ].join("\n");
+
+    expect(tokenizePlaylist(playlist, "t.0.s")).toBe(
+      [
+        "#EXTM3U",
+        '#EXT-X-MAP:URI="init.mp4?token=t.0.s"',
+        "#EXTINF:2.000,",
+        "index5.ts?token=t.0.s",
+        '#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part12.m4s?x=1&token=t.0.s"',
+        "",
+      ].join("\n")
+    );
+    expect(
+      tokenizeManifest(
+        '<SegmentTemplate initialization="init-$RepresentationID$.m4s" media="chunk-$Number%05d$.m4s"/>',
+        "t.0.s"
+      )
+    ).toBe(
+      '<SegmentTemplate initialization="init-$RepresentationID$.m4s?token=t.0.s" media="chunk-$Number%05d$.m4s?token=t.0.s"/>'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import fs from "fs-extra";
+import { StaticStreamAuthorizer } from "../../src/auth/static-authorizer";
+
+jest.mock("fs-extra");
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe("StaticStreamAuthorizer", () => {
+  const request = (streamKey: string, args: Record<string, string> = {}) => ({
+    app: "live",
+    streamKey,
+    args,
+  });
+
+  it("should allow known keys without a token", async () => {
+    const authorizer = new StaticStreamAuthorizer({ abc123: null });
+
+    expect(await authorizer.authorize(request("abc123"))).toEqual({
+      allowed: true,
+    });
+  });
+
+  it("should reject unknown keys", async () => {
+    const authorizer = new StaticStreamAuthorizer({ abc123: null });
+
+    const result = await authorizer.authorize(request("other"));
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe("Unknown stream key");
+  });
+
+  it("should require the configured token", async () => {
+    const authorizer = new StaticStreamAuthorizer({ abc123: "s3cret" });
+
+    expect((await authorizer.authorize(request("abc123"))).allowed).toBe(false);
+    expect(
+      (await authorizer.authorize(request("abc123", { token: "s3cret" })))
+        .allowed
+    ).toBe(true);
+  });
+
+  it("should support adding and removing keys at runtime", async () => {
+    const authorizer = new StaticStreamAuthorizer();
+
+    authorizer.addKey("abc123");
+    expect((await authorizer.authorize(request("abc123"))).allowed).toBe(true);
+
+    authorizer.removeKey("abc123");
+    expect((await authorizer.authorize(request("abc123"))).allowed).toBe(false);
+  });
+
+  it("should load a list of keys from a file", async () => {
+    mockedFs.readJsonSync.mockReturnValue(["abc123", "def456"]);
+
+    const authorizer = StaticStreamAuthorizer.fromFile("./keys.json");
+
+    expect(mockedFs.readJsonSync).toHaveBeenCalledWith("./keys.json");
+    expect((await authorizer.authorize(request("def456"))).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,167 @@
+import { StreamHealthCollector } from "../../src/health/stream-health-collector";
+import {
+  evaluateHealth,
+  IHealthTargets,
+  IStreamHealthSample,
+} from "../../src/health/health-targets";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const targets: IHealthTargets = {
+  maxKeyframeIntervalSec: 4,
+  minBitrateKbps: 0,
+  minFpsRatio: 0.9,
+  maxDroppedFramesPct: 2,
+};
+
+// Just enough of an NMS RTMP session to drive rtmpVideoHandler
+function fakeSession() {
+  return {
+    bitrate: 2500,
+    videoCodec: 7,
+    videoCodecName: "H264",
+    videoProfileName: "High",
+    videoWidth: 1280,
+    videoHeight: 720,
+    videoFps: 30,
+    audioCodec: 10,
+    audioCodecName: "AAC",
+    audioSamplerate: 48000,
+    audioChannels: 2,
+    parserPacket: null,
+    handled: 0,
+    rtmpVideoHandler() {
+      this.handled++;
+    },
+  };
+}
+
+function sendVideo(session: any, clock: number, keyframe: boolean) {
+  session.parserPacket = {
+    header: { length: 5 },
+    clock,
+    // FLV video tag header: frame type | codec id, then AVC packet type 1
+    payload: Buffer.from([(keyframe ? 0x10 : 0x20) | 7, 1, 0, 0, 0]),
+  };
+  session.rtmpVideoHandler();
+}
+
+describe("StreamHealthCollector", () => {
+  let session: ReturnType<typeof fakeSession>;
+  let collector: StreamHealthCollector;
+
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockReturnValue(0);
+    session = fakeSession();
+    collector = new StreamHealthCollector(() => session, targets, {
+      sampleIntervalMs: 5000,
+      historySize: 2,
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("samples stream info and frame rate while NMS keeps handling video", () => {
+    collector.track("s1", "show");
+    for (let frame = 0; frame < 150; frame++) {
+      sendVideo(session, Math.round(frame * (1000 / 30)), frame % 60 === 0);
+    }
+    collector.sampleAll(5000);
+
+    const [health] = collector.get("show");
+    expect(session.handled).toBe(150);
+    expect(health.current).toMatchObject({
+      bitrateKbps: 2500,
+      video: {
+        codec: "H264",
+        width: 1280,
+        height: 720,
+        fps: 30,
+        keyframeIntervalSec: 2,
+        droppedFrames: 0,
+      },
+      audio: { codec: "AAC", sampleRate: 48000, channels: 2 },
+    });
+    expect(health.warnings).toEqual([]);
+  });
+
+  it("warns once when the keyframe interval exceeds the target", () => {
+    const onWarning = jest.fn();
+    collector.on("warning", onWarning);
+    collector.track("s1", "show");
+
+    sendVideo(session, 0, true);
+    sendVideo(session, 6000, false);
+    collector.sampleAll(5000);
+    collector.sampleAll(10000);
+
+    const keyframeWarnings = onWarning.mock.calls.filter(
+      ([warning]) => warning.code === "keyframe_interval"
+    );
+    expect(keyframeWarnings).toHaveLength(1);
+    expect(onWarning).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: "keyframe_interval",
+        value: 6,
+        streamKey: "show",
+      })
+    );
+    expect(collector.get("show")[0].history).toHaveLength(2);
+  });
+
+  it("restores the session's handler when untracked", () => {
+    const original = session.rtmpVideoHandler;
+    collector.track("s1", "show");
+    expect(session.rtmpVideoHandler).not.toBe(original);
+
+    collector.untrack("s1");
+    expect(session.rtmpVideoHandler).toBe(original);
+    expect(collector.list()).toEqual([]);
+  });
+});
+
+describe("evaluateHealth", () => {
+  const sample = (
+    video: Partial<IStreamHealthSample["video"]>
+  ): IStreamHealthSample => ({
+    timestamp: new Date(0),
+    bitrateKbps: 3000,
+    video: {
+      codec: "H264",
+      width: 1920,
+      height: 1080,
+      declaredFps: 30,
+      fps: 30,
+      keyframeIntervalSec: 2,
+      frames: 150,
+      droppedFrames: 0,
+      ...video,
+    },
+  });
+
+  it("flags low fps and dropped frames against the declared rate", () => {
+    const codes = evaluateHealth(
+      sample({ fps: 20, frames: 100, droppedFrames: 50 }),
+      targets
+    ).map((w) => w.code);
+
+    expect(codes).toEqual(["low_fps", "dropped_frames"]);
+  });
+
+  it("checks bitrate only when a minimum is configured", () => {
+    const low = { ...sample({}), bitrateKbps: 500 };
+
+    expect(evaluateHealth(low, targets)).toEqual([]);
+    expect(
+      evaluateHealth(low, { ...targets, minBitrateKbps: 1000 })[0].code
+    ).toBe("low_bitrate");
+  });
+});
@@ -0,0 +1,151 @@
+import { IJob } from "../../src/jobs/base-job-store";
+import { IJobQueueOptions, JobQueue } from "../../src/jobs/job-queue";
+import { logger } from "../../src/utils/logger";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+async function until(condition: () => boolean): Promise<void> {
+  while (!condition()) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+}
+
+describe("JobQueue", () => {
+  const options: IJobQueueOptions = {
+    concurrency: 1,
+    maxAttempts: 3,
+    backoffMs: 0,
+    maxBackoffMs: 0,
+    retentionMs: 60000,
+  };
+
+  let store: { load: jest.Mock; save: jest.Mock; remove: jest.Mock };
+  let queue: JobQueue;
+
+  const storedJob = (overrides: Partial<IJob>): IJob => ({
+    id: "j1",
+    type: "upload",
+    group: "session-1",
+    payload: {},
+    status: "pending",
+    attempts: 0,
+    maxAttempts: 3,
+    runAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = {
+      load: jest.fn(async () => []),
+      save: jest.fn(async () => undefined),
+      remove: jest.fn(async () => undefined),
+    };
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  it("should resume jobs interrupted by a restart", async () => {
+    store.load.mockResolvedValue([storedJob({ status: "running" })]);
+    queue = new JobQueue(store, options);
+    const handler = jest.fn(async () => undefined);
+    queue.register("upload", handler);
+
+    await queue.start();
+    await until(() => queue.get("j1").status === "completed");
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(queue.get("j1").attempts).toBe(1);
+  });
+
+  it("should persist a follow-up together with the job that spawned it", async () => {
+    queue = new JobQueue(store, options);
+    queue.register("remux", async (job) => ({
+      type: "upload",
+      payload: { ...job.payload, filePath: "a.mp4" },
+    }));
+    queue.register("upload", async () => undefined);
+    await queue.start();
+
+    const job = await queue.enqueue("remux", { filePath: "a.flv" }, "s1");
+    await until(() => queue.list({ status: "completed" }).length === 2);
+
+    const [upload] = queue.list({ type: "upload" });
+    expect(upload).toMatchObject({
+      group: "s1",
+      payload: { filePath: "a.mp4" },
+    });
+    expect(store.save).toHaveBeenCalledWith([
+      expect.objectContaining({ id: job.id, status: "completed" }),
+      expect.objectContaining({ id: upload.id }),
+    ]);
+  });
+
+  it("should back off exponentially and fail after the last attempt", async () => {
+    queue = new JobQueue(store, {
+      ...options,
+      backoffMs: 10,
+      maxBackoffMs: 15,
+    });
+    queue.register("upload", async () => {
+      throw new Error("network");
+    });
+    const failed = jest.fn();
+    queue.on("failed", failed);
+    await queue.start();
+
+    const job = await queue.enqueue("upload", {});
+    await until(() => job.status === "failed");
+
+    const delays = (logger.warn as jest.Mock).mock.calls.map(
+      ([message]) => message.match(/retrying in (\d+)ms/)[1]
+    );
+    expect(delays).toEqual(["10", "15"]);
+    expect(job).toMatchObject({ attempts: 3, error: "network" });
+    expect(failed).toHaveBeenCalledWith(job);
+  });
+
+  it("should not run more jobs than the concurrency allows", async () => {
+    queue = new JobQueue(store, { ...options, concurrency: 2 });
+    let running = 0;
+    let peak = 0;
+    queue.register("thumbnail", async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+    });
+    await queue.start();
+
+    for (let i = 0; i < 5; i++) {
+      await queue.enqueue("thumbnail", {});
+    }
+    await until(() => queue.list({ status: "completed" }).length === 5);
+
+    expect(peak).toBe(2);
+  });
+
+  it("should only retry failed jobs", async () => {
+    store.load.mockResolvedValue([
+      storedJob({ id: "done", status: "completed" }),
+      storedJob({ id: "broken", status: "failed", attempts: 3, error: "x" }),
+    ]);
+    queue = new JobQueue(store, options);
+    queue.register("upload", async () => undefined);
+    await queue.start();
+
+    expect(await queue.retry("done")).toBeUndefined();
+    expect(await queue.retry("broken")).toMatchObject({ error: undefined });
+    await until(() => queue.get("broken").status === "completed");
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  BaseStreamKeyStore,
+  IStreamKeyRecord,
+} from "../../src/keys/base-key-store";
+import {
+  StreamKeyService,
+  hashStreamKey,
+} from "../../src/keys/stream-key-service";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+class MemoryStreamKeyStore extends BaseStreamKeyStore {
+  records = new Map<string, IStreamKeyRecord>();
+
+  list() {
+    return Array.from(this.records.values());
+  }
+
+  get(id: string) {
+    return this.records.get(id);
+  }
+
+  findByHash(keyHash: string) {
+    return this.list().find((record) => record.keyHash === keyHash);
+  }
+
+  async save(record: IStreamKeyRecord) {
+    this.records.set(record.id, record);
+  }
+}
+
+describe("StreamKeyService", () => {
+  let store: MemoryStreamKeyStore;
+  let service: StreamKeyService;
+
+  beforeEach(() => {
+    store = new MemoryStreamKeyStore();
+    service = new StreamKeyService(store);
+  });
+
+  it("should store only the hash of a created key", async () => {
+    const { streamKey, record } = await service.create({ channelId: "studio" });
+
+    expect(streamKey).toMatch(/^sk_/);
+    expect(record.keyHash).toBe(hashStreamKey(streamKey));
+    expect(JSON.stringify(store.list())).not.toContain(streamKey);
+    expect(service.resolve(streamKey)?.channelId).toBe("studio");
+  });
+
+  it("should reject invalid or taken channel ids", async () => {
+    await service.create({ channelId: "studio" });
+
+    await expect(service.create({ channelId: "studio" })).rejects.toThrow(
+      /already has an active key/
+    );
+    await expect(service.create({ channelId: "../etc" })).rejects.toThrow(
+      /channelId/
+    );
+  });
+
+  it("should invalidate the old key on rotate", async () => {
+    const { streamKey, record } = await service.create({ channelId: "studio" });
+
+    const rotated = await service.rotate(record.id);
+
+    expect(service.resolve(streamKey)).toBeNull();
+    expect(service.resolve(rotated!.streamKey)?.channelId).toBe("studio");
+    expect(rotated!.record.rotatedAt).toBeInstanceOf(Date);
+  });
+
+  it("should stop resolving revoked keys", async () => {
+    const { streamKey, record } = await service.create();
+
+    await service.revoke(record.id);
+
+    expect(service.resolve(streamKey)).toBeNull();
+    expect(await service.rotate(record.id)).toBeNull();
+    expect(await service.revoke("missing")).toBeNull();
+  });
+});
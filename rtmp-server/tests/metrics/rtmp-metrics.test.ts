@@ -0,0 +1,70 @@
+import { RtmpMetrics } from "../../src/metrics/rtmp-metrics";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("RtmpMetrics", () => {
+  const publisher = (role: "primary" | "backup") => ({
+    sessionId: role,
+    app: "live",
+    channelId: "show",
+    streamPath: "/live/show",
+    role,
+    ingest: "main" as const,
+    connectedAt: new Date(0),
+  });
+
+  it("reads live state at scrape time", async () => {
+    const storage = {
+      getStorageInfo: jest.fn(async () => ({ used: 2048, available: 4096 })),
+    };
+    const metrics = new RtmpMetrics({
+      publishers: () => [publisher("primary"), publisher("backup")],
+      viewers: () => ({ rtmp: 1, flv: 2, "ws-flv": 0, hls: 5, dash: 3 }),
+      traffic: () => ({ inBytes: 1000, outBytes: 3000 }),
+      storage: storage as any,
+    });
+    metrics.observeRecording("saved");
+    metrics.observeRecording("failed");
+    metrics.observeRecording("saved");
+    await metrics.refreshStorage();
+
+    const text = await metrics.render();
+
+    expect(text).toContain(
+      'rtmp_active_publishers{app="live",role="primary"} 1'
+    );
+    expect(text).toContain('rtmp_active_viewers{protocol="hls"} 5');
+    expect(text).toContain('rtmp_active_viewers{protocol="flv"} 2');
+    expect(text).toContain('rtmp_active_viewers{protocol="dash"} 3');
+    expect(text).toContain("rtmp_received_bytes_total 1000");
+    expect(text).toContain("rtmp_sent_bytes_total 3000");
+    expect(text).toContain('rtmp_storage_bytes{kind="used"} 2048');
+    expect(text).toContain('rtmp_recordings_total{result="saved"} 2');
+    expect(text).toContain('rtmp_recordings_total{result="failed"} 1');
+  });
+
+  it("reads storage usage from the last refresh, not on every scrape", async () => {
+    const storage = {
+      getStorageInfo: jest.fn(async () => ({ used: 2048, available: 4096 })),
+    };
+    const metrics = new RtmpMetrics({
+      publishers: () => [],
+      viewers: () => ({ rtmp: 0, flv: 0, "ws-flv": 0, hls: 0, dash: 0 }),
+      traffic: () => ({ inBytes: 0, outBytes: 0 }),
+      storage: storage as any,
+    });
+
+    expect(await metrics.render()).not.toContain("rtmp_storage_bytes{");
+    await metrics.refreshStorage();
+    await metrics.render();
+    const text = await metrics.render();
+
+    expect(text).toContain('rtmp_storage_bytes{kind="available"} 4096');
+    expect(storage.getStorageInfo).toHaveBeenCalledTimes(1);
+  });
+});
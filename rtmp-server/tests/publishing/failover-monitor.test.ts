@@ -0,0 +1,86 @@
+import { FailoverMonitor } from "../../src/publishing/failover-monitor";
+import { IPublisherSession } from "../../src/publishing/publisher-registry";
+
+function publisher(
+  sessionId: string,
+  ingest: "main" | "backup",
+  role: "primary" | "backup"
+): IPublisherSession {
+  return {
+    sessionId,
+    app: "live",
+    channelId: "show",
+    streamPath: "/live/show",
+    role,
+    ingest,
+    connectedAt: new Date(0),
+  };
+}
+
+describe("FailoverMonitor", () => {
+  let bytes: Record<string, number>;
+  let monitor: FailoverMonitor;
+
+  beforeEach(() => {
+    bytes = { main: 100, backup: 100 };
+    monitor = new FailoverMonitor(
+      { stallTimeoutMs: 5000, recoveryMs: 10000 },
+      (id) => bytes[id]
+    );
+  });
+
+  it("fails over to a delivering standby when the on-air source stalls", () => {
+    const main = publisher("main", "main", "primary");
+    const backup = publisher("backup", "backup", "backup");
+
+    monitor.sample(["main", "backup"], 0);
+    bytes.backup = 200;
+    monitor.sample(["main", "backup"], 4000);
+    expect(monitor.chooseSource(main, [backup], 4000)).toBeUndefined();
+
+    bytes.backup = 300;
+    monitor.sample(["main", "backup"], 6000);
+    expect(monitor.isStalled("main", 6000)).toBe(true);
+    expect(monitor.chooseSource(main, [backup], 6000)).toBe(backup);
+  });
+
+  it("does not fail over to a standby that is stalled too", () => {
+    const main = publisher("main", "main", "primary");
+    const backup = publisher("backup", "backup", "backup");
+
+    monitor.sample(["main", "backup"], 0);
+    monitor.sample(["main", "backup"], 6000);
+
+    expect(monitor.chooseSource(main, [backup], 6000)).toBeUndefined();
+  });
+
+  it("switches back to the main ingest once it has recovered", () => {
+    const backup = publisher("backup", "backup", "primary");
+    const main = publisher("main", "main", "backup");
+
+    monitor.sample(["main", "backup"], 0);
+    // Main stalls, then resumes at 8s
+    bytes.backup = 200;
+    monitor.sample(["main", "backup"], 6000);
+    bytes.main = 200;
+    bytes.backup = 300;
+    monitor.sample(["main", "backup"], 8000);
+    expect(monitor.chooseSource(backup, [main], 8000)).toBeUndefined();
+
+    for (const now of [12000, 16000, 18000]) {
+      bytes.main += 100;
+      bytes.backup += 100;
+      monitor.sample(["main", "backup"], now);
+    }
+    expect(monitor.chooseSource(backup, [main], 18000)).toBe(main);
+  });
+
+  it("prefers the main ingest among standbys", () => {
+    const standbys = [
+      publisher("backup", "backup", "backup"),
+      publisher("main", "main", "backup"),
+    ];
+
+    expect(monitor.pickStandby(standbys)?.sessionId).toBe("main");
+  });
+});
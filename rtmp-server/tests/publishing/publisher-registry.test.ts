@@ -0,0 +1,80 @@
+import {
+  IPublisherSession,
+  PublisherRegistry,
+  parseDuplicatePublisherPolicy,
+} from "../../src/publishing/publisher-registry";
+import { logger } from "../../src/utils/logger";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function publisher(
+  sessionId: string,
+  overrides: Partial<IPublisherSession> = {}
+): IPublisherSession {
+  return {
+    sessionId,
+    app: "live",
+    channelId: "show",
+    streamPath: "/live/show",
+    role: "primary",
+    ingest: "main",
+    connectedAt: new Date(1000),
+    ...overrides,
+  };
+}
+
+describe("PublisherRegistry", () => {
+  let registry: PublisherRegistry;
+
+  beforeEach(() => {
+    registry = new PublisherRegistry();
+  });
+
+  it("keeps two sessions on the same stream apart", () => {
+    registry.add(publisher("a"));
+    registry.add(publisher("b", { role: "backup" }));
+
+    expect(registry.primaryFor("/live/show")?.sessionId).toBe("a");
+    expect(registry.forChannel("show")).toHaveLength(2);
+
+    expect(registry.remove("b")?.role).toBe("backup");
+    expect(registry.get("a")).toBeDefined();
+    expect(registry.remove("b")).toBeUndefined();
+  });
+
+  it("lists backups oldest first", () => {
+    registry.add(publisher("a"));
+    registry.add(
+      publisher("late", { role: "backup", connectedAt: new Date(3000) })
+    );
+    registry.add(
+      publisher("early", { role: "backup", connectedAt: new Date(2000) })
+    );
+    registry.add(
+      publisher("other", {
+        role: "backup",
+        streamPath: "/live/other",
+        channelId: "other",
+      })
+    );
+
+    expect(
+      registry.backupsFor("/live/show").map((session) => session.sessionId)
+    ).toEqual(["early", "late"]);
+  });
+});
+
+describe("parseDuplicatePublisherPolicy", () => {
+  it("defaults to reject and falls back on unknown values", () => {
+    expect(parseDuplicatePublisherPolicy()).toBe("reject");
+    expect(parseDuplicatePublisherPolicy("BACKUP")).toBe("backup");
+    expect(parseDuplicatePublisherPolicy("replace")).toBe("reject");
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,303 @@
+import fs from "fs-extra";
+import { IJob } from "../../src/jobs/base-job-store";
+import { JobQueue } from "../../src/jobs/job-queue";
+import { RecordingProcessor } from "../../src/recording/recording-processor";
+import { IRecordingSession } from "../../src/recording/stream-recorder";
+
+jest.mock("fs-extra");
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+// Until every job has completed or failed
+async function settled(queue: JobQueue): Promise<void> {
+  while (
+    queue
+      .list()
+      .some((job) => job.status === "pending" || job.status === "running")
+  ) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+}
+
+describe("RecordingProcessor", () => {
+  const recording: IRecordingSession = {
+    sessionId: "session-1",
+    streamKey: "abc123",
+    streamPath: "/live/abc123",
+    filePath: "/temp/recordings/abc123.flv",
+    startTime: new Date("2024-01-01T00:00:00Z"),
+    endTime: new Date("2024-01-01T00:01:30Z"),
+  };
+
+  let storage: { saveRecording: jest.Mock };
+  let queue: JobQueue;
+  let processor: RecordingProcessor;
+
+  // Loads `jobs` on start, as left behind by an earlier process
+  const createQueue = (jobs: IJob[] = []) =>
+    new JobQueue(
+      {
+        load: jest.fn(async () => jobs),
+        save: jest.fn(async () => undefined),
+        remove: jest.fn(async () => undefined),
+      },
+      {
+        concurrency: 1,
+        maxAttempts: 3,
+        backoffMs: 0,
+        maxBackoffMs: 0,
+        retentionMs: 60000,
+      }
+    );
+  const createProcessor = (thumbnails?: any, remuxer?: any) =>
+    new RecordingProcessor(storage as any, queue, thumbnails, remuxer);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    storage = { saveRecording: jest.fn() };
+    queue = createQueue();
+    await queue.start();
+    processor = createProcessor();
+    mockedFs.pathExists.mockResolvedValue(true as never);
+    mockedFs.stat.mockResolvedValue({ size: 2048 } as any);
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  it("should save with duration, size and quality metadata", async () => {
+    storage.saveRecording.mockResolvedValue({
+      success: true,
+      metadata: { streamKey: "abc123" },
+    });
+    const saved = jest.fn();
+    processor.on("saved", saved);
+
+    const job = await processor.process(recording, {
+      quality: "1280x720@30fps",
+    });
+    await settled(queue);
+
+    expect(job.type).toBe("upload");
+    expect(job.group).toBe("session-1");
+    expect(storage.saveRecording).toHaveBeenCalledWith(
+      recording.filePath,
+      "abc123",
+      { duration: 90, fileSize: 2048, quality: "1280x720@30fps" }
+    );
+    expect(saved).toHaveBeenCalledWith({
+      success: true,
+      metadata: { streamKey: "abc123" },
+    });
+    expect(
+      queue
+        .list()
+        .map((queued) => queued.type)
+        .sort()
+    ).toEqual(["delete-temp", "upload"]);
+  });
+
+  it("should attach previews rendered before the file is stored", async () => {
+    const thumbnails = {
+      generateRecordingPreviews: jest.fn(async () => ({
+        posterPath: "thumbnails/abc123/abc123_poster.jpg",
+        posterUrl: "https://cdn/thumbnails/abc123/abc123_poster.jpg",
+        spritePath: "thumbnails/abc123/abc123_sprite.jpg",
+        vttPath: "thumbnails/abc123/abc123_sprite.vtt",
+        vttUrl: "https://cdn/thumbnails/abc123/abc123_sprite.vtt",
+      })),
+    };
+    processor = createProcessor(thumbnails);
+    storage.saveRecording.mockResolvedValue({ success: true, metadata: {} });
+
+    await processor.process(recording);
+    await settled(queue);
+
+    expect(thumbnails.generateRecordingPreviews).toHaveBeenCalledWith(
+      recording.filePath,
+      "abc123",
+      90
+    );
+    expect(storage.saveRecording).toHaveBeenCalledWith(
+      recording.filePath,
+      "abc123",
+      expect.objectContaining({
+        thumbnailPath: "thumbnails/abc123/abc123_poster.jpg",
+        previewVttPath: "thumbnails/abc123/abc123_sprite.vtt",
+        thumbnailUrl: "https://cdn/thumbnails/abc123/abc123_poster.jpg",
+        previewVttUrl: "https://cdn/thumbnails/abc123/abc123_sprite.vtt",
+      })
+    );
+  });
+
+  it("should store the remuxed file and then remove the FLV", async () => {
+    const remuxer = {
+      remux: jest.fn(async () => ({
+        filePath: "/temp/recordings/abc123.mp4",
+        duration: 88,
+        quality: "1280x720@30fps h264/aac",
+      })),
+    };
+    processor = createProcessor(undefined, remuxer);
+    mockedFs.stat.mockResolvedValueOnce({ size: 2048 } as any);
+    mockedFs.stat.mockResolvedValueOnce({ size: 1900 } as any);
+    storage.saveRecording.mockResolvedValue({ success: true, metadata: {} });
+
+    await processor.process(recording, { quality: "1280x720@30fps" });
+    await settled(queue);
+
+    expect(storage.saveRecording).toHaveBeenCalledWith(
+      "/temp/recordings/abc123.mp4",
+      "abc123",
+      { duration: 88, fileSize: 1900, quality: "1280x720@30fps h264/aac" }
+    );
+    expect(mockedFs.remove).toHaveBeenCalledWith(recording.filePath);
+  });
+
+  it("should store the FLV next to the MP4 when keeping the source", async () => {
+    const remuxer = {
+      keepSource: true,
+      remux: jest.fn(async () => ({
+        filePath: "/temp/recordings/abc123.mp4",
+        duration: 88,
+      })),
+    };
+    processor = createProcessor(undefined, remuxer);
+    mockedFs.stat.mockResolvedValueOnce({ size: 2048 } as any);
+    mockedFs.stat.mockResolvedValueOnce({ size: 1900 } as any);
+    storage.saveRecording.mockResolvedValue({ success: true, metadata: {} });
+
+    await processor.process(recording);
+    await settled(queue);
+
+    expect(storage.saveRecording.mock.calls).toEqual([
+      [
+        "/temp/recordings/abc123.mp4",
+        "abc123",
+        { duration: 88, fileSize: 1900 },
+      ],
+      [recording.filePath, "abc123", { duration: 88, fileSize: 2048 }],
+    ]);
+  });
+
+  it("should still save the recording when previews fail", async () => {
+    const thumbnails = {
+      generateRecordingPreviews: jest.fn(async () => {
+        throw new Error("ffmpeg exited with code 1");
+      }),
+    };
+    processor = createProcessor(thumbnails);
+    storage.saveRecording.mockResolvedValue({ success: true, metadata: {} });
+
+    await processor.process(recording);
+    await settled(queue);
+
+    expect(storage.saveRecording).toHaveBeenCalledTimes(1);
+    expect(
+      storage.saveRecording.mock.calls[0][2].thumbnailPath
+    ).toBeUndefined();
+  });
+
+  it("should retry failed saves until one succeeds", async () => {
+    storage.saveRecording
+      .mockResolvedValueOnce({ success: false, error: "network" })
+      .mockResolvedValueOnce({ success: true, metadata: {} });
+
+    const job = await processor.process(recording);
+    await settled(queue);
+
+    expect(storage.saveRecording).toHaveBeenCalledTimes(2);
+    expect(queue.get(job.id)).toMatchObject({
+      status: "completed",
+      attempts: 2,
+    });
+  });
+
+  it("should emit failed and keep the file after exhausting retries", async () => {
+    storage.saveRecording.mockResolvedValue({ success: false, error: "down" });
+    const failed = jest.fn();
+    processor.on("failed", failed);
+
+    const job = await processor.process(recording);
+    await settled(queue);
+
+    expect(storage.saveRecording).toHaveBeenCalledTimes(3);
+    expect(failed).toHaveBeenCalledWith({
+      jobId: job.id,
+      step: "upload",
+      streamKey: "abc123",
+      filePath: recording.filePath,
+      attempts: 3,
+      error: "down",
+    });
+    expect(mockedFs.remove).not.toHaveBeenCalled();
+  });
+
+  it("should skip the upload on a rerun after the file was stored", async () => {
+    // Left running by a crash after storage took the file
+    const now = new Date();
+    queue.stop();
+    queue = createQueue([
+      {
+        id: "job-1",
+        type: "upload",
+        group: "session-1",
+        payload: { ...recording, metadata: { duration: 90 } },
+        status: "running",
+        attempts: 1,
+        maxAttempts: 3,
+        runAt: now,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ]);
+    processor = createProcessor();
+    const saved = jest.fn();
+    const failed = jest.fn();
+    processor.on("saved", saved);
+    processor.on("failed", failed);
+    mockedFs.pathExists.mockResolvedValue(false as never);
+
+    await queue.start();
+    await settled(queue);
+
+    expect(storage.saveRecording).not.toHaveBeenCalled();
+    expect(saved).toHaveBeenCalledWith(
+      expect.objectContaining({
+        success: true,
+        metadata: expect.objectContaining({
+          streamKey: "abc123",
+          fileName: "abc123.flv",
+          duration: 90,
+        }),
+      })
+    );
+    expect(failed).not.toHaveBeenCalled();
+    expect(queue.get("job-1").status).toBe("completed");
+  });
+
+  it("should fail without queueing when the file is missing", async () => {
+    mockedFs.pathExists.mockResolvedValue(false as never);
+    const failed = jest.fn();
+    processor.on("failed", failed);
+
+    const job = await processor.process(recording);
+
+    expect(job).toBeNull();
+    expect(queue.list()).toEqual([]);
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        step: "enqueue",
+        error: expect.stringMatching(/Recording file not found/),
+      })
+    );
+  });
+});
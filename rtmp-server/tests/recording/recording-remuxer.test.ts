@@ -0,0 +1,72 @@
+import {
+  buildRemuxArgs,
+  parseProbe,
+  parseRecordingFormat,
+} from "../../src/recording/recording-remuxer";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("buildRemuxArgs", () => {
+  const valueOf = (args: string[], flag: string) =>
+    args[args.indexOf(flag) + 1];
+
+  it("copies every stream without re-encoding", () => {
+    const args = buildRemuxArgs("in.flv", "out.mp4", "mp4");
+
+    expect(valueOf(args, "-c")).toBe("copy");
+    expect(valueOf(args, "-map")).toBe("0");
+    expect(valueOf(args, "-movflags")).toBe("+faststart");
+    expect(args[args.length - 1]).toBe("out.mp4");
+  });
+
+  it("writes fragments for fmp4", () => {
+    expect(
+      valueOf(buildRemuxArgs("in.flv", "out.mp4", "fmp4"), "-movflags")
+    ).toBe("+frag_keyframe+empty_moov+default_base_moof");
+  });
+});
+
+describe("parseProbe", () => {
+  it("reads duration, resolution, frame rate and codecs", () => {
+    const output = JSON.stringify({
+      streams: [
+        {
+          codec_type: "video",
+          codec_name: "h264",
+          width: 1920,
+          height: 1080,
+          avg_frame_rate: "30000/1001",
+        },
+        { codec_type: "audio", codec_name: "aac" },
+      ],
+      format: { duration: "93.480000" },
+    });
+
+    expect(parseProbe(output)).toEqual({
+      duration: 93,
+      quality: "1920x1080@30fps h264/aac",
+    });
+  });
+
+  it("leaves out what ffprobe did not report", () => {
+    const output = JSON.stringify({
+      streams: [{ codec_type: "audio", codec_name: "aac" }],
+      format: {},
+    });
+
+    expect(parseProbe(output)).toEqual({ duration: undefined, quality: "aac" });
+  });
+});
+
+describe("parseRecordingFormat", () => {
+  it("falls back to mp4 for unknown values", () => {
+    expect(parseRecordingFormat("FLV")).toBe("flv");
+    expect(parseRecordingFormat("webm")).toBe("mp4");
+  });
+});
@@ -4,6 +4,8 @@ import { logger } from "../src/utils/logger";
 // Mock all dependencies
 jest.mock("fs-extra", () => ({
   ensureDir: jest.fn().mockResolvedValue(undefined),
+  pathExists: jest.fn().mockResolvedValue(false),
+  pathExistsSync: jest.fn().mockReturnValue(false),
 }));
 jest.mock("dotenv", () => ({
   config: jest.fn(),
@@ -18,6 +20,7 @@ jest.mock("../src/storage/storage-factory", () => ({
   StorageFactory: {
     createStorage: jest.fn(() => ({
       saveRecording: jest.fn(),
+      on: jest.fn(),
     })),
   },
 }));
@@ -39,19 +42,44 @@ jest.mock("node-media-server", () => {
   }));
 });
 
+const mockGetPublisherId = jest.fn();
+const mockMovePublisher = jest.fn();
+const mockSwitchPublisher = jest.fn();
+
+jest.mock("../src/publishing/nms-context", () => ({
+  getPublisherId: (path: string) => mockGetPublisherId(path),
+  movePublisher: (id: string, path: string) => mockMovePublisher(id, path),
+  switchPublisher: (...args: string[]) => mockSwitchPublisher(...args),
+  rekeyTransSession: jest.fn(),
+  describePlayer: () => null,
+  getTrafficTotals: () => ({ inBytes: 0, outBytes: 0 }),
+  interceptHttpRequests: jest.fn(),
+}));
+
 // Mock fastify
+const mockListen = jest.fn(
+  (opts, cb?) => cb && cb(null, `http://localhost:${opts.port}`)
+);
+const mockClose = jest.fn();
+
 jest.mock("fastify", () => {
   return jest.fn().mockImplementation(() => ({
+    addHook: jest.fn(),
+    get: jest.fn(),
     post: jest.fn(),
-    listen: jest.fn(
-      (opts, cb) => cb && cb(null, `http://localhost:${opts.port}`)
-    ),
+    delete: jest.fn(),
+    listen: mockListen,
+    close: mockClose,
   }));
 });
 
 describe("RTMPServer", () => {
   let server: RTMPServer;
 
+  // Handlers of the most recently constructed server
+  const handler = (event: string) =>
+    mockOn.mock.calls.filter(([name]) => name === event).pop()[1];
+
   beforeEach(() => {
     jest.clearAllMocks();
 
@@ -75,6 +103,9 @@ describe("RTMPServer", () => {
   it("should start the server successfully", async () => {
     await server.start();
     expect(mockRun).toHaveBeenCalled();
+    expect(mockListen).toHaveBeenCalledWith(
+      expect.objectContaining({ port: 8888 })
+    );
     expect(logger.info).toHaveBeenCalledWith(
       "RTMP Server started successfully",
       expect.objectContaining({
@@ -89,9 +120,33 @@ describe("RTMPServer", () => {
   it("should stop the server successfully", async () => {
     await server.stop();
     expect(mockStop).toHaveBeenCalled();
+    expect(mockClose).toHaveBeenCalled();
     expect(logger.info).toHaveBeenCalledWith("RTMP Server stopped");
   });
 
+  it("should queue recordings in progress before stopping the job queue", async () => {
+    const recording = {
+      sessionId: "s1",
+      streamKey: "show",
+      streamPath: "/live/show",
+      filePath: "./temp/recordings/show.flv",
+      startTime: new Date(),
+    };
+    const internals = server as any;
+    jest.spyOn(internals.recorder, "stopAll").mockResolvedValue([recording]);
+    const process = jest
+      .spyOn(internals.recordingProcessor, "process")
+      .mockResolvedValue(null);
+    const stopJobs = jest.spyOn(internals.recordingJobs, "stop");
+
+    await server.stop();
+
+    expect(process).toHaveBeenCalledWith(recording);
+    expect(process.mock.invocationCallOrder[0]).toBeLessThan(
+      stopJobs.mock.invocationCallOrder[0]
+    );
+  });
+
   it("should log error on start failure", async () => {
     mockRun.mockImplementationOnce(() => {
       throw new Error("start error");
@@ -115,4 +170,184 @@ describe("RTMPServer", () => {
       expect.any(Error)
     );
   });
+
+  describe("playback auth on the control API", () => {
+    const onRequest = () =>
+      (server as any).apiServer
+        .getInstance()
+        .addHook.mock.calls.filter(([name]) => name === "onRequest")
+        .pop()[1];
+    const reply = () => {
+      const mock: any = { send: jest.fn() };
+      mock.code = jest.fn(() => mock);
+      return mock;
+    };
+
+    beforeEach(() => {
+      process.env.PLAYBACK_AUTH_ENABLED = "true";
+      process.env.PLAYBACK_TOKEN_SECRET = "secret";
+      server = new RTMPServer();
+    });
+
+    afterEach(() => {
+      delete process.env.PLAYBACK_AUTH_ENABLED;
+      delete process.env.PLAYBACK_TOKEN_SECRET;
+    });
+
+    it("leaves recording deletes to the API's own auth", async () => {
+      const deleteReply = reply();
+      await onRequest()(
+        {
+          url: "/api/recordings/recordings/abc123/abc123_1.mp4",
+          routeOptions: { url: "/api/recordings/*" },
+          params: { "*": "recordings/abc123/abc123_1.mp4" },
+          ip: "10.0.0.1",
+          headers: {},
+        },
+        deleteReply
+      );
+
+      expect(deleteReply.code).not.toHaveBeenCalled();
+    });
+
+    it("rejects LL-HLS requests without a token, however encoded", async () => {
+      for (const url of [
+        "/ll/live/abc123/index.m3u8",
+        "/%6cl/live/abc123/index.m3u8",
+      ]) {
+        const playReply = reply();
+        await onRequest()(
+          {
+            url,
+            routeOptions: { url: "/ll/:app/:stream/index.m3u8" },
+            params: { app: "live", stream: "abc123" },
+            ip: "10.0.0.1",
+            headers: {},
+          },
+          playReply
+        );
+
+        expect(playReply.code).toHaveBeenCalledWith(403);
+      }
+    });
+  });
+
+  describe("duplicate publishers", () => {
+    const incumbent = { isStarting: true, reject: jest.fn() };
+    const newcomer = {
+      isStarting: true,
+      publishStreamPath: "/live/show",
+      reject: jest.fn(),
+    };
+
+    beforeEach(() => {
+      (mockGetSession as jest.Mock).mockImplementation((id: string) =>
+        id === "old" ? incumbent : newcomer
+      );
+      mockGetPublisherId.mockReturnValue("old");
+      newcomer.publishStreamPath = "/live/show";
+    });
+
+    afterEach(() => {
+      delete process.env.DUPLICATE_PUBLISHER_POLICY;
+      (mockGetSession as jest.Mock).mockImplementation(() => ({
+        reject: jest.fn(),
+      }));
+      mockGetPublisherId.mockReset();
+    });
+
+    it("rejects the newcomer by default", async () => {
+      const onDecision = jest.fn();
+      server.on("duplicatePublisher", onDecision);
+
+      await handler("prePublish")("new", "/live/show", {});
+
+      expect(newcomer.reject).toHaveBeenCalled();
+      expect(incumbent.reject).not.toHaveBeenCalled();
+      expect(onDecision).toHaveBeenCalledWith(
+        expect.objectContaining({
+          policy: "reject",
+          action: "rejected",
+          sessionId: "new",
+          incumbentId: "old",
+        })
+      );
+    });
+
+    it("kicks the incumbent and moves the newcomer onto the stream", async () => {
+      process.env.DUPLICATE_PUBLISHER_POLICY = "kick";
+      server = new RTMPServer();
+      incumbent.reject.mockImplementation(() =>
+        mockGetPublisherId.mockReturnValue(undefined)
+      );
+
+      await handler("prePublish")("new", "/live/show", {});
+
+      expect(newcomer.publishStreamPath).toBe("/__standby/show-new");
+      expect(incumbent.reject).toHaveBeenCalled();
+      expect(mockMovePublisher).toHaveBeenCalledWith("new", "/live/show");
+      expect(server.listLiveStreams()).toEqual([
+        expect.objectContaining({ sessionId: "new", role: "primary" }),
+      ]);
+    });
+  });
+
+  describe("ingest failover", () => {
+    const sessions = {
+      main: { isStarting: true, isPublishing: true, reject: jest.fn() },
+      bk: { isStarting: true, isPublishing: true, reject: jest.fn() },
+    };
+
+    beforeEach(() => {
+      process.env.INGEST_FAILOVER_ENABLED = "true";
+      server = new RTMPServer();
+      (mockGetSession as jest.Mock).mockImplementation(
+        (id: string) => sessions[id]
+      );
+    });
+
+    afterEach(() => {
+      delete process.env.INGEST_FAILOVER_ENABLED;
+      (mockGetSession as jest.Mock).mockImplementation(() => ({
+        reject: jest.fn(),
+      }));
+      mockGetPublisherId.mockReset();
+    });
+
+    it("switches viewers to the backup ingest when the primary drops", async () => {
+      const onFailover = jest.fn();
+      server.on("failover", onFailover);
+
+      await handler("prePublish")("main", "/live/show", {});
+      mockGetPublisherId.mockReturnValue("main");
+      await handler("prePublish")("bk", "/live/show_backup", {});
+
+      expect(server.listLiveStreams()).toEqual([
+        expect.objectContaining({ sessionId: "main", role: "primary" }),
+        expect.objectContaining({
+          sessionId: "bk",
+          role: "backup",
+          ingest: "backup",
+        }),
+      ]);
+
+      await handler("donePublish")("main");
+
+      expect(mockSwitchPublisher).toHaveBeenCalledWith(
+        "main",
+        "bk",
+        "/__standby/show-main"
+      );
+      expect(onFailover).toHaveBeenCalledWith(
+        expect.objectContaining({
+          reason: "disconnected",
+          fromSessionId: "main",
+          toSessionId: "bk",
+        })
+      );
+      expect(server.listLiveStreams()).toEqual([
+        expect.objectContaining({ sessionId: "bk", role: "primary" }),
+      ]);
+    });
+  });
 });
@@ -98,6 +98,31 @@ describe("LocalStorage", () => {
       expect(result[0].fileName).toContain("abc123");
     });
 
+    it("should include the details saved with the recording", async () => {
+      mockedFs.readdir.mockResolvedValue(["abc123_2021.mp4"] as any);
+      mockedFs.stat.mockResolvedValue({ size: 1000, birthtime: new Date() });
+      mockedFs.readJson.mockResolvedValue({
+        duration: 90,
+        thumbnailUrl:
+          "http://localhost:8888/recordings/thumbnails/abc123/a_poster.jpg",
+        previewVttUrl:
+          "http://localhost:8888/recordings/thumbnails/abc123/a_sprite.vtt",
+      });
+
+      const [recording] = await storage.listRecordings();
+
+      expect(mockedFs.readJson).toHaveBeenCalledWith(
+        path.join("./test/recordings", "abc123_2021.mp4.json")
+      );
+      expect(recording).toMatchObject({
+        streamKey: "abc123",
+        identifier: "abc123_2021.mp4",
+        duration: 90,
+        thumbnailUrl:
+          "http://localhost:8888/recordings/thumbnails/abc123/a_poster.jpg",
+      });
+    });
+
     it("should handle fs error gracefully", async () => {
       mockedFs.readdir.mockRejectedValue(new Error("fail"));
       const result = await storage.listRecordings();
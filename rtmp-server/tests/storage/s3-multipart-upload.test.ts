@@ -0,0 +1,145 @@
+import fs from "fs-extra";
+import {
+  MultipartUpload,
+  checkpointPath,
+} from "../../src/storage/s3-multipart-upload";
+
+jest.mock("fs-extra");
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+const MiB = 1024 * 1024;
+
+// One mock per command, called with the command's input
+function mockClient(handlers: Record<string, jest.Mock>) {
+  return {
+    send: jest.fn(async (command) =>
+      handlers[command.constructor.name](command.input)
+    ),
+  };
+}
+
+describe("MultipartUpload", () => {
+  const filePath = "/temp/recordings/abc123.mp4";
+  let s3: Record<string, jest.Mock>;
+  const calls = (command: string) =>
+    s3[command].mock.calls.map(([input]) => input);
+  let upload: MultipartUpload;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    s3 = {
+      CreateMultipartUploadCommand: jest.fn(async () => ({ UploadId: "u1" })),
+      UploadPartCommand: jest.fn(async (input) => ({
+        ETag: `etag-${input.PartNumber}`,
+      })),
+      CompleteMultipartUploadCommand: jest.fn(async () => ({
+        Location: "https://s3/key",
+      })),
+      AbortMultipartUploadCommand: jest.fn(async () => ({})),
+    };
+    upload = new MultipartUpload(mockClient(s3) as any, {
+      partSize: 5 * MiB,
+      concurrency: 2,
+    });
+    mockedFs.stat.mockResolvedValue({ size: 12 * MiB } as any);
+    mockedFs.pathExists.mockResolvedValue(false as never);
+  });
+
+  it("should upload every part, report progress and complete in order", async () => {
+    const progress = jest.fn();
+    upload.on("progress", progress);
+
+    const result = await upload.upload(filePath, "bucket", "rec/a.mp4", {
+      ContentType: "video/mp4",
+    });
+
+    expect(result).toEqual({ key: "rec/a.mp4", location: "https://s3/key" });
+    expect(s3.CreateMultipartUploadCommand).toHaveBeenCalledWith({
+      Bucket: "bucket",
+      Key: "rec/a.mp4",
+      ContentType: "video/mp4",
+    });
+    expect(
+      calls("UploadPartCommand").map((input) => input.ContentLength)
+    ).toEqual([5 * MiB, 5 * MiB, 2 * MiB]);
+    expect(mockedFs.createReadStream).toHaveBeenCalledWith(filePath, {
+      start: 10 * MiB,
+      end: 12 * MiB - 1,
+    });
+    expect(
+      calls("CompleteMultipartUploadCommand")[0].MultipartUpload.Parts
+    ).toEqual([
+      { PartNumber: 1, ETag: "etag-1" },
+      { PartNumber: 2, ETag: "etag-2" },
+      { PartNumber: 3, ETag: "etag-3" },
+    ]);
+    expect(progress).toHaveBeenLastCalledWith({
+      key: "rec/a.mp4",
+      uploadedBytes: 12 * MiB,
+      totalBytes: 12 * MiB,
+    });
+    expect(mockedFs.remove).toHaveBeenCalledWith(checkpointPath(filePath));
+  });
+
+  it("should resume from the checkpoint under the original key", async () => {
+    mockedFs.pathExists.mockResolvedValue(true as never);
+    mockedFs.readJson.mockResolvedValue({
+      bucket: "bucket",
+      key: "rec/earlier.mp4",
+      uploadId: "u0",
+      fileSize: 12 * MiB,
+      partSize: 5 * MiB,
+      parts: [{ PartNumber: 1, ETag: "etag-1" }],
+    });
+
+    const result = await upload.upload(filePath, "bucket", "rec/a.mp4", {});
+
+    expect(result.key).toBe("rec/earlier.mp4");
+    expect(s3.CreateMultipartUploadCommand).not.toHaveBeenCalled();
+    expect(calls("UploadPartCommand").map((input) => input.PartNumber)).toEqual(
+      [2, 3]
+    );
+    expect(calls("UploadPartCommand")[0].UploadId).toBe("u0");
+  });
+
+  it("should abort a checkpointed upload of a file that changed", async () => {
+    mockedFs.pathExists.mockResolvedValueOnce(true as never);
+    mockedFs.readJson.mockResolvedValue({
+      bucket: "bucket",
+      key: "rec/earlier.mp4",
+      uploadId: "u0",
+      fileSize: 8 * MiB,
+      partSize: 5 * MiB,
+      parts: [{ PartNumber: 1, ETag: "etag-1" }],
+    });
+
+    await upload.upload(filePath, "bucket", "rec/a.mp4", {});
+
+    expect(s3.AbortMultipartUploadCommand).toHaveBeenCalledWith({
+      Bucket: "bucket",
+      Key: "rec/earlier.mp4",
+      UploadId: "u0",
+    });
+    expect(s3.CreateMultipartUploadCommand).toHaveBeenCalled();
+    expect(s3.UploadPartCommand).toHaveBeenCalledTimes(3);
+  });
+
+  it("should start over next time when the upload no longer exists", async () => {
+    s3.UploadPartCommand.mockImplementation(async () => {
+      throw Object.assign(new Error("gone"), { name: "NoSuchUpload" });
+    });
+
+    await expect(
+      upload.upload(filePath, "bucket", "rec/a.mp4", {})
+    ).rejects.toThrow("gone");
+    expect(mockedFs.remove).toHaveBeenCalledWith(checkpointPath(filePath));
+    expect(s3.CompleteMultipartUploadCommand).not.toHaveBeenCalled();
+  });
+});
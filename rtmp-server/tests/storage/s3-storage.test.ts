@@ -0,0 +1,197 @@
+import {
+  CreateBucketCommand,
+  HeadObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { S3Storage, createS3Client } from "../../src/storage/s3-storage";
+import { logger } from "../../src/utils/logger";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+// One mock per command, called with the command's input
+function mockClient(handlers: Record<string, jest.Mock>) {
+  return {
+    send: jest.fn(async (command) =>
+      handlers[command.constructor.name](command.input)
+    ),
+    config: {},
+  };
+}
+
+describe("S3Storage", () => {
+  let s3: Record<string, jest.Mock>;
+  let storage: S3Storage;
+
+  beforeEach(() => {
+    process.env.S3_BUCKET_NAME = "bucket";
+    process.env.S3_RECORDINGS_PREFIX = "recordings/";
+    s3 = {
+      HeadBucketCommand: jest.fn(async () => ({})),
+      ListMultipartUploadsCommand: jest.fn(async () => ({ Uploads: [] })),
+      ListObjectsV2Command: jest.fn(async () => ({
+        Contents: [
+          {
+            Key: "recordings/abc123/abc123_1.mp4",
+            Size: 1024,
+            LastModified: new Date(),
+          },
+        ],
+      })),
+      HeadObjectCommand: jest.fn(async () => ({
+        Metadata: {
+          streamkey: "abc123",
+          duration: "90",
+          thumbnailurl: "https://cdn/recordings/abc123/thumbnails/a_poster.jpg",
+          previewvtturl:
+            "https://cdn/recordings/abc123/thumbnails/a_sprite.vtt",
+        },
+      })),
+      DeleteObjectCommand: jest.fn(async () => ({})),
+    };
+    storage = new S3Storage(mockClient(s3) as any);
+  });
+
+  it("should list recordings by the key they are deleted with", async () => {
+    const [listed] = await storage.listRecordings("abc123");
+
+    expect(listed).toMatchObject({
+      streamKey: "abc123",
+      fileName: "abc123_1.mp4",
+      identifier: "recordings/abc123/abc123_1.mp4",
+      duration: 90,
+      thumbnailUrl: "https://cdn/recordings/abc123/thumbnails/a_poster.jpg",
+      previewVttUrl: "https://cdn/recordings/abc123/thumbnails/a_sprite.vtt",
+    });
+    expect(await storage.deleteRecording(listed.identifier)).toBe(true);
+    expect(s3.DeleteObjectCommand).toHaveBeenCalledWith({
+      Bucket: "bucket",
+      Key: "recordings/abc123/abc123_1.mp4",
+    });
+  });
+
+  it("should leave encryption unset by default on a custom endpoint", async () => {
+    const encryption = async () => {
+      const filePath = path.join(os.tmpdir(), `s3-storage-${Date.now()}.jpg`);
+      await fs.writeFile(filePath, Buffer.from("jpeg"));
+      await new S3Storage(mockClient(s3) as any).saveThumbnail(
+        filePath,
+        "abc123",
+        "live.jpg",
+        "image/jpeg"
+      );
+      return s3.PutObjectCommand.mock.calls.pop()[0].ServerSideEncryption;
+    };
+    s3.PutObjectCommand = jest.fn(async () => ({}));
+    process.env.CLOUDFRONT_DOMAIN = "cdn.example.com";
+
+    try {
+      expect(await encryption()).toBe("AES256");
+      process.env.S3_ENDPOINT = "http://minio:9000";
+      expect(await encryption()).toBeUndefined();
+    } finally {
+      delete process.env.S3_ENDPOINT;
+      delete process.env.CLOUDFRONT_DOMAIN;
+    }
+  });
+
+  it("should log instead of rejecting when the bucket is unreachable", async () => {
+    s3.HeadBucketCommand.mockRejectedValue(new Error("ECONNREFUSED"));
+
+    new S3Storage(mockClient(s3) as any);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringMatching(/ECONNREFUSED/)
+    );
+    // Only the storage built in beforeEach got that far
+    expect(s3.ListMultipartUploadsCommand).toHaveBeenCalledTimes(1);
+  });
+});
+
+// Runs against a real S3-compatible server, e.g.
+//   docker run -p 9000:9000 minio/minio server /data
+//   S3_TEST_ENDPOINT=http://localhost:9000 npx jest tests/storage/s3-storage
+const endpoint = process.env.S3_TEST_ENDPOINT;
+const describeS3 = endpoint ? describe : describe.skip;
+
+describeS3("S3Storage against an S3-compatible endpoint", () => {
+  const bucket = `rtmp-test-${Date.now()}`;
+  let client: S3Client;
+  let storage: S3Storage;
+  let workDir: string;
+
+  beforeAll(async () => {
+    Object.assign(process.env, {
+      S3_ENDPOINT: endpoint,
+      S3_FORCE_PATH_STYLE: "true",
+      S3_REGION: "us-east-1",
+      S3_ACCESS_KEY: process.env.S3_TEST_ACCESS_KEY || "minioadmin",
+      S3_SECRET_KEY: process.env.S3_TEST_SECRET_KEY || "minioadmin",
+      S3_BUCKET_NAME: bucket,
+    });
+    client = createS3Client();
+    await client.send(new CreateBucketCommand({ Bucket: bucket }));
+    storage = new S3Storage(client);
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "s3-storage-"));
+  });
+
+  afterAll(async () => {
+    await fs.remove(workDir);
+  });
+
+  it("should upload, list, sign and delete a recording", async () => {
+    const filePath = path.join(workDir, "abc123.mp4");
+    await fs.writeFile(filePath, Buffer.alloc(1024, 1));
+
+    const result = await storage.saveRecording(filePath, "abc123", {
+      duration: 90,
+    });
+
+    expect(result.success).toBe(true);
+    expect(await fs.pathExists(filePath)).toBe(false);
+    const head = await client.send(
+      new HeadObjectCommand({ Bucket: bucket, Key: result.filePath })
+    );
+    expect(head.ContentType).toBe("video/mp4");
+    expect(head.ContentLength).toBe(1024);
+
+    const [listed] = await storage.listRecordings("abc123");
+    expect(listed).toMatchObject({
+      streamKey: "abc123",
+      identifier: result.filePath,
+      duration: 90,
+    });
+
+    const url = await storage.getRecordingUrl(result.filePath);
+    expect(url).toContain(`${endpoint}/${bucket}/`);
+    expect(url).toContain("X-Amz-Signature");
+
+    expect(await storage.deleteRecording(listed.identifier)).toBe(true);
+    expect(await storage.listRecordings("abc123")).toEqual([]);
+  });
+
+  it("should store thumbnails under a path-style URL", async () => {
+    const filePath = path.join(workDir, "live.jpg");
+    await fs.writeFile(filePath, Buffer.from("jpeg"));
+
+    const asset = await storage.saveThumbnail(
+      filePath,
+      "abc123",
+      "live.jpg",
+      "image/jpeg"
+    );
+
+    expect(asset.url).toBe(
+      `${endpoint}/${bucket}/recordings/abc123/thumbnails/live.jpg`
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  buildSnapshotArgs,
+  buildSpriteArgs,
+  buildSpriteVtt,
+  IThumbnailOptions,
+  planSprite,
+} from "../../src/thumbnails/thumbnail-generator";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const options: IThumbnailOptions = {
+  liveIntervalMs: 60000,
+  liveWidth: 640,
+  spriteIntervalSec: 10,
+  spriteMaxTiles: 100,
+  spriteColumns: 10,
+  tileWidth: 160,
+  tileHeight: 90,
+  timeoutMs: 1000,
+};
+
+describe("planSprite", () => {
+  it("uses one tile per interval for short recordings", () => {
+    expect(planSprite(95, options)).toEqual({
+      intervalSec: 10,
+      tiles: 10,
+      columns: 10,
+      rows: 1,
+    });
+    expect(planSprite(25, options)).toMatchObject({ tiles: 3, columns: 3 });
+  });
+
+  it("spreads tiles out to stay under the limit", () => {
+    // Two hours at 10s would be 720 tiles
+    expect(planSprite(7200, options)).toEqual({
+      intervalSec: 72,
+      tiles: 100,
+      columns: 10,
+      rows: 10,
+    });
+  });
+});
+
+describe("ffmpeg arguments", () => {
+  const valueOf = (args: string[], flag: string) =>
+    args[args.indexOf(flag) + 1];
+
+  it("grabs a single scaled frame", () => {
+    const args = buildSnapshotArgs("in.flv", "poster.jpg", 1280, 10);
+
+    expect(valueOf(args, "-ss")).toBe("10");
+    expect(valueOf(args, "-frames:v")).toBe("1");
+    expect(valueOf(args, "-vf")).toBe("scale=1280:-2");
+    expect(buildSnapshotArgs("rtmp://x/live/a", "a.jpg", 640)).not.toContain(
+      "-ss"
+    );
+  });
+
+  it("tiles letterboxed frames into one image", () => {
+    const layout = planSprite(95, options);
+    const args = buildSpriteArgs("in.flv", "sprite.jpg", layout, 160, 90);
+
+    expect(valueOf(args, "-vf")).toBe(
+      "fps=1/10,scale=160:90:force_original_aspect_ratio=decrease," +
+        "pad=160:90:(ow-iw)/2:(oh-ih)/2,tile=10x1"
+    );
+    // Applies to the input, so it must come before -i
+    expect(args.indexOf("-skip_frame")).toBeLessThan(args.indexOf("-i"));
+    expect(valueOf(args, "-skip_frame")).toBe("nokey");
+    expect(args[args.length - 1]).toBe("sprite.jpg");
+  });
+});
+
+describe("buildSpriteVtt", () => {
+  it("points each interval at its tile", () => {
+    const layout = { intervalSec: 10, tiles: 3, columns: 2, rows: 2 };
+
+    expect(buildSpriteVtt("s.jpg", 25, layout, 160, 90)).toBe(
+      [
+        "WEBVTT",
+        "",
+        "00:00:00.000 --> 00:00:10.000",
+        "s.jpg#xywh=0,0,160,90",
+        "",
+        "00:00:10.000 --> 00:00:20.000",
+        "s.jpg#xywh=160,0,160,90",
+        "",
+        "00:00:20.000 --> 00:00:25.000",
+        "s.jpg#xywh=0,90,160,90",
+        "",
+      ].join("\n")
+    );
+  });
+});
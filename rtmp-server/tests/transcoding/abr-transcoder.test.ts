@@ -0,0 +1,61 @@
+import { buildAbrArgs } from "../../src/transcoding/abr-transcoder";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("buildAbrArgs", () => {
+  const ladder = [
+    { name: "720p", height: 720, videoBitrate: 2800, audioBitrate: 128 },
+    { name: "240p", width: 426, height: 240, videoBitrate: 400 },
+  ];
+
+  const args = buildAbrArgs(
+    "rtmp://127.0.0.1:1935/live/abc",
+    "media/temp/live/abc",
+    ladder,
+    { segmentDuration: 2, listSize: 3 }
+  );
+
+  const valueOf = (flag: string) => args[args.indexOf(flag) + 1];
+
+  it("should scale one split of the input per rendition", () => {
+    expect(valueOf("-filter_complex")).toBe(
+      "[0:v]split=2[v0][v1];[v0]scale=-2:720[v0out];[v1]scale=426:240[v1out]"
+    );
+    expect(valueOf("-b:v:0")).toBe("2800k");
+    expect(valueOf("-b:v:1")).toBe("400k");
+    expect(valueOf("-b:a:1")).toBe("128k");
+  });
+
+  it("should write a master playlist and per-variant playlists", () => {
+    expect(valueOf("-master_pl_name")).toBe("index.m3u8");
+    expect(valueOf("-var_stream_map")).toBe(
+      "v:0,a:0,name:720p v:1,a:1,name:240p"
+    );
+    expect(valueOf("-hls_time")).toBe("2");
+    expect(valueOf("-hls_list_size")).toBe("3");
+    expect(args[args.length - 1]).toBe("media/temp/live/abc/%v/index.m3u8");
+  });
+
+  it("should map audio optionally and leave it out of video-only variants", () => {
+    expect(args).toContain("0:a:0?");
+
+    const videoOnly = buildAbrArgs(
+      "rtmp://127.0.0.1:1935/live/abc",
+      "media/temp/live/abc",
+      ladder,
+      { segmentDuration: 2, listSize: 3 },
+      false
+    );
+
+    expect(videoOnly.some((arg) => arg.startsWith("0:a"))).toBe(false);
+    expect(videoOnly).not.toContain("-b:a:0");
+    expect(videoOnly[videoOnly.indexOf("-var_stream_map") + 1]).toBe(
+      "v:0,name:720p v:1,name:240p"
+    );
+  });
+});
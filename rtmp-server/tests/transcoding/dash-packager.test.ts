@@ -0,0 +1,53 @@
+import { buildDashArgs } from "../../src/transcoding/dash-packager";
+
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe("buildDashArgs", () => {
+  const hls = { segmentDuration: 4, listSize: 5 };
+  const input = "rtmp://127.0.0.1:1935/dash/abc";
+  const output = "media/temp/dash/abc";
+
+  const valueOf = (args: string[], flag: string) =>
+    args[args.indexOf(flag) + 1];
+
+  it("should repackage the source without a ladder", () => {
+    const args = buildDashArgs(input, output, hls, {});
+
+    expect(valueOf(args, "-c")).toBe("copy");
+    expect(args).not.toContain("-filter_complex");
+    expect(valueOf(args, "-seg_duration")).toBe("4");
+    expect(valueOf(args, "-window_size")).toBe("5");
+    expect(args[args.length - 1]).toBe("media/temp/dash/abc/index.mpd");
+  });
+
+  it("should share segments with an HLS master playlist by default", () => {
+    const args = buildDashArgs(input, output, hls, {});
+
+    expect(valueOf(args, "-hls_playlist")).toBe("1");
+    expect(valueOf(args, "-hls_master_name")).toBe("index.m3u8");
+    expect(
+      buildDashArgs(input, output, hls, { hlsPlaylist: false })
+    ).not.toContain("-hls_playlist");
+  });
+
+  it("should encode every rendition with a single audio track", () => {
+    const args = buildDashArgs(input, output, hls, {}, [
+      { name: "720p", height: 720, videoBitrate: 2800, audioBitrate: 128 },
+      { name: "360p", height: 360, videoBitrate: 800, audioBitrate: 96 },
+    ]);
+
+    expect(valueOf(args, "-filter_complex")).toBe(
+      "[0:v]split=2[v0][v1];[v0]scale=-2:720[v0out];[v1]scale=-2:360[v1out]"
+    );
+    expect(valueOf(args, "-force_key_frames")).toBe("expr:gte(t,n_forced*4)");
+    expect(valueOf(args, "-b:a")).toBe("128k");
+    expect(valueOf(args, "-adaptation_sets")).toBe(
+      "id=0,streams=v id=1,streams=a"
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import fs from "fs-extra";
+import path from "path";
+import { LowLatencyHlsPackager } from "../../src/transcoding/ll-hls-packager";
+import { spawnFfmpeg, stopFfmpeg } from "../../src/utils/ffmpeg";
+
+jest.mock("fs-extra");
+jest.mock("../../src/utils/ffmpeg");
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe("LowLatencyHlsPackager", () => {
+  const hls = { segmentDuration: 4, listSize: 5 };
+  const lowLatency = { partDuration: 1 };
+  const outputDir = path.join("media/temp", "/ll/abc");
+  let packager: LowLatencyHlsPackager;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers();
+    mockedFs.readFile.mockRejectedValue(new Error("ENOENT") as never);
+    (spawnFfmpeg as jest.Mock).mockReturnValue({ pid: 1 });
+    packager = new LowLatencyHlsPackager("media/temp");
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should serve the stream's playlist until it is stopped", async () => {
+    await packager.start("s1", "/ll/abc", "abc", hls, lowLatency);
+
+    expect(mockedFs.emptyDir).toHaveBeenCalledWith(outputDir);
+    expect(packager.getPlaylist("/ll/abc")).toBeDefined();
+    expect(packager.getOutputDir("/ll/abc")).toBe(outputDir);
+
+    await packager.stopAll();
+
+    expect(stopFfmpeg).toHaveBeenCalledWith({ pid: 1 });
+    expect(mockedFs.remove).toHaveBeenCalledWith(outputDir);
+    expect(packager.getPlaylist("/ll/abc")).toBeUndefined();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("should not start polling when stopped while starting", async () => {
+    const starting = packager.start("s1", "/ll/abc", "abc", hls, lowLatency);
+    await packager.stop("s1");
+    await starting;
+
+    expect(spawnFfmpeg).not.toHaveBeenCalled();
+    expect(packager.getPlaylist("/ll/abc")).toBeUndefined();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { LowLatencyPlaylist } from "../../src/transcoding/ll-hls-playlist";
+
+describe("LowLatencyPlaylist", () => {
+  const createPlaylist = () =>
+    new LowLatencyPlaylist({
+      partDuration: 0.5,
+      segmentDuration: 2,
+      listSize: 3,
+    });
+
+  const addParts = (playlist: LowLatencyPlaylist, from: number, to: number) => {
+    for (let i = from; i <= to; i++) {
+      playlist.addPart(i, `part${i}.m4s`, 0.5);
+    }
+  };
+
+  it("should group parts into segments and advertise LL-HLS tags", () => {
+    const playlist = createPlaylist();
+    addParts(playlist, 0, 9);
+
+    const rendered = playlist.render();
+
+    expect(playlist.partsPerSegment).toBe(4);
+    expect(rendered).toContain(
+      "#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=1.500"
+    );
+    expect(rendered).toContain("#EXT-X-PART-INF:PART-TARGET=0.50000");
+    expect(rendered).toContain("#EXT-X-MEDIA-SEQUENCE:0");
+    expect(rendered).toContain("#EXTINF:2.00000,\nseg1.m4s");
+    expect(rendered).toContain(
+      '#EXT-X-PART:DURATION=0.50000,URI="part8.m4s",INDEPENDENT=YES'
+    );
+    expect(rendered).toContain(
+      '#EXT-X-PART:DURATION=0.50000,URI="part9.m4s"\n'
+    );
+    expect(rendered).toContain(
+      '#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part10.m4s"'
+    );
+  });
+
+  it("should slide the window and only list parts for recent segments", () => {
+    const playlist = createPlaylist();
+    addParts(playlist, 0, 27);
+
+    const rendered = playlist.render();
+
+    expect(rendered).toContain("#EXT-X-MEDIA-SEQUENCE:4");
+    expect(rendered).not.toContain("seg3.m4s");
+    expect(rendered).not.toContain('URI="part16.m4s"');
+    expect(rendered).toContain('URI="part20.m4s"');
+    expect(playlist.getSegmentParts(6)).toHaveLength(4);
+    expect(playlist.getSegmentParts(0)).toBeNull();
+  });
+
+  it("should resolve blocking waits when the part arrives", async () => {
+    const playlist = createPlaylist();
+    addParts(playlist, 0, 3);
+
+    const target = playlist.partIndexFor(1, 1);
+    const wait = playlist.waitForPart(target, 1000);
+    addParts(playlist, 4, 5);
+
+    expect(target).toBe(5);
+    await expect(wait).resolves.toBe(true);
+  });
+
+  it("should stop waiting when the stream ends", async () => {
+    const playlist = createPlaylist();
+
+    const wait = playlist.waitForPart(3, 1000);
+    playlist.end();
+
+    await expect(wait).resolves.toBe(false);
+    expect(playlist.render()).toContain("#EXT-X-ENDLIST");
+  });
+});
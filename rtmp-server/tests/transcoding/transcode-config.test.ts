@@ -0,0 +1,116 @@
+import fs from "fs-extra";
+import {
+  DEFAULT_ABR_LADDER,
+  loadTranscodeConfig,
+  validateTranscodeConfig,
+} from "../../src/transcoding/transcode-config";
+
+jest.mock("fs-extra");
+jest.mock("../../src/utils/logger", () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockedFs = fs as jest.Mocked<typeof fs>;
+
+describe("transcode config", () => {
+  const hls = { segmentDuration: 2, listSize: 3 };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    delete process.env.TRANSCODE_CONFIG_FILE;
+  });
+
+  it("should default to a single-rendition live app", () => {
+    const config = loadTranscodeConfig();
+
+    expect(config.apps.live.hls).toEqual(hls);
+    expect(config.apps.live.abr).toBeUndefined();
+  });
+
+  it("should load a config file and expand abr: true", () => {
+    process.env.TRANSCODE_CONFIG_FILE = "./transcoding.json";
+    mockedFs.readJsonSync.mockReturnValue({
+      apps: { live: { abr: true }, mobile: { hls: { listSize: 6 } } },
+    });
+
+    const config = loadTranscodeConfig();
+
+    expect(config.apps.live.abr).toEqual(DEFAULT_ABR_LADDER);
+    expect(config.apps.mobile.hls).toEqual({ segmentDuration: 2, listSize: 6 });
+  });
+
+  it("should accept the default ladder", () => {
+    expect(() =>
+      validateTranscodeConfig({
+        apps: { live: { hls, abr: DEFAULT_ABR_LADDER } },
+      })
+    ).not.toThrow();
+  });
+
+  it("should reject invalid renditions", () => {
+    expect(() =>
+      validateTranscodeConfig({
+        apps: {
+          live: {
+            hls,
+            abr: [
+              { name: "720p", height: 720, videoBitrate: 2800 },
+              { name: "720p", height: 481, videoBitrate: 0 },
+            ],
+          },
+        },
+      })
+    ).toThrow(/duplicated.*height must be.*videoBitrate must be/);
+  });
+
+  it("should reject an empty ladder and bad HLS options", () => {
+    expect(() =>
+      validateTranscodeConfig({
+        apps: { live: { hls: { segmentDuration: 0, listSize: 3 }, abr: [] } },
+      })
+    ).toThrow(/segmentDuration.*non-empty/);
+  });
+
+  it("should validate low-latency part durations", () => {
+    expect(() =>
+      validateTranscodeConfig({
+        apps: { live: { hls, lowLatency: { partDuration: 0.5 } } },
+      })
+    ).not.toThrow();
+    expect(() =>
+      validateTranscodeConfig({
+        apps: { live: { hls, lowLatency: { partDuration: 0.3 } } },
+      })
+    ).toThrow(/multiple of lowLatency.partDuration/);
+    expect(() =>
+      validateTranscodeConfig({
+        apps: {
+          live: {
+            hls,
+            lowLatency: { partDuration: 0.5 },
+            abr: DEFAULT_ABR_LADDER,
+          },
+        },
+      })
+    ).toThrow(/cannot be combined with abr/);
+  });
+
+  it("should expand dash: true and reject dash with low latency", () => {
+    process.env.TRANSCODE_CONFIG_FILE = "./transcoding.json";
+    mockedFs.readJsonSync.mockReturnValue({
+      apps: { live: { dash: true, abr: true } },
+    });
+
+    expect(loadTranscodeConfig().apps.live.dash).toEqual({});
+    expect(() =>
+      validateTranscodeConfig({
+        apps: {
+          live: { hls, dash: {}, lowLatency: { partDuration: 0.5 } },
+        },
+      })
+    ).toThrow(/lowLatency cannot be combined with dash/);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  ViewerAnalytics,
+  viewerClientKey,
+} from "../../src/viewers/viewer-analytics";
+
+describe("ViewerAnalytics", () => {
+  const alice = viewerClientKey("10.0.0.1", "Safari");
+  const bob = viewerClientKey("10.0.0.2", "Chrome");
+  let viewers: ViewerAnalytics;
+
+  beforeEach(() => {
+    viewers = new ViewerAnalytics(30000);
+    viewers.startStream("/live/show", "show", 0);
+  });
+
+  it("tracks concurrency, peak and watch time across protocols", () => {
+    viewers.join("p1", "/live/show", "flv", alice, 0);
+    viewers.join("p2", "/live/show", "ws-flv", bob, 10000);
+    viewers.leave("p1", 60000);
+    // Same client reconnecting is a new session but not a new viewer
+    viewers.join("p3", "/live/show", "rtmp", alice, 70000);
+
+    expect(viewers.get("/live/show", 80000)).toMatchObject({
+      concurrent: 2,
+      peak: 2,
+      peakAt: new Date(10000),
+      uniqueViewers: 2,
+      sessions: 3,
+      // (60 + 70 + 10) / 3
+      averageWatchSec: 47,
+    });
+  });
+
+  it("counts HLS clients while they keep fetching", () => {
+    expect(viewers.observeHttp("/live/show/index.m3u8?t=1", alice, 0)).toBe(
+      "/live/show"
+    );
+    viewers.observeHttp("/live/show/index5.ts", alice, 20000);
+    viewers.observeHttp("/ll/live/show/part12.m4s", bob, 20000);
+
+    expect(viewers.concurrentByProtocol(25000).hls).toBe(2);
+    viewers.observeHttp("/live/show/index6.ts", alice, 40000);
+    // Bob fetched once and went away; Alice watched until her last fetch
+    expect(viewers.get("/live/show", 55000)).toMatchObject({
+      concurrent: 1,
+      peak: 2,
+      uniqueViewers: 2,
+    });
+    expect(viewers.observeHttp("/live/show.flv", alice)).toBeNull();
+  });
+
+  it("counts DASH clients under DASH, HLS clients of the same segments under HLS", () => {
+    viewers = new ViewerAnalytics(30000, (app) => app === "dash");
+    viewers.startStream("/dash/show", "show", 0);
+
+    viewers.observeHttp("/dash/show/index.mpd", alice, 0);
+    viewers.observeHttp("/dash/show/chunk-0-00001.m4s", alice, 1000);
+    viewers.observeHttp("/dash/show/index.m3u8", bob, 0);
+    viewers.observeHttp("/dash/show/chunk-0-00001.m4s", bob, 1000);
+    // Segment first: counted by the app it came through
+    const carol = viewerClientKey("10.0.0.3", "VLC");
+    viewers.observeHttp("/dash/show/chunk-0-00002.m4s", carol, 2000);
+
+    expect(viewers.concurrentByProtocol(5000)).toMatchObject({
+      hls: 1,
+      dash: 2,
+    });
+    expect(viewers.get("/dash/show", 5000).uniqueViewers).toBe(3);
+  });
+
+  it("counts HLS clients of ABR renditions", () => {
+    expect(viewers.observeHttp("/live/show/720p/index.m3u8", alice, 0)).toBe(
+      "/live/show"
+    );
+    viewers.observeHttp("/live/show/720p/index3.ts", alice, 20000);
+
+    expect(viewers.get("/live/show", 45000).concurrent).toBe(1);
+  });
+
+  it("closes every session when the broadcast ends", () => {
+    viewers.join("p1", "/live/show", "flv", alice, 0);
+    viewers.observeHttp("/live/show/index.m3u8", bob, 0);
+    viewers.observeHttp("/live/show/index1.ts", bob, 30000);
+
+    const summary = viewers.endStream("/live/show", 40000);
+
+    expect(summary).toMatchObject({
+      channelId: "show",
+      endedAt: new Date(40000),
+      peak: 2,
+      averageWatchSec: 35,
+    });
+    expect(viewers.list()).toEqual([]);
+    // Players NMS moved to idle join the next broadcast, not this one
+    viewers.leave("p1", 50000);
+    viewers.join("p1", "/live/show", "flv", alice, 50000);
+    expect(viewers.concurrentByProtocol(50000).flv).toBe(0);
+  });
+});